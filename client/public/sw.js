@@ -0,0 +1,86 @@
+// Keeps the built app shell available offline. Registered from main.tsx in
+// production web builds only. API calls are never cached here; the app keeps
+// its own offline copy of trips in IndexedDB (client/src/lib/offlineStore.ts).
+
+// Both filled in at build time (serviceWorkerPrecache in vite.config.ts): a new
+// build changes this file, so browsers install it and drop the old cache.
+const BUILD_ID = "__BUILD_ID__";
+const BUILD_ASSETS = /* __BUILD_ASSETS__ */ [];
+
+const CACHE_PREFIX = "braintrip-shell-";
+const CACHE = `${CACHE_PREFIX}${BUILD_ID}`;
+// The whole built app is fetched on install, so it opens offline right after
+// the first visit rather than once each asset happens to have been requested.
+const SHELL = ["/", "/index.html", "/favicon.png", ...BUILD_ASSETS];
+const FONT_HOSTS = ["fonts.googleapis.com", "fonts.gstatic.com"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE)
+      .then((cache) => cache.addAll(SHELL))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys.filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE).map((key) => caches.delete(key)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok || response.type === "opaque") {
+    const cache = await caches.open(CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// Pages always try the network so a new deploy is picked up, falling back to
+// the cached shell; the client-side router takes it from there.
+async function networkFirstPage(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(CACHE);
+      cache.put("/index.html", response.clone());
+    }
+    return response;
+  } catch (err) {
+    const cached = await caches.match("/index.html");
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+
+  if (url.origin === self.location.origin) {
+    if (url.pathname.startsWith("/api/") || url.pathname.startsWith("/ws/")) return;
+    if (request.mode === "navigate") {
+      event.respondWith(networkFirstPage(request));
+      return;
+    }
+    // Built assets have content hashes in their names, so a cached copy is never stale.
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+
+  if (FONT_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
@@ -1,8 +1,12 @@
+import { Redirect, Route, Router, Switch } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
+import { SyncStatus } from "@/components/sync-status";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { TripProvider, useTrip } from "@/lib/tripContext";
+import { TripProvider } from "@/lib/tripContext";
+import { AppLocationProvider, useAppLocation } from "@/lib/appLocation";
+import { TRIP_SCREEN_PATHS, type TripScreen } from "@/lib/routes";
 
 import HomePage from "@/pages/home";
 import QuizPage from "@/pages/quiz";
@@ -11,39 +15,53 @@ import ItineraryPage from "@/pages/itinerary";
 import ProfilePage from "@/pages/profile";
 import LoadingPage from "@/pages/loading";
 import TripDetailPage from "@/pages/trip-detail";
+import MapPage from "@/pages/map";
+import SharedTripPage from "@/pages/shared-trip";
 
-function AppRouter() {
-  const { screen } = useTrip();
+const TRIP_SCREEN_PAGES: Record<TripScreen, () => JSX.Element | null> = {
+  loading: LoadingPage,
+  quiz: QuizPage,
+  "quiz-results": QuizPage,
+  suggestions: SuggestionsPage,
+  itinerary: ItineraryPage,
+  map: MapPage,
+};
 
-  switch (screen) {
-    case "home":
-      return <HomePage />;
-    case "loading":
-      return <LoadingPage />;
-    case "quiz":
-    case "quiz-results":
-      return <QuizPage />;
-    case "suggestions":
-      return <SuggestionsPage />;
-    case "itinerary":
-      return <ItineraryPage />;
-    case "profile":
-      return <ProfilePage />;
-    case "trip-detail":
-      return <TripDetailPage />;
-    default:
-      return <HomePage />;
-  }
+function AppRouter() {
+  return (
+    <Switch>
+      <Route path="/" component={HomePage} />
+      <Route path="/profile" component={ProfilePage} />
+      <Route path="/shared/:token" component={SharedTripPage} />
+      <Route path="/trips/:id" component={TripDetailPage} />
+      {(Object.keys(TRIP_SCREEN_PATHS) as TripScreen[]).flatMap((screen) => [
+        <Route key={screen} path={TRIP_SCREEN_PATHS[screen]} component={TRIP_SCREEN_PAGES[screen]} />,
+        <Route
+          key={`trip-${screen}`}
+          path={`/trips/:id${TRIP_SCREEN_PATHS[screen]}`}
+          component={TRIP_SCREEN_PAGES[screen]}
+        />,
+      ])}
+      <Route>
+        <Redirect to="/" replace />
+      </Route>
+    </Switch>
+  );
 }
 
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
-        <TripProvider>
-          <AppRouter />
-        </TripProvider>
+        <AppLocationProvider>
+          <Router hook={useAppLocation}>
+            <TripProvider>
+              <AppRouter />
+            </TripProvider>
+          </Router>
+        </AppLocationProvider>
         <Toaster />
+        <SyncStatus />
       </TooltipProvider>
     </QueryClientProvider>
   );
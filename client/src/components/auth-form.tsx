@@ -0,0 +1,97 @@
+import { useState, useCallback, type FormEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth, getAuthErrorMessage } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, LogIn, UserPlus } from "lucide-react";
+
+export function AuthForm() {
+  const { loginMutation, registerMutation } = useAuth();
+  const { toast } = useToast();
+  const [isRegister, setIsRegister] = useState(false);
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  const mutation = isRegister ? registerMutation : loginMutation;
+
+  const handleSubmit = useCallback(
+    (e: FormEvent) => {
+      e.preventDefault();
+      mutation.mutate(
+        { username: username.trim(), password },
+        {
+          onSuccess: (user) => {
+            toast({ title: isRegister ? `Welcome, ${user.username}!` : `Signed in as ${user.username}` });
+            setPassword("");
+          },
+          onError: (err) => {
+            toast({
+              title: isRegister ? "Couldn't create account" : "Couldn't sign in",
+              description: getAuthErrorMessage(err),
+              variant: "destructive",
+            });
+          },
+        }
+      );
+    },
+    [mutation, username, password, isRegister, toast]
+  );
+
+  return (
+    <Card className="p-5">
+      <h2 className="text-base font-semibold mb-1">
+        {isRegister ? "Create an account" : "Sign in"}
+      </h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        {isRegister ? "Save trips and pick them up on any device." : "Sign in to see your saved trips."}
+      </p>
+      <form className="space-y-3" onSubmit={handleSubmit}>
+        <div>
+          <Label htmlFor="auth-username">Username</Label>
+          <Input
+            id="auth-username"
+            autoComplete="username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            data-testid="input-auth-username"
+          />
+        </div>
+        <div>
+          <Label htmlFor="auth-password">Password</Label>
+          <Input
+            id="auth-password"
+            type="password"
+            autoComplete={isRegister ? "new-password" : "current-password"}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            data-testid="input-auth-password"
+          />
+        </div>
+        <Button
+          type="submit"
+          className="w-full gap-2"
+          disabled={mutation.isPending || !username.trim() || !password}
+          data-testid="button-auth-submit"
+        >
+          {mutation.isPending ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : isRegister ? (
+            <UserPlus className="w-4 h-4" />
+          ) : (
+            <LogIn className="w-4 h-4" />
+          )}
+          {isRegister ? "Create Account" : "Sign In"}
+        </Button>
+      </form>
+      <button
+        className="w-full mt-3 text-xs text-muted-foreground hover:text-foreground"
+        onClick={() => setIsRegister((v) => !v)}
+        data-testid="button-auth-toggle"
+      >
+        {isRegister ? "Already have an account? Sign in" : "New here? Create an account"}
+      </button>
+    </Card>
+  );
+}
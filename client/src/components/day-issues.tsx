@@ -0,0 +1,21 @@
+import { describeDayIssue, type DayIssue } from "@shared/itineraryChecks";
+import { AlertTriangle } from "lucide-react";
+
+export function DayIssueList({ day, issues }: { day: number; issues: DayIssue[] }) {
+  if (issues.length === 0) return null;
+  return (
+    <div
+      className="flex items-start gap-2 p-2 mb-2 rounded-md border border-amber-300 bg-amber-50 text-amber-900 dark:border-amber-800 dark:bg-amber-950/40 dark:text-amber-200"
+      data-testid={`day-issues-${day}`}
+    >
+      <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+      <ul className="text-xs space-y-0.5">
+        {issues.map((issue, i) => (
+          <li key={i} data-testid={`day-issue-${day}-${issue.kind}`}>
+            {describeDayIssue(issue)}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import type { QuizAnswer, QuizAttemptWithAnswers } from "@shared/schema";
+import { Check, X, Lightbulb, Star } from "lucide-react";
+
+function AnswerReview({ answer }: { answer: QuizAnswer }) {
+  const selected = answer.selectedIndex != null ? answer.options[answer.selectedIndex] : null;
+  const correct = answer.options[answer.correctIndex];
+
+  return (
+    <div className="py-3 border-b last:border-b-0" data-testid={`quiz-answer-${answer.id}`}>
+      <p className="text-sm font-medium mb-2">
+        {answer.position + 1}. {answer.question}
+      </p>
+      <div className="space-y-1 text-xs">
+        <div className={`flex items-start gap-1.5 ${answer.isCorrect ? "text-green-600 dark:text-green-400" : "text-destructive"}`}>
+          {answer.isCorrect ? <Check className="w-3 h-3 mt-0.5 shrink-0" /> : <X className="w-3 h-3 mt-0.5 shrink-0" />}
+          <span>Your answer: {selected ?? "Skipped"}</span>
+        </div>
+        {!answer.isCorrect && (
+          <div className="flex items-start gap-1.5 text-green-600 dark:text-green-400">
+            <Check className="w-3 h-3 mt-0.5 shrink-0" />
+            <span>Correct answer: {correct}</span>
+          </div>
+        )}
+      </div>
+      {answer.funFact && (
+        <div className="flex items-start gap-1 mt-2 p-1.5 rounded-md bg-chart-2/5">
+          <Lightbulb className="w-3 h-3 text-chart-2 shrink-0 mt-0.5" />
+          <p className="text-xs text-foreground/70">{answer.funFact}</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function QuizHistory({ tripId }: { tripId: number }) {
+  const { data: attempts } = useQuery<QuizAttemptWithAnswers[]>({
+    queryKey: ["/api/trips", tripId, "quiz-attempts"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/trips/${tripId}/quiz-attempts`);
+      return res.json();
+    },
+  });
+
+  if (!attempts || attempts.length === 0) return null;
+
+  return (
+    <div className="space-y-3 mt-6">
+      <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
+        Quiz History
+      </h2>
+      <Card className="px-4">
+        <Accordion type="single" collapsible>
+          {attempts.map((attempt) => (
+            <AccordionItem key={attempt.id} value={String(attempt.id)} data-testid={`quiz-attempt-${attempt.id}`}>
+              <AccordionTrigger className="text-sm">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span>{new Date(attempt.createdAt).toLocaleDateString()}</span>
+                  <Badge variant="outline" className="gap-1 text-xs">
+                    <Star className="w-3 h-3" />
+                    {attempt.score}/{attempt.totalQuestions}
+                  </Badge>
+                  <Badge variant="secondary" className="text-xs capitalize">
+                    {attempt.difficulty}
+                  </Badge>
+                </div>
+              </AccordionTrigger>
+              <AccordionContent>
+                {attempt.answers.map((answer) => (
+                  <AnswerReview key={answer.id} answer={answer} />
+                ))}
+              </AccordionContent>
+            </AccordionItem>
+          ))}
+        </Accordion>
+      </Card>
+    </div>
+  );
+}
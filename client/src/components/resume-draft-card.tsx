@@ -0,0 +1,69 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { motion } from "framer-motion";
+import { useTrip } from "@/lib/tripContext";
+import { useAuth } from "@/hooks/use-auth";
+import { getQueryFn } from "@/lib/queryClient";
+import {
+  SESSION_DRAFT_KEY,
+  describeDraft,
+  discardSessionDraft,
+  isResumableDraft,
+  loadLocalDraft,
+  newestDraft,
+} from "@/lib/sessionDraft";
+import type { SessionDraft } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { History, Play, X } from "lucide-react";
+
+/** "Resume where you left off" for the newest autosaved session, this device's or the account's. */
+export function ResumeDraftCard() {
+  const trip = useTrip();
+  const { user } = useAuth();
+  const [localDraft, setLocalDraft] = useState(loadLocalDraft);
+  const { data: serverDraft } = useQuery<SessionDraft | null>({
+    queryKey: SESSION_DRAFT_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    enabled: !!user,
+  });
+
+  const draft = newestDraft(localDraft, user ? serverDraft : null);
+  if (!draft || !isResumableDraft(draft)) return null;
+
+  const handleDiscard = () => {
+    setLocalDraft(null);
+    discardSessionDraft();
+  };
+
+  return (
+    <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ duration: 0.5 }}>
+      <Card className="p-4 mb-4 flex items-center gap-3" data-testid="card-resume-draft">
+        <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center shrink-0">
+          <History className="w-5 h-5 text-primary" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-semibold truncate" data-testid="text-resume-draft-city">
+            Resume {draft.cityLabel || draft.city}
+          </p>
+          <p className="text-xs text-muted-foreground truncate" data-testid="text-resume-draft-progress">
+            {describeDraft(draft)}
+          </p>
+        </div>
+        <Button size="sm" className="gap-1" onClick={() => trip.resumeDraft(draft)} data-testid="button-resume-draft">
+          <Play className="w-3.5 h-3.5" />
+          Resume
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          onClick={handleDiscard}
+          aria-label="Discard saved session"
+          data-testid="button-discard-draft"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </Card>
+    </motion.div>
+  );
+}
@@ -0,0 +1,220 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PLACE_CATEGORIES, type PlaceCategory, type SuggestionFilters } from "@shared/schema";
+import { SlidersHorizontal, X, Gem } from "lucide-react";
+
+const RATING_OPTIONS = [3.5, 4, 4.5];
+const DISTANCE_OPTIONS = [1, 2, 5, 10];
+
+interface ActiveFilter {
+  key: string;
+  label: string;
+  remove: (f: SuggestionFilters) => SuggestionFilters;
+}
+
+function without<T>(list: T[] | undefined, value: T): T[] | undefined {
+  const next = (list || []).filter((v) => v !== value);
+  return next.length > 0 ? next : undefined;
+}
+
+function activeFilters(filters: SuggestionFilters): ActiveFilter[] {
+  const active: ActiveFilter[] = [];
+  for (const c of filters.includeCategories || []) {
+    active.push({
+      key: `include-${c}`,
+      label: `Only ${c}`,
+      remove: (f) => ({ ...f, includeCategories: without(f.includeCategories, c) }),
+    });
+  }
+  for (const c of filters.excludeCategories || []) {
+    active.push({
+      key: `exclude-${c}`,
+      label: `No ${c}`,
+      remove: (f) => ({ ...f, excludeCategories: without(f.excludeCategories, c) }),
+    });
+  }
+  if (filters.minRating !== undefined) {
+    active.push({ key: "rating", label: `${filters.minRating.toFixed(1)}+ rating`, remove: (f) => ({ ...f, minRating: undefined }) });
+  }
+  if (filters.maxDistanceKm !== undefined) {
+    active.push({ key: "distance", label: `Within ${filters.maxDistanceKm} km`, remove: (f) => ({ ...f, maxDistanceKm: undefined }) });
+  }
+  if (filters.hiddenGems) {
+    active.push({ key: "gems", label: "Hidden gems", remove: (f) => ({ ...f, hiddenGems: undefined }) });
+  }
+  return active;
+}
+
+function CategoryChips({
+  selected,
+  onToggle,
+  testIdPrefix,
+}: {
+  selected: PlaceCategory[] | undefined;
+  onToggle: (c: PlaceCategory) => void;
+  testIdPrefix: string;
+}) {
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {PLACE_CATEGORIES.map((c) => {
+        const isOn = selected?.includes(c);
+        return (
+          <button
+            key={c}
+            onClick={() => onToggle(c)}
+            className={`px-2 py-1 rounded-md border text-xs transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring ${
+              isOn ? "border-primary bg-primary/10 text-primary" : "border-border hover-elevate"
+            }`}
+            data-testid={`${testIdPrefix}-${c.toLowerCase()}`}
+          >
+            {c}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+export function SuggestionFilterBar({
+  filters,
+  onChange,
+  hasHotel,
+  disabled,
+}: {
+  filters: SuggestionFilters;
+  onChange: (filters: SuggestionFilters) => void;
+  hasHotel: boolean;
+  disabled?: boolean;
+}) {
+  const active = activeFilters(filters);
+
+  // A category is either shown-only or hidden, never both.
+  const toggleInclude = (c: PlaceCategory) => {
+    const isOn = filters.includeCategories?.includes(c);
+    onChange({
+      ...filters,
+      includeCategories: isOn ? without(filters.includeCategories, c) : [...(filters.includeCategories || []), c],
+      excludeCategories: without(filters.excludeCategories, c),
+    });
+  };
+  const toggleExclude = (c: PlaceCategory) => {
+    const isOn = filters.excludeCategories?.includes(c);
+    onChange({
+      ...filters,
+      excludeCategories: isOn ? without(filters.excludeCategories, c) : [...(filters.excludeCategories || []), c],
+      includeCategories: without(filters.includeCategories, c),
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-2 mb-3 overflow-x-auto pb-1" data-testid="suggestion-filter-bar">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button size="sm" variant="outline" className="gap-1 shrink-0" disabled={disabled} data-testid="button-filters">
+            <SlidersHorizontal className="w-3 h-3" />
+            Filters
+            {active.length > 0 && (
+              <Badge variant="secondary" className="ml-1 text-xs">
+                {active.length}
+              </Badge>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-80 space-y-4">
+          <div>
+            <Label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground mb-2 block">
+              Show only
+            </Label>
+            <CategoryChips selected={filters.includeCategories} onToggle={toggleInclude} testIdPrefix="filter-include" />
+          </div>
+          <div>
+            <Label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground mb-2 block">
+              Hide
+            </Label>
+            <CategoryChips selected={filters.excludeCategories} onToggle={toggleExclude} testIdPrefix="filter-exclude" />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label className="text-xs text-muted-foreground mb-1 block">Minimum rating</Label>
+              <Select
+                value={filters.minRating !== undefined ? String(filters.minRating) : "any"}
+                onValueChange={(v) => onChange({ ...filters, minRating: v === "any" ? undefined : Number(v) })}
+              >
+                <SelectTrigger className="h-8 text-xs" data-testid="select-min-rating">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any</SelectItem>
+                  {RATING_OPTIONS.map((r) => (
+                    <SelectItem key={r} value={String(r)}>
+                      {r.toFixed(1)}+
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-xs text-muted-foreground mb-1 block">From hotel</Label>
+              <Select
+                value={filters.maxDistanceKm !== undefined ? String(filters.maxDistanceKm) : "any"}
+                onValueChange={(v) => onChange({ ...filters, maxDistanceKm: v === "any" ? undefined : Number(v) })}
+                disabled={!hasHotel}
+              >
+                <SelectTrigger className="h-8 text-xs" data-testid="select-max-distance">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any distance</SelectItem>
+                  {DISTANCE_OPTIONS.map((d) => (
+                    <SelectItem key={d} value={String(d)}>
+                      Within {d} km
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {!hasHotel && <p className="text-xs text-muted-foreground mt-1">Set a hotel to filter by distance</p>}
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-1.5">
+              <Gem className="w-3.5 h-3.5 text-primary" />
+              <div>
+                <Label htmlFor="filter-hidden-gems" className="text-sm">Hidden gems</Label>
+                <p className="text-xs text-muted-foreground">Highly rated, fewer reviews</p>
+              </div>
+            </div>
+            <Switch
+              id="filter-hidden-gems"
+              checked={!!filters.hiddenGems}
+              onCheckedChange={(checked) => onChange({ ...filters, hiddenGems: checked || undefined })}
+              data-testid="switch-hidden-gems"
+            />
+          </div>
+          {active.length > 0 && (
+            <Button size="sm" variant="ghost" className="w-full" onClick={() => onChange({})} data-testid="button-clear-filters">
+              Clear all filters
+            </Button>
+          )}
+        </PopoverContent>
+      </Popover>
+
+      {active.map((f) => (
+        <Badge key={f.key} variant="secondary" className="gap-1 shrink-0 text-xs" data-testid={`chip-filter-${f.key}`}>
+          {f.label}
+          <button
+            onClick={() => onChange(f.remove(filters))}
+            disabled={disabled}
+            className="rounded-full focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            aria-label={`Remove filter ${f.label}`}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </Badge>
+      ))}
+    </div>
+  );
+}
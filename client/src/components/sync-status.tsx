@@ -0,0 +1,82 @@
+import { AnimatePresence, motion } from "framer-motion";
+import { useOfflineSync } from "@/hooks/use-offline-sync";
+import { clearSyncFailures } from "@/lib/offlineSync";
+import { CloudOff, RefreshCw, AlertTriangle, X } from "lucide-react";
+
+function changesLabel(count: number): string {
+  return count === 1 ? "1 change" : `${count} changes`;
+}
+
+/**
+ * Small banner while offline, syncing queued edits, when some keep failing
+ * (retry or discard them), or after some were refused. Hidden otherwise.
+ */
+export function SyncStatus() {
+  const { online, pending, syncing, failed, stuck, syncNow, retryStuck, discardStuck } = useOfflineSync();
+
+  let content: { icon: JSX.Element; text: string; tone: string } | null = null;
+  if (!online) {
+    content = {
+      icon: <CloudOff className="w-3.5 h-3.5" />,
+      text: pending > 0 ? `Offline · ${changesLabel(pending)} waiting to sync` : "Offline · showing saved trips",
+      tone: "bg-muted text-foreground",
+    };
+  } else if (stuck > 0 && !syncing) {
+    content = {
+      icon: <AlertTriangle className="w-3.5 h-3.5" />,
+      text: `${changesLabel(stuck)} couldn't be synced`,
+      tone: "bg-destructive text-destructive-foreground",
+    };
+  } else if (syncing || pending > 0) {
+    content = {
+      icon: <RefreshCw className={`w-3.5 h-3.5 ${syncing ? "animate-spin" : ""}`} />,
+      text: syncing ? `Syncing ${changesLabel(pending)}…` : `${changesLabel(pending)} waiting to sync`,
+      tone: "bg-primary text-primary-foreground",
+    };
+  } else if (failed > 0) {
+    content = {
+      icon: <AlertTriangle className="w-3.5 h-3.5" />,
+      text: `${changesLabel(failed)} made offline couldn't be saved`,
+      tone: "bg-destructive text-destructive-foreground",
+    };
+  }
+
+  return (
+    <div className="fixed top-2 inset-x-0 z-50 flex justify-center pointer-events-none">
+      <AnimatePresence>
+        {content && (
+          <motion.div
+            initial={{ opacity: 0, y: -12 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -12 }}
+            className={`pointer-events-auto flex items-center gap-2 rounded-full px-3 py-1.5 text-xs font-medium shadow-md ${content.tone}`}
+            data-testid="sync-status"
+          >
+            {content.icon}
+            <span data-testid="text-sync-status">{content.text}</span>
+            {online && stuck > 0 && !syncing && (
+              <>
+                <button onClick={retryStuck} className="underline underline-offset-2" data-testid="button-retry-stuck">
+                  Retry
+                </button>
+                <button onClick={discardStuck} className="underline underline-offset-2" data-testid="button-discard-stuck">
+                  Discard
+                </button>
+              </>
+            )}
+            {online && stuck === 0 && pending > 0 && !syncing && (
+              <button onClick={syncNow} className="underline underline-offset-2" data-testid="button-sync-now">
+                Retry
+              </button>
+            )}
+            {online && pending === 0 && failed > 0 && (
+              <button onClick={clearSyncFailures} aria-label="Dismiss" data-testid="button-dismiss-sync-status">
+                <X className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
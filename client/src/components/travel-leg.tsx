@@ -0,0 +1,45 @@
+import type { DayTravelTimes, TravelLeg } from "@/hooks/use-travel-times";
+import { formatVisitDuration } from "@shared/itineraryChecks";
+import { Footprints, TramFront, Car } from "lucide-react";
+
+function TravelTimes({ walk, transit, drive }: { walk: number; transit: number; drive: number }) {
+  return (
+    <>
+      <span className="flex items-center gap-1">
+        <Footprints className="w-3 h-3" />
+        {formatVisitDuration(walk)}
+      </span>
+      <span className="flex items-center gap-1">
+        <TramFront className="w-3 h-3" />
+        {formatVisitDuration(transit)}
+      </span>
+      <span className="flex items-center gap-1">
+        <Car className="w-3 h-3" />
+        {formatVisitDuration(drive)}
+      </span>
+    </>
+  );
+}
+
+/** Sits between two itinerary cards. */
+export function TravelLegRow({ leg }: { leg: TravelLeg }) {
+  return (
+    <div
+      className="flex items-center gap-3 pl-10 -mt-1 mb-2 text-xs text-muted-foreground"
+      data-testid={`travel-leg-${leg.toId}`}
+    >
+      <TravelTimes walk={leg.walkMinutes} transit={leg.transitMinutes} drive={leg.driveMinutes} />
+    </div>
+  );
+}
+
+export function DayTravelSummary({ day, times }: { day: number; times: DayTravelTimes }) {
+  if (times.legs.length === 0) return null;
+  const { walkMinutes, transitMinutes, driveMinutes } = times.totals;
+  return (
+    <div className="flex items-center gap-3 mb-2 text-xs text-muted-foreground" data-testid={`travel-total-${day}`}>
+      <span>Travel this day:</span>
+      <TravelTimes walk={walkMinutes} transit={transitMinutes} drive={driveMinutes} />
+    </div>
+  );
+}
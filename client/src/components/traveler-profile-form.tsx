@@ -0,0 +1,236 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+  TRAVELER_INTERESTS,
+  DIETARY_NEEDS,
+  MOBILITY_NEEDS,
+  BUDGET_LEVELS,
+  TRAVEL_PACES,
+  type TravelerProfile,
+} from "@shared/schema";
+import { UserCog, ChevronDown, Loader2 } from "lucide-react";
+
+const BUDGET_LABELS: Record<(typeof BUDGET_LEVELS)[number], string> = {
+  budget: "Budget",
+  moderate: "Moderate",
+  luxury: "Luxury",
+};
+
+const PACE_LABELS: Record<(typeof TRAVEL_PACES)[number], string> = {
+  relaxed: "Relaxed",
+  balanced: "Balanced",
+  packed: "Packed",
+};
+
+function toTestId(value: string) {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+}
+
+function ChipGroup<T extends string>({
+  label,
+  options,
+  selected,
+  onChange,
+  testIdPrefix,
+}: {
+  label: string;
+  options: readonly T[];
+  selected: T[];
+  onChange: (next: T[]) => void;
+  testIdPrefix: string;
+}) {
+  return (
+    <div>
+      <Label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground mb-2 block">
+        {label}
+      </Label>
+      <div className="flex flex-wrap gap-1.5">
+        {options.map((option) => {
+          const isOn = selected.includes(option);
+          return (
+            <button
+              key={option}
+              type="button"
+              onClick={() => onChange(isOn ? selected.filter((o) => o !== option) : [...selected, option])}
+              className={`px-2 py-1 rounded-md border text-xs transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring ${
+                isOn ? "border-primary bg-primary/10 text-primary" : "border-border hover-elevate"
+              }`}
+              data-testid={`${testIdPrefix}-${toTestId(option)}`}
+            >
+              {option}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function summarize(profile: TravelerProfile): string {
+  const parts = [
+    ...profile.interests,
+    ...profile.dietary,
+    ...profile.mobility,
+    profile.budget ? BUDGET_LABELS[profile.budget] : null,
+    profile.pace ? `${PACE_LABELS[profile.pace]} pace` : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : "Not set yet";
+}
+
+export function TravelerProfileForm() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<TravelerProfile | null>(null);
+
+  const { data: profile, isLoading } = useQuery<TravelerProfile>({
+    queryKey: ["/api/profile"],
+  });
+
+  useEffect(() => {
+    if (profile) setDraft(profile);
+  }, [profile]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (next: TravelerProfile) => {
+      const res = await apiRequest("PUT", "/api/profile", next);
+      return (await res.json()) as TravelerProfile;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(["/api/profile"], saved);
+      toast({ title: "Preferences saved" });
+      setOpen(false);
+    },
+    onError: () => {
+      toast({ title: "Couldn't save preferences", variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !draft || !profile) {
+    return (
+      <Card className="p-4 mb-4">
+        <Skeleton className="h-4 w-40 mb-2" />
+        <Skeleton className="h-3 w-56" />
+      </Card>
+    );
+  }
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(profile);
+
+  return (
+    <Card className="p-4 mb-4" data-testid="card-traveler-profile">
+      <Collapsible open={open} onOpenChange={setOpen}>
+        <CollapsibleTrigger asChild>
+          <button className="flex items-center gap-3 w-full text-left" data-testid="button-toggle-profile">
+            <div className="flex items-center justify-center w-10 h-10 rounded-md bg-primary/10 shrink-0">
+              <UserCog className="w-5 h-5 text-primary" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <h3 className="text-sm font-semibold">Travel preferences</h3>
+              <p className="text-xs text-muted-foreground truncate" data-testid="text-profile-summary">
+                {summarize(profile)}
+              </p>
+            </div>
+            <ChevronDown className={`w-4 h-4 text-muted-foreground transition-transform ${open ? "rotate-180" : ""}`} />
+          </button>
+        </CollapsibleTrigger>
+
+        <CollapsibleContent className="space-y-4 pt-4">
+          <p className="text-xs text-muted-foreground">
+            Used to tailor trivia topics and spot suggestions on every trip.
+          </p>
+          <ChipGroup
+            label="Interests"
+            options={TRAVELER_INTERESTS}
+            selected={draft.interests}
+            onChange={(interests) => setDraft({ ...draft, interests })}
+            testIdPrefix="profile-interest"
+          />
+          <ChipGroup
+            label="Dietary needs"
+            options={DIETARY_NEEDS}
+            selected={draft.dietary}
+            onChange={(dietary) => setDraft({ ...draft, dietary })}
+            testIdPrefix="profile-dietary"
+          />
+          <ChipGroup
+            label="Mobility"
+            options={MOBILITY_NEEDS}
+            selected={draft.mobility}
+            onChange={(mobility) => setDraft({ ...draft, mobility })}
+            testIdPrefix="profile-mobility"
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label className="text-xs text-muted-foreground mb-1 block">Budget</Label>
+              <Select
+                value={draft.budget ?? "any"}
+                onValueChange={(v) => setDraft({ ...draft, budget: v === "any" ? null : (v as TravelerProfile["budget"]) })}
+              >
+                <SelectTrigger className="h-8 text-xs" data-testid="select-profile-budget">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">No preference</SelectItem>
+                  {BUDGET_LEVELS.map((b) => (
+                    <SelectItem key={b} value={b}>
+                      {BUDGET_LABELS[b]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-xs text-muted-foreground mb-1 block">Pace</Label>
+              <Select
+                value={draft.pace ?? "any"}
+                onValueChange={(v) => setDraft({ ...draft, pace: v === "any" ? null : (v as TravelerProfile["pace"]) })}
+              >
+                <SelectTrigger className="h-8 text-xs" data-testid="select-profile-pace">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">No preference</SelectItem>
+                  {TRAVEL_PACES.map((p) => (
+                    <SelectItem key={p} value={p}>
+                      {PACE_LABELS[p]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              className="flex-1"
+              onClick={() => {
+                setDraft(profile);
+                setOpen(false);
+              }}
+              data-testid="button-cancel-profile"
+            >
+              Cancel
+            </Button>
+            <Button
+              className="flex-1 gap-1"
+              onClick={() => saveMutation.mutate(draft)}
+              disabled={!isDirty || saveMutation.isPending}
+              data-testid="button-save-profile"
+            >
+              {saveMutation.isPending && <Loader2 className="w-3 h-3 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  );
+}
@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { Download, Share2, Printer, Loader2 } from "lucide-react";
+
+type ExportFormat = "ics" | "gpx" | "kml" | "json" | "booklet";
+
+const FORMATS: { format: ExportFormat; label: string; hint: string }[] = [
+  { format: "booklet", label: "Booklet (PDF)", hint: "Printable day-by-day guide" },
+  { format: "ics", label: "Calendar (.ics)", hint: "Apple, Google or Outlook calendar" },
+  { format: "gpx", label: "GPX", hint: "GPS and hiking apps" },
+  { format: "kml", label: "KML", hint: "Google Earth and My Maps" },
+  { format: "json", label: "JSON", hint: "Raw trip data" },
+];
+
+function bookletUrl(tripId: number, format: "html" | "pdf", includeQuiz: boolean): string {
+  return `/api/trips/${tripId}/booklet?format=${format}${includeQuiz ? "&quiz=1" : ""}`;
+}
+
+async function fetchExport(tripId: number, format: ExportFormat, includeQuiz: boolean): Promise<File> {
+  const url =
+    format === "booklet" ? bookletUrl(tripId, "pdf", includeQuiz) : `/api/trips/${tripId}/export?format=${format}`;
+  const res = await apiRequest("GET", url);
+  const disposition = res.headers.get("Content-Disposition");
+  const filename =
+    disposition?.match(/filename="([^"]+)"/)?.[1] || `trip-${tripId}.${format === "booklet" ? "pdf" : format}`;
+  const blob = await res.blob();
+  return new File([blob], filename, { type: blob.type });
+}
+
+// Prints the booklet from a hidden frame so the trip screen stays put.
+async function printBooklet(tripId: number, includeQuiz: boolean) {
+  const res = await apiRequest("GET", bookletUrl(tripId, "html", includeQuiz));
+  const html = await res.text();
+  const frame = document.createElement("iframe");
+  frame.style.position = "fixed";
+  frame.style.width = "0";
+  frame.style.height = "0";
+  frame.style.border = "0";
+  document.body.appendChild(frame);
+  await new Promise<void>((resolve) => {
+    frame.onload = () => resolve();
+    frame.srcdoc = html;
+  });
+  frame.contentWindow?.focus();
+  frame.contentWindow?.print();
+  // print() blocks in most browsers; give the rest time before cleaning up.
+  setTimeout(() => frame.remove(), 60_000);
+}
+
+function saveFile(file: File) {
+  const url = URL.createObjectURL(file);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = file.name;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+function canShareFiles(): boolean {
+  return typeof navigator !== "undefined" && typeof navigator.canShare === "function";
+}
+
+export function TripExportMenu({ tripId, title, hasQuiz }: { tripId: number; title: string; hasQuiz: boolean }) {
+  const { toast } = useToast();
+  const [busy, setBusy] = useState<"download" | "share" | "print" | null>(null);
+  const [includeQuiz, setIncludeQuiz] = useState(hasQuiz);
+
+  const handlePrint = async () => {
+    setBusy("print");
+    try {
+      await printBooklet(tripId, includeQuiz);
+    } catch (err: any) {
+      toast({
+        title: "Couldn't print booklet",
+        description: err.message || "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleExport = async (format: ExportFormat, action: "download" | "share") => {
+    setBusy(action);
+    try {
+      const file = await fetchExport(tripId, format, includeQuiz);
+      if (action === "share" && navigator.canShare?.({ files: [file] })) {
+        try {
+          await navigator.share({ files: [file], title });
+        } catch (err: any) {
+          // Some browsers drop the tap's user activation while the file downloads.
+          if (err?.name !== "NotAllowedError") throw err;
+          saveFile(file);
+        }
+      } else {
+        saveFile(file);
+      }
+    } catch (err: any) {
+      // Closing the share sheet isn't an error.
+      if (err?.name === "AbortError") return;
+      toast({
+        title: "Couldn't export trip",
+        description: err.message || "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const menu = (action: "download" | "share") => (
+    <DropdownMenuContent align="end" className="w-56">
+      <DropdownMenuLabel className="text-xs">{action === "download" ? "Download as" : "Share as"}</DropdownMenuLabel>
+      <DropdownMenuSeparator />
+      {hasQuiz && (
+        <DropdownMenuCheckboxItem
+          checked={includeQuiz}
+          onCheckedChange={(checked) => setIncludeQuiz(checked === true)}
+          onSelect={(e) => e.preventDefault()}
+          className="text-xs"
+          data-testid={`checkbox-${action}-include-quiz`}
+        >
+          Include quiz trivia in booklet
+        </DropdownMenuCheckboxItem>
+      )}
+      {FORMATS.map(({ format, label, hint }) => (
+        <DropdownMenuItem
+          key={format}
+          onSelect={() => handleExport(format, action)}
+          className="flex-col items-start gap-0"
+          data-testid={`menu-${action}-${format}`}
+        >
+          <span className="text-sm">{label}</span>
+          <span className="text-xs text-muted-foreground">{hint}</span>
+        </DropdownMenuItem>
+      ))}
+    </DropdownMenuContent>
+  );
+
+  return (
+    <div className="flex gap-2">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="flex-1 gap-2" disabled={busy !== null} data-testid="button-export-trip">
+            {busy === "download" ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            Export
+          </Button>
+        </DropdownMenuTrigger>
+        {menu("download")}
+      </DropdownMenu>
+      {canShareFiles() && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" className="flex-1 gap-2" disabled={busy !== null} data-testid="button-share-trip">
+              {busy === "share" ? <Loader2 className="w-4 h-4 animate-spin" /> : <Share2 className="w-4 h-4" />}
+              Share
+            </Button>
+          </DropdownMenuTrigger>
+          {menu("share")}
+        </DropdownMenu>
+      )}
+      <Button variant="outline" className="gap-2" onClick={handlePrint} disabled={busy !== null} data-testid="button-print-booklet">
+        {busy === "print" ? <Loader2 className="w-4 h-4 animate-spin" /> : <Printer className="w-4 h-4" />}
+        Print
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState, type FormEvent } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getAuthErrorMessage, useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { PublicUser, TripMemberRole, TripMemberWithUser, TripRole } from "@shared/schema";
+import { Users, UserMinus, Loader2 } from "lucide-react";
+
+interface TripMembersResponse {
+  owner: PublicUser | null;
+  members: TripMemberWithUser[];
+  role: TripRole;
+}
+
+const ROLE_LABELS: Record<TripMemberRole, string> = {
+  editor: "Can edit",
+  viewer: "Can view",
+};
+
+export function TripMembersDialog({ tripId, onLeft }: { tripId: number; onLeft: () => void }) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [username, setUsername] = useState("");
+  const [role, setRole] = useState<TripMemberRole>("editor");
+  const membersKey = ["/api/trips", tripId, "members"];
+
+  const { data, isLoading } = useQuery<TripMembersResponse>({
+    queryKey: membersKey,
+    enabled: open,
+  });
+  const isOwner = data?.role === "owner";
+
+  const saveMemberMutation = useMutation({
+    mutationFn: async (member: { username: string; role: TripMemberRole }) => {
+      await apiRequest("POST", `/api/trips/${tripId}/members`, member);
+    },
+    onSuccess: (_, member) => {
+      queryClient.invalidateQueries({ queryKey: membersKey });
+      if (member.username === username) {
+        setUsername("");
+        toast({ title: "Added to trip", description: `${member.username} can now open this trip.` });
+      }
+    },
+    onError: (err) => {
+      toast({ title: "Couldn't update members", description: getAuthErrorMessage(err), variant: "destructive" });
+    },
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      await apiRequest("DELETE", `/api/trips/${tripId}/members/${userId}`);
+      return userId;
+    },
+    onSuccess: (userId) => {
+      queryClient.invalidateQueries({ queryKey: membersKey });
+      if (userId === user?.id) {
+        queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
+        setOpen(false);
+        toast({ title: "You left the trip" });
+        onLeft();
+      }
+    },
+    onError: (err) => {
+      toast({ title: "Couldn't remove member", description: getAuthErrorMessage(err), variant: "destructive" });
+    },
+  });
+
+  const handleInvite = (e: FormEvent) => {
+    e.preventDefault();
+    if (!username.trim()) return;
+    saveMemberMutation.mutate({ username: username.trim(), role });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex-1 gap-2" data-testid="button-trip-members">
+          <Users className="w-4 h-4" />
+          Plan together
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Trip members</DialogTitle>
+          <DialogDescription>
+            Editors can add, remove and reorder spots; everyone sees changes live.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOwner && (
+          <form onSubmit={handleInvite} className="flex gap-2">
+            <Input
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              placeholder="Username"
+              autoCapitalize="none"
+              className="flex-1"
+              data-testid="input-member-username"
+            />
+            <Select value={role} onValueChange={(v) => setRole(v as TripMemberRole)}>
+              <SelectTrigger className="w-28" data-testid="select-member-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="editor">{ROLE_LABELS.editor}</SelectItem>
+                <SelectItem value="viewer">{ROLE_LABELS.viewer}</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={saveMemberMutation.isPending || !username.trim()} data-testid="button-add-member">
+              {saveMemberMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : "Add"}
+            </Button>
+          </form>
+        )}
+
+        {isLoading || !data ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {data.owner && (
+              <div className="flex items-center gap-2 rounded-md border p-2">
+                <span className="flex-1 text-sm truncate">{data.owner.username}</span>
+                <Badge variant="secondary" className="text-xs">
+                  Owner
+                </Badge>
+              </div>
+            )}
+            {data.members.map((member) => (
+              <div
+                key={member.id}
+                className="flex items-center gap-2 rounded-md border p-2"
+                data-testid={`row-trip-member-${member.userId}`}
+              >
+                <span className="flex-1 text-sm truncate">{member.username}</span>
+                {isOwner ? (
+                  <Select
+                    value={member.role}
+                    onValueChange={(v) =>
+                      saveMemberMutation.mutate({ username: member.username, role: v as TripMemberRole })
+                    }
+                  >
+                    <SelectTrigger className="w-28 h-8 text-xs" data-testid={`select-member-role-${member.userId}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="editor">{ROLE_LABELS.editor}</SelectItem>
+                      <SelectItem value="viewer">{ROLE_LABELS.viewer}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Badge variant="outline" className="text-xs">
+                    {ROLE_LABELS[member.role]}
+                  </Badge>
+                )}
+                {(isOwner || member.userId === user?.id) && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => removeMemberMutation.mutate(member.userId)}
+                    disabled={removeMemberMutation.isPending}
+                    title={member.userId === user?.id ? "Leave trip" : "Remove"}
+                    data-testid={`button-remove-member-${member.userId}`}
+                  >
+                    <UserMinus className="w-4 h-4 text-destructive" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            {data.members.length === 0 && (
+              <p className="text-xs text-muted-foreground text-center py-2">
+                Add a friend by their BrainTrip username to plan together.
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
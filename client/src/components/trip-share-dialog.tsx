@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { shareUrl } from "@/lib/shareLinks";
+import { getAuthErrorMessage } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { TripShare } from "@shared/schema";
+import { Link2, Copy, Trash2, Loader2 } from "lucide-react";
+
+const EXPIRY_OPTIONS = [
+  { value: "never", label: "Never expires", days: null },
+  { value: "1", label: "Expires in 1 day", days: 1 },
+  { value: "7", label: "Expires in 7 days", days: 7 },
+  { value: "30", label: "Expires in 30 days", days: 30 },
+];
+
+function expiryLabel(share: TripShare): string {
+  if (!share.expiresAt) return "Never expires";
+  const expires = new Date(share.expiresAt);
+  if (expires.getTime() <= Date.now()) return "Expired";
+  return `Expires ${expires.toLocaleDateString(undefined, { month: "short", day: "numeric" })}`;
+}
+
+export function TripShareDialog({ tripId }: { tripId: number }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [expiry, setExpiry] = useState("never");
+  const sharesKey = ["/api/trips", tripId, "share"];
+
+  const { data: shares, isLoading } = useQuery<TripShare[]>({
+    queryKey: sharesKey,
+    enabled: open,
+  });
+
+  const copyLink = async (share: TripShare) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(share.token));
+      toast({ title: "Link copied", description: "Anyone with the link can view this trip." });
+    } catch {
+      toast({ title: "Couldn't copy link", description: shareUrl(share.token), variant: "destructive" });
+    }
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const days = EXPIRY_OPTIONS.find((o) => o.value === expiry)?.days ?? null;
+      const res = await apiRequest("POST", `/api/trips/${tripId}/share`, { expiresInDays: days });
+      return (await res.json()) as TripShare;
+    },
+    onSuccess: (share) => {
+      queryClient.invalidateQueries({ queryKey: sharesKey });
+      copyLink(share);
+    },
+    onError: (err) => {
+      toast({ title: "Couldn't create link", description: getAuthErrorMessage(err), variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (shareId: number) => {
+      await apiRequest("DELETE", `/api/trips/${tripId}/share/${shareId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: sharesKey });
+      toast({ title: "Link revoked", description: "It no longer opens this trip." });
+    },
+    onError: (err) => {
+      toast({ title: "Couldn't revoke link", description: getAuthErrorMessage(err), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex-1 gap-2" data-testid="button-share-link">
+          <Link2 className="w-4 h-4" />
+          Share link
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Share a read-only link</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can view this trip and copy it into their own trips. They can't change yours.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Select value={expiry} onValueChange={setExpiry}>
+            <SelectTrigger className="flex-1" data-testid="select-share-expiry">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map((o) => (
+                <SelectItem key={o.value} value={o.value}>
+                  {o.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={createMutation.isPending}
+            data-testid="button-create-share-link"
+          >
+            {createMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : "Create"}
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+            </div>
+          ) : shares && shares.length > 0 ? (
+            shares.map((share) => (
+              <div
+                key={share.id}
+                className="flex items-center gap-2 rounded-md border p-2"
+                data-testid={`row-share-link-${share.id}`}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs font-mono truncate">{shareUrl(share.token)}</p>
+                  <p className="text-xs text-muted-foreground">{expiryLabel(share)}</p>
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => copyLink(share)}
+                  data-testid={`button-copy-share-link-${share.id}`}
+                >
+                  <Copy className="w-4 h-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => revokeMutation.mutate(share.id)}
+                  disabled={revokeMutation.isPending}
+                  data-testid={`button-revoke-share-link-${share.id}`}
+                >
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </Button>
+              </div>
+            ))
+          ) : (
+            <p className="text-xs text-muted-foreground text-center py-2">No share links yet.</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
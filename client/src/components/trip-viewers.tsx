@@ -0,0 +1,35 @@
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import type { TripViewer } from "@shared/schema";
+
+const MAX_AVATARS = 3;
+
+function viewersLabel(viewers: TripViewer[]): string {
+  const [first, ...rest] = viewers;
+  if (rest.length === 0) return `${first.username} is here too`;
+  if (rest.length === 1) return `${first.username} and ${rest[0].username} are here too`;
+  return `${first.username} and ${rest.length} others are here too`;
+}
+
+/** Who else has this trip open right now, from useTripSync. */
+export function TripViewers({ viewers }: { viewers: TripViewer[] }) {
+  if (viewers.length === 0) return null;
+
+  return (
+    <div
+      className="flex items-center gap-2"
+      title={viewers.map((v) => v.username).join(", ")}
+      data-testid="trip-viewers"
+    >
+      <div className="flex -space-x-2">
+        {viewers.slice(0, MAX_AVATARS).map((viewer) => (
+          <Avatar key={viewer.id} className="w-6 h-6 border-2 border-background">
+            <AvatarFallback className="text-[10px] font-semibold bg-primary/15 text-primary">
+              {viewer.username.slice(0, 2).toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+        ))}
+      </div>
+      <span className="text-xs text-muted-foreground">{viewersLabel(viewers)}</span>
+    </div>
+  );
+}
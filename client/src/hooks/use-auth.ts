@@ -0,0 +1,71 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { forgetOfflineData, rememberOfflineUser } from "@/lib/offlineSync";
+import { SESSION_DRAFT_KEY, clearLocalDraft } from "@/lib/sessionDraft";
+import type { AuthCredentials, PublicUser } from "@shared/schema";
+
+const ME_KEY = ["/api/auth/me"];
+
+export function getAuthErrorMessage(err: unknown): string {
+  const message = err instanceof Error ? err.message : String(err);
+  // apiRequest errors look like `401: {"error":"..."}`
+  const body = message.replace(/^\d{3}:\s*/, "");
+  try {
+    return JSON.parse(body).error || body;
+  } catch {
+    return body;
+  }
+}
+
+export function useAuth() {
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ME_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const onSignedIn = (signedIn: PublicUser) => {
+    queryClient.setQueryData(ME_KEY, signedIn);
+    // The offline copy is reset first when a different account signs in.
+    rememberOfflineUser(signedIn)
+      .catch(() => {})
+      .then(() => queryClient.invalidateQueries({ queryKey: ["/api/trips"] }));
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: AuthCredentials) => {
+      const res = await apiRequest("POST", "/api/auth/login", credentials);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: onSignedIn,
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: AuthCredentials) => {
+      const res = await apiRequest("POST", "/api/auth/register", credentials);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: onSignedIn,
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(ME_KEY, null);
+      queryClient.removeQueries({ queryKey: ["/api/trips"] });
+      queryClient.removeQueries({ queryKey: ["/api/profile"] });
+      queryClient.removeQueries({ queryKey: SESSION_DRAFT_KEY });
+      forgetOfflineData().catch(() => {});
+      clearLocalDraft();
+    },
+  });
+
+  return {
+    user: user ?? null,
+    isLoading,
+    loginMutation,
+    registerMutation,
+    logoutMutation,
+  };
+}
@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { dayCapacityMinutes } from "@shared/itineraryChecks";
+import type { TravelerProfile } from "@shared/schema";
+
+/** Sightseeing minutes per day, from the signed-in traveler's preferred pace. */
+export function useDayCapacity(): number {
+  const { user } = useAuth();
+  const { data: profile } = useQuery<TravelerProfile>({
+    queryKey: ["/api/profile"],
+    enabled: !!user,
+  });
+  return dayCapacityMinutes(profile?.pace);
+}
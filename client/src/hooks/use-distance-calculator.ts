@@ -64,7 +64,7 @@ function setCachedDistance(hotelKey: string, placeId: string, dist: string) {
   } catch {}
 }
 
-async function geocode(address: string): Promise<Coords | null> {
+export async function geocode(address: string): Promise<Coords | null> {
   const cached = getCachedCoords(address);
   if (cached) return cached;
 
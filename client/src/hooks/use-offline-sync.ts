@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+import { queryClient, sendRequest } from "@/lib/queryClient";
+import {
+  discardStuckWrites,
+  getSyncState,
+  refreshPendingCount,
+  replayQueuedWrites,
+  retryStuckWrites,
+  setOnline,
+  subscribeSyncState,
+} from "@/lib/offlineSync";
+
+// Queued edits are retried this often while they can't get through.
+const RETRY_MS = 30_000;
+
+/**
+ * Connection and sync status for the whole app. Mount once: it replays edits
+ * queued offline on start, when the browser comes back online, and on a timer.
+ */
+export function useOfflineSync() {
+  const state = useSyncExternalStore(subscribeSyncState, getSyncState);
+
+  const syncNow = useCallback(async () => {
+    const changed = await replayQueuedWrites(sendRequest);
+    if (changed.length > 0) queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
+  }, []);
+
+  const retryStuck = useCallback(async () => {
+    await retryStuckWrites();
+    await syncNow();
+  }, [syncNow]);
+
+  const discardStuck = useCallback(async () => {
+    const discarded = await discardStuckWrites();
+    if (discarded.length > 0) queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
+  }, []);
+
+  useEffect(() => {
+    refreshPendingCount().then(syncNow);
+
+    const handleOnline = () => {
+      setOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setOnline(false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    const timer = setInterval(syncNow, RETRY_MS);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      clearInterval(timer);
+    };
+  }, [syncNow]);
+
+  // Edits queued behind earlier ones while online go out right away.
+  useEffect(() => {
+    if (state.online && state.pending > 0) syncNow();
+  }, [state.online, state.pending, syncNow]);
+
+  return { ...state, syncNow, retryStuck, discardStuck };
+}
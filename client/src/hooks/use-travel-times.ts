@@ -0,0 +1,79 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { MAX_TRAVEL_TIME_SPOTS } from "@shared/schema";
+
+export interface TravelLeg {
+  fromId: string;
+  toId: string;
+  distanceKm: number;
+  walkMinutes: number;
+  transitMinutes: number;
+  driveMinutes: number;
+}
+
+export interface DayTravelTimes {
+  day: number;
+  legs: TravelLeg[];
+  totals: Omit<TravelLeg, "fromId" | "toId">;
+}
+
+interface TravelTimesResponse {
+  provider: string;
+  days: DayTravelTimes[];
+  unlocated: string[];
+}
+
+interface TravelSpot {
+  id: string;
+  title: string;
+  day: number;
+  address?: string;
+  lat?: number;
+  lng?: number;
+}
+
+/**
+ * Walking, transit and driving times between consecutive spots of each day.
+ * Refetches whenever the order changes; the previous answer stays up meanwhile,
+ * so callers should match legs by their from/to ids.
+ */
+export function useTravelTimes(city: string, spots: TravelSpot[]) {
+  const body = spots.map(({ id, title, day, address, lat, lng }) => ({ id, title, day, address, lat, lng }));
+  // Some day has at least two stops.
+  const hasLegs = new Set(spots.map((s) => s.day)).size < spots.length;
+
+  const { data } = useQuery<TravelTimesResponse>({
+    queryKey: ["/api/itinerary/travel-times", city, body],
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/itinerary/travel-times", { city, spots: body });
+      return res.json();
+    },
+    // The server refuses longer itineraries; their legs simply show no times.
+    enabled: !!city && hasLegs && spots.length <= MAX_TRAVEL_TIME_SPOTS,
+    staleTime: Infinity,
+    placeholderData: (previous) => previous,
+  });
+
+  const byDay = new Map<number, DayTravelTimes>();
+  for (const d of data?.days ?? []) byDay.set(d.day, d);
+  return byDay;
+}
+
+/** The leg arriving at `toId`, only if it starts at the stop right before it. */
+export function findLeg(day: DayTravelTimes | undefined, fromId: string, toId: string): TravelLeg | undefined {
+  return day?.legs.find((leg) => leg.fromId === fromId && leg.toId === toId);
+}
+
+/**
+ * Minutes spent getting between the day's stops by transit (which already
+ * means walking for short hops). Null unless every leg of `orderedIds` is known.
+ */
+export function dayTravelMinutes(day: DayTravelTimes | undefined, orderedIds: string[]): number | null {
+  let total = 0;
+  for (let i = 1; i < orderedIds.length; i++) {
+    const leg = findLeg(day, orderedIds[i - 1], orderedIds[i]);
+    if (!leg) return null;
+    total += leg.transitMinutes;
+  }
+  return total;
+}
@@ -0,0 +1,106 @@
+import { useEffect, useRef, useState } from "react";
+import { API_BASE } from "@/lib/apiBase";
+import { useAuth } from "@/hooks/use-auth";
+import type { TripSpot, TripSyncClientMessage, TripSyncServerMessage, TripViewer } from "@shared/schema";
+
+export type TripSpotsMessage = Extract<TripSyncServerMessage, { type: "spots" }>;
+
+const CHANGE_VERBS: Record<TripSpotsMessage["change"], string> = {
+  added: "added spots",
+  removed: "removed a spot",
+  reordered: "reordered a day",
+  moved: "moved a spot",
+  updated: "updated the itinerary",
+};
+
+/** e.g. "maya reordered a day" */
+export function describeSpotsChange(message: TripSpotsMessage): string {
+  return `${message.by.username} ${CHANGE_VERBS[message.change]}`;
+}
+
+/**
+ * The trip's current spots when a request failed with 409 because someone else
+ * changed them first (the routes send them along with the error), otherwise null.
+ */
+export function spotsConflict(err: unknown): { version: number; spots: TripSpot[] } | null {
+  const message = err instanceof Error ? err.message : "";
+  if (!message.startsWith("409:")) return null;
+  try {
+    const body = JSON.parse(message.slice(4));
+    return Array.isArray(body.spots) && typeof body.version === "number" ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+const SYNC_URL = `${API_BASE.replace(/^http/, "ws")}/ws/trips`;
+const MAX_RETRY_MS = 30_000;
+
+/**
+ * Joins a saved trip's live channel while the screen is open. Returns the other
+ * people viewing it and calls onSpots whenever someone changes its spots
+ * (including the caller's own saves, which arrive like anyone else's).
+ * Reconnects with backoff after network drops.
+ */
+export function useTripSync(tripId: number | null, onSpots?: (message: TripSpotsMessage) => void) {
+  const { user } = useAuth();
+  const [viewers, setViewers] = useState<TripViewer[]>([]);
+  const [connected, setConnected] = useState(false);
+  const onSpotsRef = useRef(onSpots);
+  onSpotsRef.current = onSpots;
+
+  const userId = user?.id ?? null;
+
+  useEffect(() => {
+    if (!tripId || !userId) return;
+
+    let socket: WebSocket | null = null;
+    let retryMs = 1_000;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let closed = false;
+
+    const send = (message: TripSyncClientMessage) => socket?.send(JSON.stringify(message));
+
+    const connect = () => {
+      socket = new WebSocket(SYNC_URL);
+      socket.onopen = () => {
+        retryMs = 1_000;
+        setConnected(true);
+        send({ type: "join", tripId });
+      };
+      socket.onmessage = (event) => {
+        let message: TripSyncServerMessage;
+        try {
+          message = JSON.parse(event.data);
+        } catch {
+          return;
+        }
+        if (message.tripId !== tripId) return;
+        if (message.type === "presence") setViewers(message.viewers);
+        else if (message.type === "spots") onSpotsRef.current?.(message);
+        else if (message.type === "error") console.warn("Trip sync:", message.error);
+      };
+      socket.onclose = () => {
+        setConnected(false);
+        setViewers([]);
+        if (closed) return;
+        retryTimer = setTimeout(connect, retryMs);
+        retryMs = Math.min(retryMs * 2, MAX_RETRY_MS);
+      };
+    };
+
+    connect();
+    return () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      if (socket?.readyState === WebSocket.OPEN) send({ type: "leave", tripId });
+      socket?.close();
+    };
+  }, [tripId, userId]);
+
+  return {
+    connected,
+    // Everyone else; the caller's other tabs don't count.
+    viewers: viewers.filter((v) => v.id !== userId),
+  };
+}
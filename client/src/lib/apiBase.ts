@@ -4,7 +4,7 @@
 const rawEnv = import.meta.env.VITE_API_BASE;
 
 // Detect if running inside a native Capacitor app
-const isCapacitor =
+export const isCapacitor =
   typeof window !== "undefined" &&
   (window as any).Capacitor &&
   typeof (window as any).Capacitor.isNativePlatform === "function" &&
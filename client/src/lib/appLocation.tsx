@@ -0,0 +1,37 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from "react";
+
+type Navigate = (to: string, options?: { replace?: boolean }) => void;
+
+const AppLocationContext = createContext<[string, Navigate] | null>(null);
+
+/**
+ * The browser path as ordinary React state, for wouter's <Router hook>.
+ * wouter's default hook re-renders from useSyncExternalStore ahead of other
+ * state updates, so a screen opened right after setting trip state
+ * (setQuestions + setScreen("quiz")) would first render without that state.
+ */
+export function AppLocationProvider({ children }: { children: ReactNode }) {
+  const [location, setLocation] = useState(() => window.location.pathname);
+
+  useEffect(() => {
+    const handlePopState = () => setLocation(window.location.pathname);
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, []);
+
+  const navigate = useCallback<Navigate>((to, options) => {
+    if (to === window.location.pathname) return;
+    if (options?.replace) window.history.replaceState(null, "", to);
+    else window.history.pushState(null, "", to);
+    setLocation(to);
+  }, []);
+
+  const value = useMemo<[string, Navigate]>(() => [location, navigate], [location, navigate]);
+  return <AppLocationContext.Provider value={value}>{children}</AppLocationContext.Provider>;
+}
+
+export function useAppLocation(): [string, Navigate] {
+  const ctx = useContext(AppLocationContext);
+  if (!ctx) throw new Error("useAppLocation must be used within AppLocationProvider");
+  return ctx;
+}
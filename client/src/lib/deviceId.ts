@@ -0,0 +1,26 @@
+const DEVICE_ID_KEY = "braintrip_device_id";
+
+let cachedDeviceId: string | null = null;
+
+// Anonymous per-install id, sent as X-Device-Id so the server can remember
+// which trivia questions this device has already seen.
+export function getDeviceId(): string {
+  if (cachedDeviceId) return cachedDeviceId;
+  try {
+    const stored = localStorage.getItem(DEVICE_ID_KEY);
+    if (stored) {
+      cachedDeviceId = stored;
+      return stored;
+    }
+  } catch {}
+
+  const id =
+    typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+      ? crypto.randomUUID()
+      : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+  cachedDeviceId = id;
+  try {
+    localStorage.setItem(DEVICE_ID_KEY, id);
+  } catch {}
+  return id;
+}
@@ -0,0 +1,13 @@
+// client/src/lib/mapTiles.ts
+
+// Raster tile source for the map screen. Point VITE_MAP_TILE_URL at a
+// self-hosted tile server ({z}/{x}/{y} template, {s} for subdomains).
+const OSM_TILE_URL = "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png";
+const OSM_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+export const MAP_TILE_URL: string = import.meta.env.VITE_MAP_TILE_URL || OSM_TILE_URL;
+
+export const MAP_TILE_ATTRIBUTION: string =
+  import.meta.env.VITE_MAP_TILE_ATTRIBUTION ?? (import.meta.env.VITE_MAP_TILE_URL ? "" : OSM_ATTRIBUTION);
+
+export const MAP_MAX_ZOOM: number = Number(import.meta.env.VITE_MAP_MAX_ZOOM) || 19;
@@ -0,0 +1,230 @@
+import type {
+  PublicUser,
+  QuizAttemptWithAnswers,
+  SubmitQuizAttempt,
+  Suggestion,
+  SyncTripSpots,
+  Trip,
+  TripRole,
+  TripSpot,
+  UpdateTrip,
+} from "@shared/schema";
+
+// Local copy of what the app last saw from the server, so trips can be opened
+// and edited without a connection. Everything here is a cache except `queue`,
+// which holds writes made offline until offlineSync replays them.
+
+const DB_NAME = "braintrip-offline";
+const DB_VERSION = 1;
+
+export type OfflineTrip = Trip & {
+  role: TripRole;
+  spots?: TripSpot[];
+  quizAttempts?: QuizAttemptWithAnswers[];
+};
+
+export interface CachedQuiz {
+  key: string;
+  data: unknown;
+  savedAt: number;
+}
+
+export interface CachedSuggestions {
+  key: string;
+  suggestions: Suggestion[];
+  savedAt: number;
+}
+
+interface QueuedWriteBase {
+  id?: number;
+  tripId: number;
+  method: string;
+  url: string;
+  createdAt: number;
+  // Replays that got a server error or a signed-out response.
+  attempts?: number;
+  // Set once replay gives up on it. It stays queued, and holds back later
+  // writes for its trip, until the user retries or discards it.
+  failed?: boolean;
+}
+
+// The request body each kind of write sends.
+export type QueuedWrite = QueuedWriteBase &
+  (
+    | {
+        kind: "sync-spots";
+        body: SyncTripSpots;
+        // The saved spots the edit was made against, for merging on conflict.
+        base?: TripSpot[];
+      }
+    | { kind: "delete-spot"; body?: undefined }
+    | { kind: "update-trip"; body: UpdateTrip }
+    | { kind: "quiz-attempt"; body: SubmitQuizAttempt }
+  );
+
+export type QueuedWriteKind = QueuedWrite["kind"];
+
+type StoreName = "trips" | "meta" | "quizzes" | "suggestions" | "queue";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore("trips", { keyPath: "id" });
+      db.createObjectStore("meta");
+      db.createObjectStore("quizzes", { keyPath: "key" });
+      db.createObjectStore("suggestions", { keyPath: "key" });
+      db.createObjectStore("queue", { keyPath: "id", autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+async function withStore<T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDb();
+  const tx = db.transaction(name, mode);
+  const done = transactionDone(tx);
+  const value = await promisify(run(tx.objectStore(name)));
+  await done;
+  return value;
+}
+
+// --- trips ---
+
+export async function getOfflineTrips(): Promise<OfflineTrip[]> {
+  const trips = await withStore<OfflineTrip[]>("trips", "readonly", (s) => s.getAll());
+  const order: number[] = (await getMeta("tripOrder")) || [];
+  const rank = new Map(order.map((id, i) => [id, i]));
+  return trips
+    .filter((t) => rank.has(t.id))
+    .sort((a, b) => rank.get(a.id)! - rank.get(b.id)!)
+    .map(({ spots, quizAttempts, ...trip }) => trip as OfflineTrip);
+}
+
+/** Replaces the trip list, keeping spots already downloaded for trips still on it. */
+export async function saveOfflineTrips(list: OfflineTrip[]): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(["trips", "meta"], "readwrite");
+  const store = tx.objectStore("trips");
+  const existing = await promisify<OfflineTrip[]>(store.getAll());
+  const byId = new Map(existing.map((t) => [t.id, t]));
+  const keep = new Set(list.map((t) => t.id));
+  for (const trip of existing) {
+    if (!keep.has(trip.id)) store.delete(trip.id);
+  }
+  for (const trip of list) {
+    store.put({ ...byId.get(trip.id), ...trip });
+  }
+  tx.objectStore("meta").put(list.map((t) => t.id), "tripOrder");
+  await transactionDone(tx);
+}
+
+export async function getOfflineTrip(id: number): Promise<OfflineTrip | undefined> {
+  return withStore<OfflineTrip | undefined>("trips", "readonly", (s) => s.get(id));
+}
+
+export async function saveOfflineTrip(trip: OfflineTrip): Promise<void> {
+  const existing = await getOfflineTrip(trip.id);
+  await withStore("trips", "readwrite", (s) => s.put({ ...existing, ...trip }));
+}
+
+/** Updates a trip that is already stored; unknown trips are left alone. */
+export async function patchOfflineTrip(id: number, patch: Partial<OfflineTrip>): Promise<OfflineTrip | undefined> {
+  const existing = await getOfflineTrip(id);
+  if (!existing) return undefined;
+  const next = { ...existing, ...patch, id };
+  await withStore("trips", "readwrite", (s) => s.put(next));
+  return next;
+}
+
+// --- quizzes and suggestions ---
+
+export async function getCachedQuiz(key: string): Promise<CachedQuiz | undefined> {
+  return withStore<CachedQuiz | undefined>("quizzes", "readonly", (s) => s.get(key));
+}
+
+export async function saveCachedQuiz(key: string, data: unknown): Promise<void> {
+  await withStore("quizzes", "readwrite", (s) => s.put({ key, data, savedAt: Date.now() }));
+}
+
+export async function getCachedSuggestions(key: string): Promise<CachedSuggestions | undefined> {
+  return withStore<CachedSuggestions | undefined>("suggestions", "readonly", (s) => s.get(key));
+}
+
+export async function saveCachedSuggestions(key: string, suggestions: Suggestion[]): Promise<void> {
+  await withStore("suggestions", "readwrite", (s) => s.put({ key, suggestions, savedAt: Date.now() }));
+}
+
+// --- signed-in user ---
+
+async function getMeta<T>(key: string): Promise<T | undefined> {
+  return withStore<T | undefined>("meta", "readonly", (s) => s.get(key));
+}
+
+export async function getOfflineUser(): Promise<PublicUser | null> {
+  return (await getMeta<PublicUser>("user")) ?? null;
+}
+
+export async function saveOfflineUser(user: PublicUser | null): Promise<void> {
+  if (user) await withStore("meta", "readwrite", (s) => s.put(user, "user"));
+  else await withStore("meta", "readwrite", (s) => s.delete("user"));
+}
+
+// --- write queue ---
+
+export async function getQueuedWrites(): Promise<QueuedWrite[]> {
+  return withStore<QueuedWrite[]>("queue", "readonly", (s) => s.getAll());
+}
+
+export async function addQueuedWrite(write: QueuedWrite): Promise<void> {
+  await withStore("queue", "readwrite", (s) => s.add(write));
+}
+
+export async function updateQueuedWrite(write: QueuedWrite): Promise<void> {
+  await withStore("queue", "readwrite", (s) => s.put(write));
+}
+
+export async function removeQueuedWrite(id: number): Promise<void> {
+  await withStore("queue", "readwrite", (s) => s.delete(id));
+}
+
+/** Forgets everything stored for the signed-in user (on sign-out or account switch). */
+export async function clearOfflineData(): Promise<void> {
+  const db = await openDb();
+  const names: StoreName[] = ["trips", "meta", "queue"];
+  const tx = db.transaction(names, "readwrite");
+  for (const name of names) tx.objectStore(name).clear();
+  await transactionDone(tx);
+}
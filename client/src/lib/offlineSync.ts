@@ -0,0 +1,524 @@
+import type {
+  PublicUser,
+  QuizAttemptWithAnswers,
+  QuizQuestion,
+  SubmitQuizAttempt,
+  Suggestion,
+  SuggestionFilters,
+  SyncTripSpot,
+  SyncTripSpots,
+  TripSpot,
+  UpdateTrip,
+} from "@shared/schema";
+import {
+  addQueuedWrite,
+  clearOfflineData,
+  getCachedQuiz,
+  getCachedSuggestions,
+  getOfflineTrip,
+  getOfflineTrips,
+  getOfflineUser,
+  getQueuedWrites,
+  patchOfflineTrip,
+  removeQueuedWrite,
+  saveCachedQuiz,
+  saveCachedSuggestions,
+  saveOfflineTrip,
+  saveOfflineTrips,
+  saveOfflineUser,
+  updateQueuedWrite,
+  type OfflineTrip,
+  type QueuedWrite,
+} from "./offlineStore";
+
+// apiRequest and the default query function go through offlineFetch. Reads of
+// trips, quizzes and suggestions are mirrored into IndexedDB and served from
+// there when the network is unreachable; trip edits made offline are applied
+// to the local copy, queued, and replayed by replayQueuedWrites on reconnect.
+
+export type SendRequest = (method: string, url: string, data?: unknown) => Promise<Response>;
+
+export interface SyncState {
+  online: boolean;
+  pending: number;
+  syncing: boolean;
+  // Queued writes the server refused (e.g. access was removed meanwhile).
+  failed: number;
+  // Queued writes given up on after repeated server errors; kept until retried or discarded.
+  stuck: number;
+}
+
+const QUEUED_HEADER = "X-Offline-Queued";
+// Each 409 is merged and retried; give up if the trip keeps changing under us.
+const MAX_MERGE_ATTEMPTS = 3;
+// Server errors and 401s are retried on later syncs, this many times in all.
+const MAX_REPLAY_ATTEMPTS = 5;
+
+const TRIP_PATH = /^\/api\/trips\/(\d+)(\/.*)?$/;
+const SPOT_PATH = /^\/spots\/(-?\d+)$/;
+
+let state: SyncState = {
+  online: typeof navigator === "undefined" ? true : navigator.onLine,
+  pending: 0,
+  syncing: false,
+  failed: 0,
+  stuck: 0,
+};
+const listeners = new Set<() => void>();
+
+function setState(patch: Partial<SyncState>) {
+  const next = { ...state, ...patch };
+  if ((Object.keys(patch) as (keyof SyncState)[]).every((k) => next[k] === state[k])) return;
+  state = next;
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeSyncState(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function getSyncState(): SyncState {
+  return state;
+}
+
+export function setOnline(online: boolean) {
+  setState({ online });
+}
+
+export function clearSyncFailures() {
+  setState({ failed: 0 });
+}
+
+export async function refreshPendingCount(): Promise<void> {
+  const queue = await getQueuedWrites().catch(() => []);
+  const stuck = queue.filter((w) => w.failed).length;
+  setState({ pending: queue.length - stuck, stuck });
+}
+
+/** True when a write was queued for later instead of reaching the server. */
+export function isQueuedResponse(res: Response): boolean {
+  return res.headers.get(QUEUED_HEADER) === "1";
+}
+
+// fetch rejects with a TypeError when the request never got a response.
+function isNetworkError(err: unknown): boolean {
+  return err instanceof TypeError;
+}
+
+function jsonResponse(data: unknown, status = 200, queued = false): Response {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (queued) headers[QUEUED_HEADER] = "1";
+  return new Response(status === 204 ? null : JSON.stringify(data), { status, headers });
+}
+
+// The parts of the quiz and suggestion requests their offline copies depend on.
+interface QuizRequest {
+  city?: string;
+  cityPlaceId?: string | null;
+  difficulty?: string;
+}
+
+interface SuggestionsRequest {
+  city?: string;
+  filters?: SuggestionFilters;
+  exclude?: string[];
+  excludePlaceIds?: string[];
+}
+
+type SpotsSnapshot = { version: number; spots: TripSpot[] };
+type QueuedSpotsSync = Extract<QueuedWrite, { kind: "sync-spots" }>;
+
+const quizKey = (data: QuizRequest | undefined) =>
+  `${data?.cityPlaceId || String(data?.city ?? "").toLowerCase().trim()}|${data?.difficulty || "standard"}`;
+
+const suggestionsKey = (data: SuggestionsRequest | undefined) =>
+  `${String(data?.city ?? "").toLowerCase().trim()}|${JSON.stringify(data?.filters ?? {})}`;
+
+function tripPath(path: string): { tripId: number; rest: string } | null {
+  const match = TRIP_PATH.exec(path);
+  return match ? { tripId: Number(match[1]), rest: match[2] || "" } : null;
+}
+
+// The bodies come from this app's own apiRequest calls for these routes.
+function queueableWrite(method: string, path: string, data: unknown): QueuedWrite | null {
+  const target = tripPath(path);
+  if (!target) return null;
+  const write = { tripId: target.tripId, method, url: path, createdAt: Date.now() };
+  if (method === "PUT" && target.rest === "/spots") return { ...write, kind: "sync-spots", body: data as SyncTripSpots };
+  if (method === "DELETE" && SPOT_PATH.test(target.rest)) return { ...write, kind: "delete-spot" };
+  if (method === "PATCH" && target.rest === "") return { ...write, kind: "update-trip", body: data as UpdateTrip };
+  if (method === "POST" && target.rest === "/quiz-attempts") {
+    return { ...write, kind: "quiz-attempt", body: data as SubmitQuizAttempt };
+  }
+  return null;
+}
+
+async function hasQueuedWrites(tripId?: number): Promise<boolean> {
+  const queue = await getQueuedWrites().catch(() => []);
+  return queue.some((w) => tripId === undefined || w.tripId === tripId);
+}
+
+/**
+ * Sends a request, keeping the offline copy up to date. When the server can't
+ * be reached, reads are answered from that copy and trip edits are queued.
+ * While earlier edits to the same trip are still queued, new ones queue behind
+ * them so they reach the server in order.
+ */
+export async function offlineFetch(method: string, url: string, data: unknown, send: () => Promise<Response>) {
+  const path = url.split("?")[0];
+  const write = method === "GET" ? null : queueableWrite(method, path, data);
+  if (write && (await hasQueuedWrites(write.tripId))) return queueWrite(write);
+
+  // Unsynced edits live only in the local copy until they replay.
+  const target = tripPath(path);
+  if (method === "GET" && target?.rest === "" && (await hasQueuedWrites(target.tripId))) {
+    const local = await getOfflineTrip(target.tripId).catch(() => undefined);
+    if (local?.spots) return jsonResponse(local);
+  }
+
+  let res: Response;
+  try {
+    res = await send();
+  } catch (err) {
+    if (!isNetworkError(err)) throw err;
+    setOnline(false);
+    const fallback = write
+      ? await queueWrite(write).catch(() => null)
+      : await readOffline(method, path, data).catch(() => null);
+    if (fallback) return fallback;
+    throw err;
+  }
+
+  setOnline(true);
+  if (res.ok) {
+    mirrorResponse(method, path, data, res.clone()).catch((err) => console.warn("Offline copy failed:", err));
+  }
+  return res;
+}
+
+async function readOffline(method: string, path: string, data: unknown): Promise<Response | null> {
+  if (method === "GET" && path === "/api/auth/me") {
+    const user = await getOfflineUser();
+    return user ? jsonResponse(user) : null;
+  }
+  if (method === "GET" && path === "/api/trips") {
+    return jsonResponse(await getOfflineTrips());
+  }
+  const target = tripPath(path);
+  if (method === "GET" && target) {
+    const local = await getOfflineTrip(target.tripId);
+    if (target.rest === "" && local?.spots) return jsonResponse(local);
+    if (target.rest === "/quiz-attempts" && local) return jsonResponse(local.quizAttempts ?? []);
+    return null;
+  }
+  if (method === "POST" && path === "/api/quiz/generate") {
+    const cached = await getCachedQuiz(quizKey(data as QuizRequest));
+    return cached ? jsonResponse(cached.data) : null;
+  }
+  if (method === "POST" && path === "/api/suggestions/generate") {
+    const request = data as SuggestionsRequest | undefined;
+    const cached = await getCachedSuggestions(suggestionsKey(request));
+    if (!cached) return null;
+    const excludeTitles = new Set((request?.exclude ?? []).map((t) => t.toLowerCase()));
+    const excludePlaceIds = new Set(request?.excludePlaceIds ?? []);
+    const suggestions = cached.suggestions.filter(
+      (s) => !excludeTitles.has(s.title.toLowerCase()) && !(s.placeId && excludePlaceIds.has(s.placeId))
+    );
+    return jsonResponse({ suggestions });
+  }
+  return null;
+}
+
+async function mirrorResponse(method: string, path: string, data: unknown, res: Response) {
+  if (res.status === 204) return;
+  const target = tripPath(path);
+
+  if (method === "GET" && path === "/api/auth/me") {
+    const user: PublicUser | null = await res.json();
+    await rememberOfflineUser(user);
+  } else if (method === "GET" && path === "/api/trips") {
+    const trips: OfflineTrip[] = await res.json();
+    await saveOfflineTrips(trips);
+  } else if (method === "GET" && target?.rest === "") {
+    const trip: OfflineTrip = await res.json();
+    await saveOfflineTrip(trip);
+  } else if (method === "GET" && target?.rest === "/quiz-attempts") {
+    const quizAttempts: QuizAttemptWithAnswers[] = await res.json();
+    await patchOfflineTrip(target.tripId, { quizAttempts });
+  } else if (method === "PUT" && target?.rest === "/spots") {
+    const snapshot: SpotsSnapshot = await res.json();
+    await patchOfflineTrip(target.tripId, { spots: snapshot.spots, spotsVersion: snapshot.version });
+  } else if (method === "POST" && path === "/api/quiz/generate") {
+    const quiz: { questions?: QuizQuestion[] } = await res.json();
+    if (Array.isArray(quiz?.questions) && quiz.questions.length > 0) {
+      await saveCachedQuiz(quizKey(data as QuizRequest), quiz);
+    }
+  } else if (method === "POST" && path === "/api/suggestions/generate") {
+    const body: { suggestions?: Suggestion[] } = await res.json();
+    if (Array.isArray(body?.suggestions)) {
+      await saveCachedSuggestions(suggestionsKey(data as SuggestionsRequest), body.suggestions);
+    }
+  }
+}
+
+/**
+ * Records who the offline copy belongs to; a different account starts from
+ * scratch so one person's trips and queued edits never reach another's.
+ */
+export async function rememberOfflineUser(user: PublicUser | null): Promise<void> {
+  const stored = await getOfflineUser();
+  if (stored && stored.id !== user?.id) await clearOfflineData();
+  await saveOfflineUser(user ? { id: user.id, username: user.username } : null);
+  await refreshPendingCount();
+}
+
+/** Drops the offline copy and any unsynced edits (on sign-out). */
+export async function forgetOfflineData(): Promise<void> {
+  await clearOfflineData();
+  setState({ pending: 0, failed: 0, stuck: 0 });
+}
+
+// --- queueing ---
+
+// Spots added offline have no server id yet; they get negative ids locally,
+// -(n + 1) for the n-th spot of the queued list, so they can still be removed.
+function localSpots(tripId: number, spots: SyncTripSpot[]): TripSpot[] {
+  const nextOrderByDay = new Map<number, number>();
+  return spots.map((s, i) => {
+    const dayIndex = s.dayIndex !== undefined && Number.isInteger(s.dayIndex) && s.dayIndex >= 0 ? s.dayIndex : 0;
+    const sortOrder = nextOrderByDay.get(dayIndex) ?? 0;
+    nextOrderByDay.set(dayIndex, sortOrder + 1);
+    return {
+      id: s.id ?? -(i + 1),
+      tripId,
+      title: s.title,
+      description: s.description || "",
+      category: s.category || "Other",
+      imageUrl: s.imageUrl || null,
+      funFact: s.funFact || null,
+      address: s.address || null,
+      placeId: s.placeId || null,
+      lat: s.lat ?? null,
+      lng: s.lng ?? null,
+      dayIndex,
+      timeSlot: s.timeSlot || null,
+      sortOrder,
+      openingHours: s.openingHours || null,
+      visitMinutes: s.visitMinutes ?? null,
+    };
+  });
+}
+
+async function queueWrite(write: QueuedWrite): Promise<Response> {
+  const local = await getOfflineTrip(write.tripId);
+  const queue = await getQueuedWrites();
+  const queuedSync = queue.find((w): w is QueuedSpotsSync => w.kind === "sync-spots" && w.tripId === write.tripId);
+  let response: Response;
+
+  switch (write.kind) {
+    case "sync-spots": {
+      const spots = (write.body?.spots ?? []).map((s) => ({
+        ...s,
+        id: s.id !== undefined && Number.isInteger(s.id) && s.id > 0 ? s.id : undefined,
+      }));
+      if (queuedSync) {
+        // One full-list save per trip: the newer list already includes the older
+        // one's changes, and the older one's base is what the server last had.
+        await updateQueuedWrite({ ...queuedSync, body: { ...queuedSync.body, spots } });
+      } else {
+        await addQueuedWrite({
+          ...write,
+          body: { spots, baseVersion: write.body?.baseVersion ?? local?.spotsVersion },
+          base: (local?.spots ?? []).filter((s) => s.id > 0),
+        });
+      }
+      const next = localSpots(write.tripId, spots);
+      await patchOfflineTrip(write.tripId, { spots: next });
+      response = jsonResponse({ version: local?.spotsVersion ?? 0, spots: next }, 202, true);
+      break;
+    }
+    case "delete-spot": {
+      const spotId = Number(SPOT_PATH.exec(write.url.slice(`/api/trips/${write.tripId}`.length))?.[1]);
+      if (queuedSync) {
+        // Folded into the queued list so the two can't disagree.
+        const spots = [...(queuedSync.body?.spots ?? [])];
+        const index = spotId < 0 ? -spotId - 1 : spots.findIndex((s) => s.id === spotId);
+        if (index >= 0 && index < spots.length) spots.splice(index, 1);
+        await updateQueuedWrite({ ...queuedSync, body: { ...queuedSync.body, spots } });
+        await patchOfflineTrip(write.tripId, { spots: localSpots(write.tripId, spots) });
+      } else if (spotId > 0) {
+        await addQueuedWrite(write);
+        await patchOfflineTrip(write.tripId, { spots: (local?.spots ?? []).filter((s) => s.id !== spotId) });
+      }
+      response = jsonResponse(null, 204, true);
+      break;
+    }
+    case "update-trip": {
+      await addQueuedWrite(write);
+      const updated = await patchOfflineTrip(write.tripId, write.body ?? {});
+      response = jsonResponse(updated ?? { id: write.tripId, ...write.body }, 202, true);
+      break;
+    }
+    case "quiz-attempt": {
+      await addQueuedWrite(write);
+      response = jsonResponse({ ...write.body, id: -write.createdAt, tripId: write.tripId, answers: [] }, 202, true);
+      break;
+    }
+  }
+
+  await refreshPendingCount();
+  return response;
+}
+
+// --- replay ---
+
+const spotInput = ({ tripId, sortOrder, ...spot }: TripSpot) => spot;
+const titleKey = (title: string) => String(title).toLowerCase().trim();
+
+/**
+ * Three-way merge of a queued full-list save (ours, edited from base) with the
+ * list someone else saved meanwhile (theirs). Our order and edits win for spots
+ * both sides still have, their additions are kept, and removals on either side
+ * stick. A day move we didn't make ourselves is taken from theirs.
+ */
+export function mergeSpotLists(base: TripSpot[], ours: SyncTripSpot[], theirs: TripSpot[]): SyncTripSpot[] {
+  const baseById = new Map(base.map((s) => [s.id, s]));
+  const theirsById = new Map(theirs.map((s) => [s.id, s]));
+  const ourIds = new Set(ours.map((s) => s.id).filter((id): id is number => id !== undefined));
+
+  const merged = ours
+    .filter((s) => s.id === undefined || theirsById.has(s.id))
+    .map((s) => {
+      if (s.id === undefined) return s;
+      const before = baseById.get(s.id);
+      return before && before.dayIndex === s.dayIndex ? { ...s, dayIndex: theirsById.get(s.id)!.dayIndex } : s;
+    });
+
+  // Places both sides added would otherwise be saved twice.
+  const added = ours.filter((s) => s.id === undefined);
+  const addedPlaceIds = new Set(added.map((s) => s.placeId).filter(Boolean));
+  const addedTitles = new Set(added.map((s) => titleKey(s.title)));
+
+  for (const spot of theirs) {
+    if (baseById.has(spot.id) || ourIds.has(spot.id)) continue;
+    if ((spot.placeId && addedPlaceIds.has(spot.placeId)) || addedTitles.has(titleKey(spot.title))) continue;
+    merged.push(spotInput(spot));
+  }
+  return merged;
+}
+
+// "offline" stops the whole replay; "retry" only holds back the write's trip.
+type ReplayOutcome = "done" | "failed" | "retry" | "offline";
+
+async function replayWrite(write: QueuedWrite, send: SendRequest): Promise<ReplayOutcome> {
+  // Conflicts are merged into this copy; the queued write itself is left alone.
+  let current = write;
+
+  for (let attempt = 0; attempt < MAX_MERGE_ATTEMPTS; attempt++) {
+    let res: Response;
+    try {
+      res = await send(current.method, current.url, current.body);
+    } catch (err) {
+      if (!isNetworkError(err)) throw err;
+      setOnline(false);
+      return "offline";
+    }
+    setOnline(true);
+
+    // Someone else already removed it, which is what we wanted.
+    if (res.ok || (write.kind === "delete-spot" && res.status === 404)) {
+      if (write.kind === "sync-spots") {
+        const snapshot: SpotsSnapshot = await res.json();
+        await patchOfflineTrip(write.tripId, { spots: snapshot.spots, spotsVersion: snapshot.version });
+      }
+      return "done";
+    }
+    if (res.status === 409 && current.kind === "sync-spots") {
+      const theirs: SpotsSnapshot = await res.json();
+      current = {
+        ...current,
+        body: { spots: mergeSpotLists(current.base ?? [], current.body.spots, theirs.spots), baseVersion: theirs.version },
+        base: theirs.spots,
+      };
+      continue;
+    }
+    // Signed out or server trouble: keep it for the next attempt.
+    if (res.status === 401 || res.status >= 500) return "retry";
+
+    console.warn(`Dropping queued ${write.kind} for trip ${write.tripId}:`, res.status, await res.text());
+    return "failed";
+  }
+  return "failed";
+}
+
+let replaying: Promise<number[]> | null = null;
+
+/**
+ * Sends queued writes in order. A write that can't get through holds back the
+ * rest of its trip's writes; other trips carry on unless the network is gone.
+ * After MAX_REPLAY_ATTEMPTS server errors a write is marked failed and waits
+ * for retryStuckWrites or discardStuckWrites.
+ * Resolves with the ids of trips that changed on the server.
+ */
+export function replayQueuedWrites(send: SendRequest): Promise<number[]> {
+  replaying ??= (async () => {
+    const changed = new Set<number>();
+    try {
+      const queue = await getQueuedWrites();
+      if (queue.every((w) => w.failed)) return [];
+      setState({ syncing: true });
+      const heldBack = new Set<number>();
+      for (const write of queue) {
+        if (heldBack.has(write.tripId)) continue;
+        if (write.failed) {
+          heldBack.add(write.tripId);
+          continue;
+        }
+        const outcome = await replayWrite(write, send);
+        if (outcome === "offline") break;
+        if (outcome === "retry") {
+          const attempts = (write.attempts ?? 0) + 1;
+          await updateQueuedWrite({ ...write, attempts, failed: attempts >= MAX_REPLAY_ATTEMPTS });
+          heldBack.add(write.tripId);
+          continue;
+        }
+        await removeQueuedWrite(write.id!);
+        if (outcome === "failed") setState({ failed: state.failed + 1 });
+        changed.add(write.tripId);
+      }
+    } catch (err) {
+      console.error("Offline sync failed:", err);
+    } finally {
+      await refreshPendingCount();
+      setState({ syncing: false });
+      replaying = null;
+    }
+    return Array.from(changed);
+  })();
+  return replaying;
+}
+
+/** Gives writes marked failed a fresh set of attempts; replay them afterwards. */
+export async function retryStuckWrites(): Promise<void> {
+  const queue = await getQueuedWrites();
+  for (const write of queue) {
+    if (write.failed) await updateQueuedWrite({ ...write, attempts: 0, failed: false });
+  }
+  await refreshPendingCount();
+}
+
+/**
+ * Drops writes marked failed along with the later writes of their trips, which
+ * were made on top of them. Resolves with those trips' ids; refetching them
+ * replaces the local copy with the server's.
+ */
+export async function discardStuckWrites(): Promise<number[]> {
+  const queue = await getQueuedWrites();
+  const tripIds = new Set(queue.filter((w) => w.failed).map((w) => w.tripId));
+  for (const write of queue) {
+    if (tripIds.has(write.tripId)) await removeQueuedWrite(write.id!);
+  }
+  await refreshPendingCount();
+  return Array.from(tripIds);
+}
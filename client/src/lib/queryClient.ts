@@ -1,4 +1,6 @@
 import { API_BASE } from "./apiBase";
+import { getDeviceId } from "./deviceId";
+import { offlineFetch } from "./offlineSync";
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
 const withBase = (path: string) =>
@@ -13,30 +15,37 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// A plain request to the API: no offline fallback, non-2xx responses resolve.
+export function sendRequest(method: string, url: string, data?: unknown | undefined): Promise<Response> {
+  return fetch(withBase(url), {
+    method,
+    headers: {
+      ...(data ? { "Content-Type": "application/json" } : {}),
+      "X-Device-Id": getDeviceId(),
+    },
+    body: data ? JSON.stringify(data) : undefined,
+    credentials: "include",
+  });
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
-  const res = await fetch(withBase(url), {
-  method,
-  headers: data ? { "Content-Type": "application/json" } : {},
-  body: data ? JSON.stringify(data) : undefined,
-  credentials: "include",
-});
+  const res = await offlineFetch(method, url, data, () => sendRequest(method, url, data));
 
-await throwIfResNotOk(res);
-return res;
+  await throwIfResNotOk(res);
+  return res;
 }
+type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(withBase(queryKey.join("/") as string), {
-  credentials: "include",
-});
-
+    const url = queryKey.join("/") as string;
+    const res = await offlineFetch("GET", url, undefined, () => sendRequest("GET", url));
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
@@ -0,0 +1,25 @@
+import { apiRequest, queryClient } from "./queryClient";
+import type { QuizAttemptWithAnswers, QuizQuestion } from "@shared/schema";
+
+interface QuizAttemptState {
+  difficulty: string;
+  cityPlaceId: string;
+  cityLabel: string;
+  questions: QuizQuestion[];
+  questionIds: string[];
+  userAnswers: (number | null)[];
+}
+
+export async function submitQuizAttempt(tripId: number, state: QuizAttemptState): Promise<QuizAttemptWithAnswers> {
+  const res = await apiRequest("POST", `/api/trips/${tripId}/quiz-attempts`, {
+    difficulty: state.difficulty,
+    cityPlaceId: state.cityPlaceId || null,
+    cityLabel: state.cityLabel || null,
+    questions: state.questions,
+    questionIds: state.questionIds,
+    answers: state.questions.map((_, i) => state.userAnswers[i] ?? null),
+  });
+  const attempt: QuizAttemptWithAnswers = await res.json();
+  queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
+  return attempt;
+}
@@ -0,0 +1,61 @@
+import type { AppScreen } from "./tripContext";
+
+// Screens of the trip being built. While a saved trip is active they live under
+// /trips/:id, so a reload (or a link) knows which trip to load back.
+export const TRIP_SCREEN_PATHS = {
+  loading: "/loading",
+  quiz: "/quiz",
+  "quiz-results": "/quiz/results",
+  suggestions: "/suggestions",
+  itinerary: "/itinerary",
+  map: "/map",
+} as const satisfies Partial<Record<AppScreen, string>>;
+
+export type TripScreen = keyof typeof TRIP_SCREEN_PATHS;
+
+export interface ScreenRoute {
+  screen: AppScreen;
+  tripId: number | null;
+  sharedToken: string | null;
+}
+
+export function isTripScreen(screen: AppScreen): screen is TripScreen {
+  return screen in TRIP_SCREEN_PATHS;
+}
+
+export function tripPath(tripId: number): string {
+  return `/trips/${tripId}`;
+}
+
+export function screenPath(screen: AppScreen, tripId: number | null, sharedToken: string | null): string {
+  switch (screen) {
+    case "home":
+      return "/";
+    case "profile":
+      return "/profile";
+    case "trip-detail":
+      return tripId ? tripPath(tripId) : "/profile";
+    case "shared-trip":
+      return sharedToken ? `/shared/${sharedToken}` : "/";
+    default:
+      return `${tripId ? tripPath(tripId) : ""}${TRIP_SCREEN_PATHS[screen]}`;
+  }
+}
+
+/** The screen a path shows, or null for paths the app doesn't know. */
+export function parseScreenPath(path: string): ScreenRoute | null {
+  const clean = path.replace(/\/+$/, "") || "/";
+  if (clean === "/") return { screen: "home", tripId: null, sharedToken: null };
+  if (clean === "/profile") return { screen: "profile", tripId: null, sharedToken: null };
+
+  const shared = clean.match(/^\/shared\/([A-Za-z0-9_-]+)$/);
+  if (shared) return { screen: "shared-trip", tripId: null, sharedToken: shared[1] };
+
+  const trip = clean.match(/^\/trips\/(\d+)(\/.*)?$/);
+  const tripId = trip ? Number(trip[1]) : null;
+  const rest = trip ? trip[2] ?? "" : clean;
+  if (tripId !== null && rest === "") return { screen: "trip-detail", tripId, sharedToken: null };
+
+  const screen = (Object.keys(TRIP_SCREEN_PATHS) as TripScreen[]).find((s) => TRIP_SCREEN_PATHS[s] === rest);
+  return screen ? { screen, tripId, sharedToken: null } : null;
+}
@@ -0,0 +1,133 @@
+import { apiRequest, queryClient } from "./queryClient";
+import { sessionDraftSchema, type SessionDraft } from "@shared/schema";
+
+// The trip session in progress is autosaved here (always) and to
+// /api/session-draft (when signed in), so a reload or a killed webview can
+// pick up where it left off. TripProvider calls scheduleDraftSave on every
+// change; the home screen offers to resume.
+
+const DRAFT_KEY = "braintrip_session_draft";
+const LOCAL_SAVE_MS = 500;
+const SERVER_SAVE_MS = 5_000;
+export const SESSION_DRAFT_KEY = ["/api/session-draft"];
+// Older undo steps are dropped to keep drafts small.
+export const MAX_DRAFT_UNDO = 20;
+
+let pendingDraft: SessionDraft | null = null;
+let localTimer: ReturnType<typeof setTimeout> | undefined;
+let serverTimer: ReturnType<typeof setTimeout> | undefined;
+
+const isSignedIn = () => !!queryClient.getQueryData(["/api/auth/me"]);
+
+function parseDraft(value: unknown): SessionDraft | null {
+  const parsed = sessionDraftSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+export function loadLocalDraft(): SessionDraft | null {
+  try {
+    const stored = localStorage.getItem(DRAFT_KEY);
+    return stored ? parseDraft(JSON.parse(stored)) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeLocalDraft(draft: SessionDraft) {
+  try {
+    localStorage.setItem(DRAFT_KEY, JSON.stringify(draft));
+  } catch {}
+}
+
+function pushServerDraft(draft: SessionDraft) {
+  apiRequest("PUT", "/api/session-draft", draft)
+    .then(() => queryClient.setQueryData(SESSION_DRAFT_KEY, draft))
+    .catch((err) => console.warn("Session draft not saved to server:", err));
+}
+
+export function scheduleDraftSave(draft: SessionDraft) {
+  pendingDraft = draft;
+  clearTimeout(localTimer);
+  localTimer = setTimeout(() => {
+    writeLocalDraft(draft);
+    pendingDraft = null;
+  }, LOCAL_SAVE_MS);
+
+  if (!isSignedIn()) return;
+  clearTimeout(serverTimer);
+  serverTimer = setTimeout(() => pushServerDraft(draft), SERVER_SAVE_MS);
+}
+
+// iOS may kill a backgrounded webview without warning.
+function flushPendingDraft() {
+  if (!pendingDraft) return;
+  clearTimeout(localTimer);
+  writeLocalDraft(pendingDraft);
+  if (isSignedIn()) {
+    clearTimeout(serverTimer);
+    pushServerDraft(pendingDraft);
+  }
+  pendingDraft = null;
+}
+
+if (typeof window !== "undefined") {
+  window.addEventListener("pagehide", flushPendingDraft);
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "hidden") flushPendingDraft();
+  });
+}
+
+/** Forgets the draft here and on the server (the trip was saved, or the user discarded it). */
+export function discardSessionDraft() {
+  clearLocalDraft();
+  queryClient.setQueryData(SESSION_DRAFT_KEY, null);
+  if (isSignedIn()) {
+    apiRequest("DELETE", "/api/session-draft").catch((err) => console.warn("Session draft not deleted:", err));
+  }
+}
+
+/** Forgets this device's copy only (on sign-out; the account keeps its own). */
+export function clearLocalDraft() {
+  pendingDraft = null;
+  clearTimeout(localTimer);
+  clearTimeout(serverTimer);
+  try {
+    localStorage.removeItem(DRAFT_KEY);
+  } catch {}
+}
+
+export function newestDraft(...drafts: (SessionDraft | null | undefined)[]): SessionDraft | null {
+  return drafts.reduce<SessionDraft | null>(
+    (newest, draft) => (draft && (!newest || draft.savedAt > newest.savedAt) ? draft : newest),
+    null
+  );
+}
+
+/** Whether there's anything in the draft worth going back to. */
+export function isResumableDraft(draft: SessionDraft): boolean {
+  switch (draft.screen) {
+    case "quiz":
+    case "quiz-results":
+      return draft.questions.length > 0;
+    case "suggestions":
+      return draft.suggestions.length > 0;
+    default:
+      return draft.itinerary.present.length > 0;
+  }
+}
+
+/** e.g. "Trivia · question 4 of 8" */
+export function describeDraft(draft: SessionDraft): string {
+  switch (draft.screen) {
+    case "quiz":
+      return `Trivia · question ${draft.currentQuestionIndex + 1} of ${draft.questions.length}`;
+    case "quiz-results":
+      return `Trivia · ${draft.score}/${draft.questions.length} correct`;
+    case "suggestions":
+      return `Picking spots · ${draft.itinerary.present.length} added`;
+    default: {
+      const count = draft.itinerary.present.length;
+      return `Itinerary · ${count} ${count === 1 ? "spot" : "spots"}`;
+    }
+  }
+}
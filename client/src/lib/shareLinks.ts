@@ -0,0 +1,12 @@
+// client/src/lib/shareLinks.ts
+import { API_BASE, isCapacitor } from "./apiBase";
+
+// Share links have to open the web app, even when created in the native app.
+// VITE_PUBLIC_APP_URL overrides where that is.
+const PUBLIC_APP_URL = (
+  import.meta.env.VITE_PUBLIC_APP_URL || (isCapacitor ? API_BASE : window.location.origin)
+).replace(/\/+$/, "");
+
+export function shareUrl(token: string): string {
+  return `${PUBLIC_APP_URL}/shared/${token}`;
+}
@@ -1,9 +1,33 @@
-import { createContext, useContext, useState, useCallback, type ReactNode } from "react";
-import type { QuizQuestion, Suggestion } from "@shared/schema";
+import { createContext, useContext, useState, useCallback, useEffect, useRef, type ReactNode } from "react";
+import { useAppLocation } from "@/lib/appLocation";
+import { parseScreenPath, screenPath, tripPath } from "@/lib/routes";
+import { queryClient } from "@/lib/queryClient";
+import { MAX_DRAFT_UNDO, discardSessionDraft, loadLocalDraft, scheduleDraftSave } from "@/lib/sessionDraft";
+import type {
+  Difficulty,
+  OpeningHours,
+  QuizQuestion,
+  SessionDraft,
+  Suggestion,
+  SuggestionFilters,
+  TimeSlot,
+  Trip,
+  TripSpot,
+} from "@shared/schema";
+import { MAX_TRIP_DAYS, SESSION_DRAFT_SCREENS } from "@shared/schema";
 
-export type AppScreen = "home" | "loading" | "quiz" | "quiz-results" | "suggestions" | "itinerary" | "profile" | "trip-detail";
+export type AppScreen = "home" | "loading" | "quiz" | "quiz-results" | "suggestions" | "itinerary" | "profile" | "trip-detail" | "map" | "shared-trip";
 export type GameMode = "quiz" | "planning";
-export type Difficulty = "standard" | "challenge";
+export type { Difficulty };
+
+// Adaptive quizzes keep spare questions to swap in after streaks or misses.
+export interface ReserveQuestion {
+  question: QuizQuestion;
+  questionId: string;
+}
+
+// A trip as GET /api/trips/:id returns it.
+export type SavedTrip = Trip & { spots?: TripSpot[] };
 
 export interface ItineraryItem {
   id: string;
@@ -13,7 +37,61 @@ export interface ItineraryItem {
   funFact?: string;
   address?: string;
   imageUrl?: string;
+  // Places-provider id; lets a saved spot keep its identity across saves.
+  placeId?: string;
+  lat?: number;
+  lng?: number;
   isCustom?: boolean;
+  day: number;
+  timeSlot?: TimeSlot;
+  openingHours?: OpeningHours;
+  visitMinutes?: number;
+}
+
+export function itineraryItemFromSuggestion(suggestion: Suggestion): ItineraryItem {
+  return {
+    id: crypto.randomUUID(),
+    title: suggestion.title,
+    description: suggestion.description,
+    category: suggestion.category,
+    funFact: suggestion.funFact,
+    address: suggestion.address,
+    imageUrl: suggestion.imageUrl,
+    placeId: suggestion.placeId,
+    lat: suggestion.lat ?? undefined,
+    lng: suggestion.lng ?? undefined,
+    openingHours: suggestion.openingHours,
+    visitMinutes: suggestion.visitMinutes,
+    day: 0,
+  };
+}
+
+// Spots loaded from a saved trip keep their row id in the item id.
+const SAVED_ID_PREFIX = "saved-";
+
+export function savedSpotId(item: ItineraryItem): number | undefined {
+  if (!item.id.startsWith(SAVED_ID_PREFIX)) return undefined;
+  const id = Number(item.id.slice(SAVED_ID_PREFIX.length));
+  return Number.isInteger(id) ? id : undefined;
+}
+
+export function itineraryItemFromSpot(spot: TripSpot): ItineraryItem {
+  return {
+    id: `${SAVED_ID_PREFIX}${spot.id}`,
+    title: spot.title,
+    description: spot.description,
+    category: spot.category,
+    funFact: spot.funFact || undefined,
+    address: spot.address || undefined,
+    imageUrl: spot.imageUrl || undefined,
+    placeId: spot.placeId || undefined,
+    lat: spot.lat ?? undefined,
+    lng: spot.lng ?? undefined,
+    day: spot.dayIndex,
+    timeSlot: (spot.timeSlot as TimeSlot | null) || undefined,
+    openingHours: spot.openingHours || undefined,
+    visitMinutes: spot.visitMinutes ?? undefined,
+  };
 }
 
 interface UndoState {
@@ -39,22 +117,41 @@ interface TripContextValue {
   setDifficulty: (d: Difficulty) => void;
   questions: QuizQuestion[];
   setQuestions: (q: QuizQuestion[]) => void;
+  questionIds: string[];
+  setQuestionIds: (ids: string[]) => void;
+  questionReserve: ReserveQuestion[];
+  setQuestionReserve: (r: ReserveQuestion[]) => void;
   currentQuestionIndex: number;
   setCurrentQuestionIndex: (i: number) => void;
   score: number;
   setScore: (s: number) => void;
   userAnswers: (number | null)[];
   setUserAnswers: (a: (number | null)[]) => void;
+  // Whether this quiz's attempt has been saved to the trip (kept across a resume).
+  quizAttemptRecorded: boolean;
+  setQuizAttemptRecorded: (r: boolean) => void;
 
   suggestions: Suggestion[];
   setSuggestions: (s: Suggestion[]) => void;
   updateSuggestion: (placeId: string, updates: Partial<Suggestion>) => void;
+  suggestionFilters: SuggestionFilters;
+  setSuggestionFilters: (f: SuggestionFilters) => void;
   addedSuggestionTitles: Set<string>;
 
   itinerary: ItineraryItem[];
   addToItinerary: (item: ItineraryItem) => void;
   removeFromItinerary: (id: string) => void;
   reorderItinerary: (fromIndex: number, toIndex: number) => void;
+  moveItineraryItem: (id: string, toDay: number, toPosition: number) => void;
+  reorderDay: (day: number, orderedIds: string[]) => void;
+  setItineraryTimeSlot: (id: string, timeSlot: TimeSlot | undefined) => void;
+  setItineraryVisitMinutes: (id: string, visitMinutes: number) => void;
+  dayCount: number;
+  setDayCount: (n: number) => void;
+  addDay: () => void;
+  removeLastDay: () => void;
+  startDate: string;
+  setStartDate: (d: string) => void;
   undo: () => void;
   redo: () => void;
   canUndo: boolean;
@@ -67,6 +164,18 @@ interface TripContextValue {
 
   activeTripId: number | null;
   setActiveTripId: (id: number | null) => void;
+  // The active trip's spotsVersion the itinerary was last in step with.
+  syncedSpotsVersion: number | null;
+  setSyncedSpotsVersion: (v: number | null) => void;
+  applyRemoteSpots: (spots: TripSpot[], version: number) => void;
+  // Makes a saved trip the one being built, with its spots in the itinerary.
+  loadSavedTrip: (saved: SavedTrip, mode: GameMode) => void;
+  // Puts back an autosaved session and opens the screen it was on.
+  resumeDraft: (draft: SessionDraft) => void;
+
+  // Token of the read-only trip being viewed from a share link.
+  sharedToken: string | null;
+  setSharedToken: (token: string | null) => void;
 
   fetchId: number;
   triggerFetch: () => void;
@@ -77,7 +186,12 @@ interface TripContextValue {
 const TripContext = createContext<TripContextValue | null>(null);
 
 export function TripProvider({ children }: { children: ReactNode }) {
-  const [screen, setScreen] = useState<AppScreen>("home");
+  // The screen comes from the URL; setScreen navigates.
+  const [location, navigate] = useAppLocation();
+  const route = parseScreenPath(location);
+  const screen: AppScreen = route?.screen ?? "home";
+
+  const [sharedToken, setSharedTokenRaw] = useState<string | null>(() => route?.sharedToken ?? null);
   const [city, setCity] = useState("");
   const [cityLabel, setCityLabel] = useState("");
   const [cityPlaceId, setCityPlaceId] = useState("");
@@ -85,15 +199,19 @@ export function TripProvider({ children }: { children: ReactNode }) {
   const [mode, setMode] = useState<GameMode>("quiz");
   const [difficulty, setDifficulty] = useState<Difficulty>("standard");
   const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [questionIds, setQuestionIds] = useState<string[]>([]);
+  const [questionReserve, setQuestionReserve] = useState<ReserveQuestion[]>([]);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [score, setScore] = useState(0);
   const [userAnswers, setUserAnswers] = useState<(number | null)[]>([]);
+  const [quizAttemptRecorded, setQuizAttemptRecorded] = useState(false);
 
   const [suggestions, setSuggestionsRaw] = useState<Suggestion[]>([]);
   const setSuggestions = useCallback((s: Suggestion[]) => setSuggestionsRaw(s), []);
   const updateSuggestion = useCallback((placeId: string, updates: Partial<Suggestion>) => {
     setSuggestionsRaw(prev => prev.map(s => s.placeId === placeId ? { ...s, ...updates } : s));
   }, []);
+  const [suggestionFilters, setSuggestionFilters] = useState<SuggestionFilters>({});
 
   const [undoState, setUndoState] = useState<UndoState>({
     past: [],
@@ -101,11 +219,42 @@ export function TripProvider({ children }: { children: ReactNode }) {
     future: [],
   });
 
+  const [dayCountRaw, setDayCountRaw] = useState(1);
+  const [startDate, setStartDate] = useState("");
+
   const [loadingMessage, setLoadingMessage] = useState("");
-  const [activeTripId, setActiveTripId] = useState<number | null>(null);
+  const [activeTripId, setActiveTripIdRaw] = useState<number | null>(() => route?.tripId ?? null);
+  const [syncedSpotsVersion, setSyncedSpotsVersion] = useState<number | null>(null);
   const [fetchId, setFetchId] = useState(0);
   const triggerFetch = useCallback(() => setFetchId(n => n + 1), []);
 
+  // setScreen usually runs right after setActiveTripId / setSharedToken in the
+  // same handler, before a re-render; the refs let it build the path from them.
+  const activeTripIdRef = useRef(activeTripId);
+  const sharedTokenRef = useRef(sharedToken);
+  const screenRef = useRef(screen);
+  screenRef.current = screen;
+
+  const setActiveTripId = useCallback((id: number | null) => {
+    activeTripIdRef.current = id;
+    setActiveTripIdRaw(id);
+  }, []);
+
+  const setSharedToken = useCallback((token: string | null) => {
+    sharedTokenRef.current = token;
+    setSharedTokenRaw(token);
+  }, []);
+
+  const setScreen = useCallback(
+    (next: AppScreen) => {
+      const path = screenPath(next, activeTripIdRef.current, sharedTokenRef.current);
+      // The loading screen is left out of history so Back doesn't rerun it.
+      navigate(path, { replace: screenRef.current === "loading" });
+      screenRef.current = next;
+    },
+    [navigate]
+  );
+
   const addedSuggestionTitles = new Set(undoState.present.map((i) => i.title));
 
   const addToItinerary = useCallback(
@@ -141,10 +290,108 @@ export function TripProvider({ children }: { children: ReactNode }) {
     []
   );
 
+  const moveItineraryItem = useCallback(
+    (id: string, toDay: number, toPosition: number) => {
+      setUndoState((prev) => {
+        const moving = prev.present.find((i) => i.id === id);
+        if (!moving) return prev;
+        const rest = prev.present.filter((i) => i.id !== id);
+        const dayItems = rest.filter((i) => i.day === toDay);
+        const moved = { ...moving, day: toDay };
+
+        let insertAt: number;
+        if (toPosition < dayItems.length) {
+          insertAt = rest.indexOf(dayItems[Math.max(toPosition, 0)]);
+        } else if (dayItems.length > 0) {
+          insertAt = rest.indexOf(dayItems[dayItems.length - 1]) + 1;
+        } else {
+          const after = rest.findIndex((i) => i.day > toDay);
+          insertAt = after === -1 ? rest.length : after;
+        }
+
+        const items = [...rest];
+        items.splice(insertAt, 0, moved);
+        const unchanged = items.every((item, idx) => item === prev.present[idx]);
+        if (unchanged && moving.day === toDay) return prev;
+        return { past: [...prev.past, prev.present], present: items, future: [] };
+      });
+    },
+    []
+  );
+
+  const reorderDay = useCallback(
+    (day: number, orderedIds: string[]) => {
+      setUndoState((prev) => {
+        const rank = new Map(orderedIds.map((id, idx) => [id, idx]));
+        const dayItems = prev.present
+          .filter((i) => i.day === day)
+          .sort((a, b) => (rank.get(a.id) ?? Infinity) - (rank.get(b.id) ?? Infinity));
+        let next = 0;
+        const items = prev.present.map((i) => (i.day === day ? dayItems[next++] : i));
+        if (items.every((item, idx) => item === prev.present[idx])) return prev;
+        return { past: [...prev.past, prev.present], present: items, future: [] };
+      });
+    },
+    []
+  );
+
+  const setItineraryTimeSlot = useCallback(
+    (id: string, timeSlot: TimeSlot | undefined) => {
+      setUndoState((prev) => {
+        const items = prev.present.map((i) => (i.id === id ? { ...i, timeSlot } : i));
+        return { past: [...prev.past, prev.present], present: items, future: [] };
+      });
+    },
+    []
+  );
+
+  const setItineraryVisitMinutes = useCallback(
+    (id: string, visitMinutes: number) => {
+      setUndoState((prev) => {
+        const items = prev.present.map((i) => (i.id === id ? { ...i, visitMinutes } : i));
+        return { past: [...prev.past, prev.present], present: items, future: [] };
+      });
+    },
+    []
+  );
+
+  const dayCount = Math.max(dayCountRaw, ...undoState.present.map((i) => i.day + 1));
+  // Saved trips hold at most MAX_TRIP_DAYS days; the server refuses more.
+  const setDayCount = useCallback((n: number) => setDayCountRaw(Math.min(Math.max(1, n), MAX_TRIP_DAYS)), []);
+  const addDay = useCallback(() => setDayCountRaw(() => Math.min(dayCount + 1, MAX_TRIP_DAYS)), [dayCount]);
+  const removeLastDay = useCallback(() => {
+    if (dayCount <= 1) return;
+    if (undoState.present.some((i) => i.day === dayCount - 1)) return;
+    setDayCountRaw(dayCount - 1);
+  }, [dayCount, undoState.present]);
+
   const setItinerary = useCallback((items: ItineraryItem[]) => {
     setUndoState({ past: [], present: items, future: [] });
   }, []);
 
+  // Someone changed the saved trip: their version of the saved spots wins, spots
+  // added here and not saved yet stay. Undo history is dropped so it can't bring
+  // back the older order.
+  const applyRemoteSpots = useCallback((spots: TripSpot[], version: number) => {
+    setUndoState((prev) => {
+      const savedTitles = new Set(spots.map((s) => s.title.toLowerCase().trim()));
+      const savedPlaceIds = new Set(spots.map((s) => s.placeId).filter(Boolean));
+      const unsaved = prev.present.filter(
+        (i) =>
+          savedSpotId(i) === undefined &&
+          !savedTitles.has(i.title.toLowerCase().trim()) &&
+          !(i.placeId && savedPlaceIds.has(i.placeId))
+      );
+      const items = spots.map(itineraryItemFromSpot);
+      for (const item of unsaved) {
+        const after = items.findIndex((i) => i.day > item.day);
+        items.splice(after === -1 ? items.length : after, 0, item);
+      }
+      return { past: [], present: items, future: [] };
+    });
+    setSyncedSpotsVersion(version);
+  }, []);
+
   const undo = useCallback(() => {
     setUndoState((prev) => {
       if (prev.past.length === 0) return prev;
@@ -171,7 +418,7 @@ export function TripProvider({ children }: { children: ReactNode }) {
     }));
   }, []);
 
-  const resetTrip = useCallback(() => {
+  const clearTripState = useCallback(() => {
     setCity("");
     setCityLabel("");
     setCityPlaceId("");
@@ -179,15 +426,177 @@ export function TripProvider({ children }: { children: ReactNode }) {
     setMode("quiz");
     setDifficulty("standard");
     setQuestions([]);
+    setQuestionIds([]);
+    setQuestionReserve([]);
     setCurrentQuestionIndex(0);
     setScore(0);
     setUserAnswers([]);
+    setQuizAttemptRecorded(false);
     setSuggestionsRaw([]);
+    setSuggestionFilters({});
     setUndoState({ past: [], present: [], future: [] });
+    setDayCountRaw(1);
+    setStartDate("");
     setLoadingMessage("");
     setActiveTripId(null);
+    setSyncedSpotsVersion(null);
+  }, [setActiveTripId]);
+
+  const resetTrip = useCallback(() => {
+    clearTripState();
+    discardSessionDraft();
     setScreen("home");
-  }, []);
+  }, [clearTripState, setScreen]);
+
+  const loadSavedTrip = useCallback(
+    (saved: SavedTrip, nextMode: GameMode) => {
+      setCity(saved.city);
+      setCityLabel(saved.cityLabel || "");
+      setCityPlaceId(saved.cityPlaceId || "");
+      setMode(nextMode);
+      setDifficulty((saved.difficulty as Difficulty) || "standard");
+      setHotelLocation(saved.hotelLocation || "");
+      setActiveTripId(saved.id);
+      setUndoState({ past: [], present: (saved.spots || []).map(itineraryItemFromSpot), future: [] });
+      setSyncedSpotsVersion(saved.spotsVersion);
+      setDayCountRaw(Math.max(1, saved.dayCount));
+      setStartDate(saved.startDate || "");
+    },
+    [setActiveTripId]
+  );
+
+  const applyDraft = useCallback(
+    (draft: SessionDraft) => {
+      setCity(draft.city);
+      setCityLabel(draft.cityLabel);
+      setCityPlaceId(draft.cityPlaceId);
+      setHotelLocation(draft.hotelLocation);
+      setMode(draft.mode);
+      setDifficulty(draft.difficulty);
+      setQuestions(draft.questions);
+      setQuestionIds(draft.questionIds);
+      setQuestionReserve(draft.questionReserve);
+      setCurrentQuestionIndex(draft.currentQuestionIndex);
+      setScore(draft.score);
+      setUserAnswers(draft.userAnswers);
+      setQuizAttemptRecorded(draft.quizAttemptRecorded);
+      setSuggestionsRaw(draft.suggestions);
+      setSuggestionFilters(draft.suggestionFilters);
+      setUndoState(draft.itinerary);
+      setDayCountRaw(draft.dayCount);
+      setStartDate(draft.startDate);
+      setLoadingMessage("");
+      setActiveTripId(draft.activeTripId);
+      setSyncedSpotsVersion(draft.syncedSpotsVersion);
+    },
+    [setActiveTripId]
+  );
+
+  const resumeDraft = useCallback(
+    (draft: SessionDraft) => {
+      applyDraft(draft);
+      setScreen(draft.screen);
+    },
+    [applyDraft, setScreen]
+  );
+
+  // Autosave: every change on a screen mid-flow is kept as the session draft.
+  const draftScreen = SESSION_DRAFT_SCREENS.find((s) => s === screen);
+  useEffect(() => {
+    if (!draftScreen || city === "") return;
+    scheduleDraftSave({
+      screen: draftScreen,
+      savedAt: new Date().toISOString(),
+      city,
+      cityLabel,
+      cityPlaceId,
+      hotelLocation,
+      mode,
+      difficulty,
+      questions,
+      questionIds,
+      questionReserve,
+      currentQuestionIndex,
+      score,
+      userAnswers,
+      quizAttemptRecorded,
+      suggestions,
+      suggestionFilters,
+      itinerary: {
+        past: undoState.past.slice(-MAX_DRAFT_UNDO),
+        present: undoState.present,
+        future: undoState.future.slice(0, MAX_DRAFT_UNDO),
+      },
+      dayCount,
+      startDate,
+      activeTripId,
+      syncedSpotsVersion,
+    });
+  }, [
+    draftScreen, city, cityLabel, cityPlaceId, hotelLocation, mode, difficulty,
+    questions, questionIds, questionReserve, currentQuestionIndex, score, userAnswers, quizAttemptRecorded,
+    suggestions, suggestionFilters, undoState, dayCount, startDate, activeTripId, syncedSpotsVersion,
+  ]);
+
+  // Opening a URL directly (reload, link, Back/Forward) brings back the state its
+  // screen needs: this device's session draft when it was on the same screen of
+  // the same trip; otherwise the trip in the URL is loaded from the server for
+  // the itinerary and map, and screens that only exist mid-flow (loading, quiz,
+  // suggestions) fall back to the trip or home screen.
+  const restoreId = useRef(0);
+  useEffect(() => {
+    const requestId = ++restoreId.current;
+    // Unknown paths are redirected home by the router.
+    if (!route) return;
+    if (route.sharedToken && route.sharedToken !== sharedTokenRef.current) setSharedToken(route.sharedToken);
+    if (route.screen === "home" || route.screen === "profile" || route.screen === "shared-trip") return;
+
+    // Whatever is in memory belongs to another trip.
+    const switchedTrip = route.tripId !== null && route.tripId !== activeTripIdRef.current;
+    if (switchedTrip) {
+      clearTripState();
+      setActiveTripId(route.tripId);
+    }
+    if (route.screen === "trip-detail") return;
+
+    const hasTripState = !switchedTrip && city !== "";
+    const fallback = route.tripId !== null ? tripPath(route.tripId) : "/";
+    const isPlanScreen = (s: AppScreen) => s === "itinerary" || s === "map";
+
+    if (!hasTripState) {
+      const draft = loadLocalDraft();
+      const sameScreen = draft && (draft.screen === route.screen || (isPlanScreen(draft.screen) && isPlanScreen(route.screen)));
+      if (draft && sameScreen && draft.activeTripId === route.tripId) {
+        applyDraft(draft);
+        return;
+      }
+    }
+
+    if (isPlanScreen(route.screen)) {
+      if (hasTripState) return;
+      if (route.tripId === null) {
+        navigate("/", { replace: true });
+        return;
+      }
+      queryClient
+        .fetchQuery<SavedTrip>({ queryKey: ["/api/trips", route.tripId] })
+        .then((saved) => {
+          if (requestId === restoreId.current) loadSavedTrip(saved, "planning");
+        })
+        .catch(() => {
+          if (requestId === restoreId.current) navigate(fallback, { replace: true });
+        });
+      return;
+    }
+
+    const hasScreenState =
+      route.screen === "loading"
+        ? fetchId > 0
+        : route.screen === "suggestions"
+        ? suggestions.length > 0
+        : questions.length > 0;
+    if (!hasTripState || !hasScreenState) navigate(fallback, { replace: true });
+  }, [location]);
 
   return (
     <TripContext.Provider
@@ -200,13 +609,20 @@ export function TripProvider({ children }: { children: ReactNode }) {
         mode, setMode,
         difficulty, setDifficulty,
         questions, setQuestions,
+        questionIds, setQuestionIds,
+        questionReserve, setQuestionReserve,
         currentQuestionIndex, setCurrentQuestionIndex,
         score, setScore,
         userAnswers, setUserAnswers,
+        quizAttemptRecorded, setQuizAttemptRecorded,
         suggestions, setSuggestions, updateSuggestion,
+        suggestionFilters, setSuggestionFilters,
         addedSuggestionTitles,
         itinerary: undoState.present,
         addToItinerary, removeFromItinerary, reorderItinerary,
+        moveItineraryItem, reorderDay, setItineraryTimeSlot, setItineraryVisitMinutes,
+        dayCount, setDayCount, addDay, removeLastDay,
+        startDate, setStartDate,
         undo, redo,
         canUndo: undoState.past.length > 0,
         canRedo: undoState.future.length > 0,
@@ -214,6 +630,8 @@ export function TripProvider({ children }: { children: ReactNode }) {
         setItinerary,
         loadingMessage, setLoadingMessage,
         activeTripId, setActiveTripId,
+        syncedSpotsVersion, setSyncedSpotsVersion, applyRemoteSpots, loadSavedTrip, resumeDraft,
+        sharedToken, setSharedToken,
         fetchId, triggerFetch,
         resetTrip,
       }}
@@ -4,10 +4,18 @@ import "./index.css";
 
 import { Capacitor } from "@capacitor/core";
 import { StatusBar } from "@capacitor/status-bar";
+import { isCapacitor } from "./lib/apiBase";
 
 if (Capacitor.getPlatform() === "ios") {
   StatusBar.setOverlaysWebView({ overlay: false }).catch(() => {});
 }
 
+// Native builds ship their assets in the app bundle; the web build caches its shell.
+if (import.meta.env.PROD && !isCapacitor && "serviceWorker" in navigator) {
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch((err) => console.warn("Service worker registration failed:", err));
+  });
+}
+
 createRoot(document.getElementById("root")!).render(<App />);
 
@@ -7,6 +7,7 @@ import { Badge } from "@/components/ui/badge";
 
 import { Label } from "@/components/ui/label";
 import { ThemeToggle } from "@/components/theme-provider";
+import { ResumeDraftCard } from "@/components/resume-draft-card";
 import { useToast } from "@/hooks/use-toast";
 import {
   MapPin,
@@ -27,6 +28,7 @@ import { motion } from "framer-motion";
 const DIFFICULTY_OPTIONS: { value: Difficulty; label: string; desc: string }[] = [
   { value: "standard", label: "Standard", desc: "Interesting & accessible" },
   { value: "challenge", label: "Challenge", desc: "Deeper facts" },
+  { value: "adaptive", label: "Adaptive", desc: "Matches your level" },
 ];
 
 export default function HomePage() {
@@ -104,6 +106,8 @@ export default function HomePage() {
           </p>
         </motion.div>
 
+        <ResumeDraftCard />
+
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
@@ -182,7 +186,7 @@ export default function HomePage() {
                   <Label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground mb-2 block">
                     Difficulty
                   </Label>
-                  <div className="grid grid-cols-2 gap-2">
+                  <div className="grid grid-cols-3 gap-2">
                     {DIFFICULTY_OPTIONS.map((opt) => (
                       <button
                         key={opt.value}
@@ -1,5 +1,5 @@
-import { useState, useCallback } from "react";
-import { useTrip, type ItineraryItem } from "@/lib/tripContext";
+import { useState, useCallback, useRef, type DragEvent } from "react";
+import { useTrip, savedSpotId, type ItineraryItem } from "@/lib/tripContext";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -7,8 +7,25 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { submitQuizAttempt } from "@/lib/quizAttempts";
+import { isQueuedResponse } from "@/lib/offlineSync";
 import { useToast } from "@/hooks/use-toast";
+import { useDayCapacity } from "@/hooks/use-day-capacity";
+import { useTravelTimes, findLeg, dayTravelMinutes } from "@/hooks/use-travel-times";
+import { useTripSync, describeSpotsChange, spotsConflict } from "@/hooks/use-trip-sync";
+import { DayIssueList } from "@/components/day-issues";
+import { TravelLegRow, DayTravelSummary } from "@/components/travel-leg";
+import { TripViewers } from "@/components/trip-viewers";
+import { MAX_TRIP_DAYS, TIME_SLOTS, type TimeSlot } from "@shared/schema";
+import {
+  checkItineraryDay,
+  estimateVisitMinutes,
+  formatHoursOnWeekday,
+  formatVisitDuration,
+  tripDayDate,
+} from "@shared/itineraryChecks";
 import {
   ArrowLeft,
   ChevronUp,
@@ -23,9 +40,34 @@ import {
   Lightbulb,
   Check,
   Loader2,
+  CalendarPlus,
+  X,
+  Route,
+  Clock,
+  Map as MapIcon,
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 
+interface OptimizedDayRoute {
+  order: string[];
+  legs: { fromId: string | null; toId: string; distanceKm: number }[];
+  totalKm: number;
+  originalTotalKm: number;
+  startsAtHotel: boolean;
+  unlocated: string[];
+}
+
+const VISIT_DURATION_OPTIONS = [30, 60, 90, 120, 180, 240];
+
+function formatDayDate(date: Date): string {
+  return date.toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" });
+}
+
+function formatKm(km: number): string {
+  if (km < 1) return `${Math.round(km * 1000)} m`;
+  return `${km.toFixed(1)} km`;
+}
+
 export default function ItineraryPage() {
   const trip = useTrip();
   const { toast } = useToast();
@@ -35,18 +77,103 @@ export default function ItineraryPage() {
   const [customDescription, setCustomDescription] = useState("");
   const [customCategory, setCustomCategory] = useState("");
 
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  // Live updates wait while our own save is in flight; it ends by leaving the screen.
+  const savingRef = useRef(false);
+  const { viewers } = useTripSync(trip.activeTripId, (message) => {
+    if (savingRef.current) return;
+    if (trip.syncedSpotsVersion !== null && message.version <= trip.syncedSpotsVersion) return;
+    trip.applyRemoteSpots(message.spots, message.version);
+    toast({ title: describeSpotsChange(message), description: "Your itinerary now shows their changes." });
+  });
+  const dayCapacity = useDayCapacity();
+  const travelByDay = useTravelTimes(trip.cityLabel || trip.city, trip.itinerary);
+  const days = Array.from({ length: trip.dayCount }, (_, day) => day);
+  const itemsForDay = useCallback(
+    (day: number) => trip.itinerary.filter((i) => i.day === day),
+    [trip.itinerary]
+  );
+
   const handleMoveUp = useCallback(
-    (index: number) => {
-      if (index > 0) trip.reorderItinerary(index, index - 1);
+    (item: ItineraryItem, index: number) => {
+      if (index > 0) trip.moveItineraryItem(item.id, item.day, index - 1);
     },
     [trip]
   );
 
   const handleMoveDown = useCallback(
-    (index: number) => {
-      if (index < trip.itinerary.length - 1) trip.reorderItinerary(index, index + 1);
+    (item: ItineraryItem, index: number) => {
+      if (index < itemsForDay(item.day).length - 1) trip.moveItineraryItem(item.id, item.day, index + 1);
     },
-    [trip]
+    [trip, itemsForDay]
+  );
+
+  const [optimizingDay, setOptimizingDay] = useState<number | null>(null);
+  const [routeByDay, setRouteByDay] = useState<Record<number, OptimizedDayRoute>>({});
+
+  const handleOptimize = useCallback(
+    async (day: number) => {
+      const dayItems = itemsForDay(day);
+      if (dayItems.length < 2) return;
+      setOptimizingDay(day);
+      try {
+        const res = await apiRequest("POST", "/api/itinerary/optimize", {
+          city: trip.cityLabel || trip.city,
+          hotelLocation: trip.hotelLocation || undefined,
+          spots: dayItems.map((i) => ({
+            id: i.id,
+            title: i.title,
+            address: i.address,
+            lat: i.lat,
+            lng: i.lng,
+          })),
+        });
+        const data: OptimizedDayRoute = await res.json();
+        trip.reorderDay(day, data.order);
+        setRouteByDay((prev) => ({ ...prev, [day]: data }));
+
+        const saved = data.originalTotalKm - data.totalKm;
+        toast({
+          title: `Day ${day + 1} optimized`,
+          description:
+            saved > 0.05
+              ? `${formatKm(data.totalKm)} total, ${formatKm(saved)} shorter than before.`
+              : `${formatKm(data.totalKm)} total. This was already the shortest order.`,
+        });
+        if (data.unlocated.length > 0) {
+          toast({
+            title: `${data.unlocated.length} spot${data.unlocated.length !== 1 ? "s" : ""} couldn't be located`,
+            description: "They were moved to the end of the day.",
+          });
+        }
+      } catch (err: any) {
+        toast({
+          title: "Couldn't optimize route",
+          description: err.message || "Please try again",
+          variant: "destructive",
+        });
+      } finally {
+        setOptimizingDay(null);
+      }
+    },
+    [trip, toast, itemsForDay]
+  );
+
+  const handleDrop = useCallback(
+    (e: DragEvent, day: number, position: number) => {
+      e.preventDefault();
+      e.stopPropagation();
+      const id = e.dataTransfer.getData("text/plain") || draggingId;
+      setDraggingId(null);
+      if (!id) return;
+      const current = trip.itinerary.find((i) => i.id === id);
+      if (!current) return;
+      // Dropping further down the same day shifts the target up by one once the item is lifted out.
+      const currentIndex = itemsForDay(day).findIndex((i) => i.id === id);
+      const target = currentIndex !== -1 && currentIndex < position ? position - 1 : position;
+      trip.moveItineraryItem(id, day, target);
+    },
+    [trip, draggingId, itemsForDay]
   );
 
   const handleAddCustom = useCallback(() => {
@@ -60,6 +187,7 @@ export default function ItineraryPage() {
       description: customDescription.trim() || "Custom added spot",
       category: customCategory.trim() || "Custom",
       isCustom: true,
+      day: trip.dayCount - 1,
     };
     trip.addToItinerary(item);
     setCustomTitle("");
@@ -76,20 +204,37 @@ export default function ItineraryPage() {
     }
 
     setIsSaving(true);
+    savingRef.current = true;
     try {
-      const spotsPayload = trip.itinerary.map((item, idx) => ({
+      // In visit order; the server numbers each day's spots from this order.
+      const spotsPayload = days.flatMap(itemsForDay).map((item) => ({
+        id: savedSpotId(item),
         title: item.title,
         description: item.description,
         category: item.category,
         imageUrl: item.imageUrl || null,
         funFact: item.funFact || null,
         address: item.address || null,
-        sortOrder: idx,
+        placeId: item.placeId || null,
+        lat: item.lat ?? null,
+        lng: item.lng ?? null,
+        dayIndex: item.day,
+        timeSlot: item.timeSlot || null,
+        openingHours: item.openingHours || null,
+        visitMinutes: item.visitMinutes ?? null,
       }));
 
       if (trip.activeTripId) {
-        await apiRequest("POST", `/api/trips/${trip.activeTripId}/spots`, {
+        // Sent with the version the itinerary was loaded at, so a change someone
+        // else saved meanwhile is refused (409) instead of silently overwritten.
+        const synced = await apiRequest("PUT", `/api/trips/${trip.activeTripId}/spots`, {
           spots: spotsPayload,
+          baseVersion: trip.syncedSpotsVersion ?? undefined,
+        });
+
+        await apiRequest("PATCH", `/api/trips/${trip.activeTripId}`, {
+          dayCount: trip.dayCount,
+          startDate: trip.startDate || null,
         });
 
         if (trip.mode === "quiz" && trip.score > 0) {
@@ -99,9 +244,13 @@ export default function ItineraryPage() {
           });
         }
 
-        toast({ title: "Trip updated!" });
+        toast(
+          isQueuedResponse(synced)
+            ? { title: "Saved offline", description: "Your changes will sync when you're back online." }
+            : { title: "Trip updated!" }
+        );
       } else {
-        await apiRequest("POST", "/api/trips", {
+        const res = await apiRequest("POST", "/api/trips", {
           city: trip.city,
           cityLabel: trip.cityLabel || null,
           cityPlaceId: trip.cityPlaceId || null,
@@ -110,8 +259,15 @@ export default function ItineraryPage() {
           difficulty: trip.difficulty,
           score: trip.score || null,
           totalQuestions: trip.questions.length || null,
+          dayCount: trip.dayCount,
+          startDate: trip.startDate || null,
           spots: spotsPayload,
         });
+        const created = await res.json();
+
+        if (created?.id && trip.questions.length > 0 && trip.userAnswers.some((a) => a !== null)) {
+          await submitQuizAttempt(created.id, trip);
+        }
 
         toast({ title: "Trip saved!" });
       }
@@ -120,15 +276,32 @@ export default function ItineraryPage() {
       trip.resetTrip();
       trip.setScreen("profile");
     } catch (err: any) {
+      const conflict = spotsConflict(err);
+      if (conflict) {
+        trip.applyRemoteSpots(conflict.spots, conflict.version);
+        toast({
+          title: "Someone else changed this trip",
+          description: "Your itinerary now shows the latest order. Check it and save again.",
+        });
+        return;
+      }
+      if (String(err.message).startsWith("401")) {
+        toast({
+          title: "Sign in to save trips",
+          description: "Open your profile to sign in or create an account.",
+        });
+        return;
+      }
       toast({
         title: "Couldn't save trip",
         description: err.message || "Please try again",
         variant: "destructive",
       });
     } finally {
+      savingRef.current = false;
       setIsSaving(false);
     }
-  }, [trip, toast]);
+  }, [trip, toast, days, itemsForDay]);
 
   return (
     <div className="min-h-screen bg-background">
@@ -147,11 +320,20 @@ export default function ItineraryPage() {
               <h1 className="text-sm font-bold">{trip.city} Itinerary</h1>
               <p className="text-xs text-muted-foreground">
                 {trip.itinerary.length} spot{trip.itinerary.length !== 1 ? "s" : ""}
+                {trip.dayCount > 1 && ` · ${trip.dayCount} days`}
               </p>
             </div>
           </div>
 
           <div className="flex items-center gap-1">
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => trip.setScreen("map")}
+              data-testid="button-itinerary-map"
+            >
+              <MapIcon className="w-4 h-4" />
+            </Button>
             <Button
               size="icon"
               variant="ghost"
@@ -189,83 +371,276 @@ export default function ItineraryPage() {
             </Button>
           </div>
         ) : (
-          <AnimatePresence>
-            {trip.itinerary.map((item, index) => (
-              <motion.div
-                key={item.id}
-                initial={{ opacity: 0, x: -20 }}
-                animate={{ opacity: 1, x: 0 }}
-                exit={{ opacity: 0, x: 20 }}
-                transition={{ duration: 0.2 }}
-                className="mb-3"
-              >
-                <Card className="p-4">
-                  <div className="flex items-start gap-3">
-                    <div className="flex flex-col items-center gap-1 shrink-0">
-                      <div className="flex items-center justify-center w-7 h-7 rounded-full bg-primary text-primary-foreground text-xs font-bold">
-                        {index + 1}
-                      </div>
-                      <div className="flex flex-col gap-0.5">
-                        <button
-                          onClick={() => handleMoveUp(index)}
-                          disabled={index === 0}
-                          className="p-0.5 rounded hover-elevate disabled:opacity-20"
-                          data-testid={`button-move-up-${index}`}
-                        >
-                          <ChevronUp className="w-3.5 h-3.5" />
-                        </button>
-                        <button
-                          onClick={() => handleMoveDown(index)}
-                          disabled={index === trip.itinerary.length - 1}
-                          className="p-0.5 rounded hover-elevate disabled:opacity-20"
-                          data-testid={`button-move-down-${index}`}
-                        >
-                          <ChevronDown className="w-3.5 h-3.5" />
-                        </button>
-                      </div>
+          <div className="space-y-6">
+            <TripViewers viewers={viewers} />
+            <div className="flex items-center gap-2">
+              <Label htmlFor="trip-start-date" className="text-xs text-muted-foreground shrink-0">
+                Trip starts
+              </Label>
+              <Input
+                id="trip-start-date"
+                type="date"
+                className="h-8 w-40 text-xs"
+                value={trip.startDate}
+                onChange={(e) => trip.setStartDate(e.target.value)}
+                data-testid="input-start-date"
+              />
+              {!trip.startDate && (
+                <span className="text-xs text-muted-foreground">Set a date to check opening days</span>
+              )}
+            </div>
+            {days.map((day) => {
+              const dayItems = itemsForDay(day);
+              const isLastDay = day === trip.dayCount - 1;
+              const dayDate = tripDayDate(trip.startDate, day);
+              const dayTravel = travelByDay.get(day);
+              const travelMinutes = dayTravelMinutes(dayTravel, dayItems.map((i) => i.id));
+              const dayIssues = checkItineraryDay(dayItems, dayDate, dayCapacity, travelMinutes);
+              // Only show route figures while the day still matches the optimized order.
+              const savedRoute = routeByDay[day];
+              const dayRoute =
+                savedRoute && savedRoute.order.join("|") === dayItems.map((i) => i.id).join("|") ? savedRoute : null;
+              return (
+                <section
+                  key={day}
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={(e) => handleDrop(e, day, dayItems.length)}
+                  data-testid={`section-day-${day}`}
+                >
+                  <div className="flex items-center justify-between gap-2 mb-2">
+                    <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
+                      Day {day + 1}
+                      <span className="ml-2 normal-case font-normal">
+                        {dayDate && `${formatDayDate(dayDate)} · `}
+                        {dayItems.length} spot{dayItems.length !== 1 ? "s" : ""}
+                      </span>
+                    </h2>
+                    {dayItems.length > 1 && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="gap-1 text-xs"
+                        onClick={() => handleOptimize(day)}
+                        disabled={optimizingDay !== null}
+                        data-testid={`button-optimize-day-${day}`}
+                      >
+                        {optimizingDay === day ? (
+                          <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                        ) : (
+                          <Route className="w-3.5 h-3.5" />
+                        )}
+                        Optimize order
+                      </Button>
+                    )}
+                    {isLastDay && day > 0 && dayItems.length === 0 && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="text-muted-foreground"
+                        onClick={trip.removeLastDay}
+                        data-testid={`button-remove-day-${day}`}
+                      >
+                        <X className="w-3.5 h-3.5" />
+                      </Button>
+                    )}
+                  </div>
+
+                  {dayRoute && (
+                    <p className="text-xs text-muted-foreground mb-2" data-testid={`text-route-total-${day}`}>
+                      {formatKm(dayRoute.totalKm)} total{dayRoute.startsAtHotel ? " from your hotel" : ""}
+                    </p>
+                  )}
+
+                  {dayTravel && travelMinutes !== null && <DayTravelSummary day={day} times={dayTravel} />}
+
+                  <DayIssueList day={day} issues={dayIssues} />
+
+                  {dayItems.length === 0 && (
+                    <div className="rounded-md border border-dashed p-4 text-center text-xs text-muted-foreground">
+                      Drag spots here to plan Day {day + 1}
                     </div>
+                  )}
 
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-start justify-between gap-2 mb-1">
-                        <h3 className="text-sm font-semibold" data-testid={`text-itinerary-title-${index}`}>
-                          {item.title}
-                        </h3>
-                        <Button
-                          size="icon"
-                          variant="ghost"
-                          className="shrink-0 text-muted-foreground"
-                          onClick={() => trip.removeFromItinerary(item.id)}
-                          data-testid={`button-remove-${index}`}
+                  <AnimatePresence>
+                    {dayItems.map((item, index) => {
+                      const hoursToday = dayDate ? formatHoursOnWeekday(item.openingHours, dayDate.getDay()) : null;
+                      const visitMinutes = item.visitMinutes ?? estimateVisitMinutes(item.category);
+                      const durationOptions = VISIT_DURATION_OPTIONS.includes(visitMinutes)
+                        ? VISIT_DURATION_OPTIONS
+                        : [...VISIT_DURATION_OPTIONS, visitMinutes].sort((a, b) => a - b);
+                      const legIn = index > 0 ? findLeg(dayTravel, dayItems[index - 1].id, item.id) : undefined;
+                      return (
+                        <motion.div
+                          key={item.id}
+                          initial={{ opacity: 0, x: -20 }}
+                          animate={{ opacity: 1, x: 0 }}
+                          exit={{ opacity: 0, x: 20 }}
+                          transition={{ duration: 0.2 }}
+                          className={`mb-3 ${draggingId === item.id ? "opacity-50" : ""}`}
                         >
-                          <Trash2 className="w-3.5 h-3.5" />
-                        </Button>
-                      </div>
-                      <p className="text-xs text-muted-foreground mb-1.5 line-clamp-2">
-                        {item.description}
-                      </p>
-                      <div className="flex items-center gap-2 flex-wrap">
-                        <Badge variant="secondary" className="text-xs">
-                          {item.category}
-                        </Badge>
-                        {item.isCustom && (
-                          <Badge variant="outline" className="text-xs">Custom</Badge>
-                        )}
-                      </div>
-                      {item.funFact && (
-                        <div className="flex items-start gap-1 mt-2 p-1.5 rounded bg-chart-2/5">
-                          <Lightbulb className="w-3 h-3 text-chart-2 shrink-0 mt-0.5" />
-                          <p className="text-xs text-foreground/70">{item.funFact}</p>
-                        </div>
-                      )}
-                    </div>
-                  </div>
-                </Card>
-              </motion.div>
-            ))}
-          </AnimatePresence>
+                          {legIn && <TravelLegRow leg={legIn} />}
+                          <Card
+                            className="p-4"
+                            draggable
+                            onDragStart={(e) => {
+                              e.dataTransfer.setData("text/plain", item.id);
+                              e.dataTransfer.effectAllowed = "move";
+                              setDraggingId(item.id);
+                            }}
+                            onDragEnd={() => setDraggingId(null)}
+                            onDragOver={(e) => e.preventDefault()}
+                            onDrop={(e) => handleDrop(e, day, index)}
+                            data-testid={`card-itinerary-${item.id}`}
+                          >
+                            <div className="flex items-start gap-3">
+                              <div className="flex flex-col items-center gap-1 shrink-0">
+                                <GripVertical className="w-3.5 h-3.5 text-muted-foreground cursor-grab" />
+                                <div className="flex items-center justify-center w-7 h-7 rounded-full bg-primary text-primary-foreground text-xs font-bold">
+                                  {index + 1}
+                                </div>
+                                <div className="flex flex-col gap-0.5">
+                                  <button
+                                    onClick={() => handleMoveUp(item, index)}
+                                    disabled={index === 0}
+                                    className="p-0.5 rounded hover-elevate disabled:opacity-20"
+                                    data-testid={`button-move-up-${day}-${index}`}
+                                  >
+                                    <ChevronUp className="w-3.5 h-3.5" />
+                                  </button>
+                                  <button
+                                    onClick={() => handleMoveDown(item, index)}
+                                    disabled={index === dayItems.length - 1}
+                                    className="p-0.5 rounded hover-elevate disabled:opacity-20"
+                                    data-testid={`button-move-down-${day}-${index}`}
+                                  >
+                                    <ChevronDown className="w-3.5 h-3.5" />
+                                  </button>
+                                </div>
+                              </div>
+
+                              <div className="flex-1 min-w-0">
+                                <div className="flex items-start justify-between gap-2 mb-1">
+                                  <h3 className="text-sm font-semibold" data-testid={`text-itinerary-title-${day}-${index}`}>
+                                    {item.title}
+                                  </h3>
+                                  <Button
+                                    size="icon"
+                                    variant="ghost"
+                                    className="shrink-0 text-muted-foreground"
+                                    onClick={() => trip.removeFromItinerary(item.id)}
+                                    data-testid={`button-remove-${day}-${index}`}
+                                  >
+                                    <Trash2 className="w-3.5 h-3.5" />
+                                  </Button>
+                                </div>
+                                <p className="text-xs text-muted-foreground mb-1.5 line-clamp-2">
+                                  {item.description}
+                                </p>
+                                <div className="flex items-center gap-2 flex-wrap">
+                                  <Badge variant="secondary" className="text-xs">
+                                    {item.category}
+                                  </Badge>
+                                  {item.isCustom && (
+                                    <Badge variant="outline" className="text-xs">Custom</Badge>
+                                  )}
+                                  {dayRoute?.legs
+                                    .filter((leg) => leg.toId === item.id)
+                                    .map((leg) => (
+                                      <span key={leg.toId} className="text-xs text-muted-foreground">
+                                        {formatKm(leg.distanceKm)} from {leg.fromId ? "previous stop" : "hotel"}
+                                      </span>
+                                    ))}
+                                  {hoursToday && (
+                                    <span
+                                      className={`text-xs flex items-center gap-1 ${hoursToday === "Closed" ? "text-destructive" : "text-muted-foreground"}`}
+                                      data-testid={`text-hours-${item.id}`}
+                                    >
+                                      <Clock className="w-3 h-3" />
+                                      {hoursToday === "Closed" ? "Closed this day" : `Open ${hoursToday}`}
+                                    </span>
+                                  )}
+                                </div>
+                                <div className="flex items-center gap-2 mt-2">
+                                  <Select
+                                    value={String(item.day)}
+                                    onValueChange={(v) => trip.moveItineraryItem(item.id, Number(v), Number.MAX_SAFE_INTEGER)}
+                                  >
+                                    <SelectTrigger className="h-7 w-24 text-xs" data-testid={`select-day-${item.id}`}>
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {days.map((d) => (
+                                        <SelectItem key={d} value={String(d)}>
+                                          Day {d + 1}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                  <Select
+                                    value={item.timeSlot || "any"}
+                                    onValueChange={(v) =>
+                                      trip.setItineraryTimeSlot(item.id, v === "any" ? undefined : (v as TimeSlot))
+                                    }
+                                  >
+                                    <SelectTrigger className="h-7 w-28 text-xs" data-testid={`select-slot-${item.id}`}>
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value="any">Any time</SelectItem>
+                                      {TIME_SLOTS.map((slot) => (
+                                        <SelectItem key={slot} value={slot} className="capitalize">
+                                          {slot}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                  <Select
+                                    value={String(visitMinutes)}
+                                    onValueChange={(v) => trip.setItineraryVisitMinutes(item.id, Number(v))}
+                                  >
+                                    <SelectTrigger className="h-7 w-24 text-xs" data-testid={`select-duration-${item.id}`}>
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {durationOptions.map((m) => (
+                                        <SelectItem key={m} value={String(m)}>
+                                          ~{formatVisitDuration(m)}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                </div>
+                                {item.funFact && (
+                                  <div className="flex items-start gap-1 mt-2 p-1.5 rounded bg-chart-2/5">
+                                    <Lightbulb className="w-3 h-3 text-chart-2 shrink-0 mt-0.5" />
+                                    <p className="text-xs text-foreground/70">{item.funFact}</p>
+                                  </div>
+                                )}
+                              </div>
+                            </div>
+                          </Card>
+                        </motion.div>
+                      );
+                    })}
+                  </AnimatePresence>
+                </section>
+              );
+            })}
+          </div>
         )}
 
         <div className="flex gap-2 mt-4">
+          <Button
+            variant="outline"
+            className="flex-1 gap-2"
+            onClick={trip.addDay}
+            disabled={trip.dayCount >= MAX_TRIP_DAYS}
+            title={trip.dayCount >= MAX_TRIP_DAYS ? `Trips can be at most ${MAX_TRIP_DAYS} days` : undefined}
+            data-testid="button-add-day"
+          >
+            <CalendarPlus className="w-4 h-4" />
+            Add Day
+          </Button>
           <Dialog open={showAddCustom} onOpenChange={setShowAddCustom}>
             <DialogTrigger asChild>
               <Button variant="outline" className="flex-1 gap-2" data-testid="button-add-custom">
@@ -1,8 +1,9 @@
 import { useEffect, useRef } from "react";
-import { useTrip } from "@/lib/tripContext";
+import { useTrip, type Difficulty } from "@/lib/tripContext";
 import { Button } from "@/components/ui/button";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { getAuthErrorMessage } from "@/hooks/use-auth";
 import {
   ArrowLeft,
   Plane,
@@ -15,29 +16,7 @@ import {
   Map,
 } from "lucide-react";
 import { motion } from "framer-motion";
-
-function getSeenQuestionIds(city: string): string[] {
-  try {
-    const stored = localStorage.getItem(`braintrip_seen_${city}`);
-    return stored ? JSON.parse(stored) : [];
-  } catch {
-    return [];
-  }
-}
-
-function saveSeenQuestionIds(city: string, ids: string[]) {
-  try {
-    const existing = getSeenQuestionIds(city);
-    const merged = Array.from(new Set([...existing, ...ids])).slice(-200);
-    localStorage.setItem(`braintrip_seen_${city}`, JSON.stringify(merged));
-  } catch {}
-}
-
-function clearSeenQuestionIds(city: string) {
-  try {
-    localStorage.removeItem(`braintrip_seen_${city}`);
-  } catch {}
-}
+import type { QuizQuestion } from "@shared/schema";
 
 export default function LoadingPage() {
   const trip = useTrip();
@@ -58,13 +37,13 @@ export default function LoadingPage() {
 
         if (trip.activeTripId) {
           try {
-            const tripRes = await fetch(`/api/trips/${trip.activeTripId}`);
+            const tripRes = await apiRequest("GET", `/api/trips/${trip.activeTripId}`);
             if (tripRes.ok) {
               const tripData = await tripRes.json();
               city = tripData.city || city;
               cityLabel = tripData.cityLabel || cityLabel;
               cityPlaceId = tripData.cityPlaceId || cityPlaceId;
-              difficulty = (tripData.difficulty as "standard" | "challenge") || difficulty;
+              difficulty = (tripData.difficulty as Difficulty) || difficulty;
               if (cityLabel) trip.setCityLabel(cityLabel);
               if (cityPlaceId) trip.setCityPlaceId(cityPlaceId);
               if (city) trip.setCity(city);
@@ -84,12 +63,10 @@ export default function LoadingPage() {
         }
 
         if (mode === "quiz") {
-          const excludeQuestionIds = getSeenQuestionIds(city);
           const payload: Record<string, any> = {
             city,
             difficulty,
             count: 8,
-            excludeQuestionIds,
           };
           if (cityPlaceId) {
             payload.cityPlaceId = cityPlaceId;
@@ -111,24 +88,29 @@ export default function LoadingPage() {
           }
 
           if (data.poolExhausted) {
-            clearSeenQuestionIds(city);
             toast({
               title: `You've mastered ${data.cityLabel || city}!`,
               description: "Starting a fresh set of questions.",
             });
           }
 
-          if (Array.isArray(data.questionIds) && data.questionIds.length > 0) {
-            saveSeenQuestionIds(city, data.questionIds);
-          }
-
           if (data.cityLabel) trip.setCityLabel(data.cityLabel);
           if (data.cityPlaceId) trip.setCityPlaceId(data.cityPlaceId);
 
           trip.setQuestions(data.questions);
+          trip.setQuestionIds(Array.isArray(data.questionIds) ? data.questionIds : []);
+          trip.setQuestionReserve(
+            Array.isArray(data.reserveQuestions)
+              ? data.reserveQuestions.map((question: QuizQuestion, i: number) => ({
+                  question,
+                  questionId: data.reserveQuestionIds?.[i] ?? "",
+                }))
+              : []
+          );
           trip.setCurrentQuestionIndex(0);
           trip.setScore(0);
           trip.setUserAnswers(new Array(data.questions.length).fill(null));
+          trip.setQuizAttemptRecorded(false);
           trip.setScreen("quiz");
         } else {
           const exclude = trip.itinerary.map((item) => item.title);
@@ -137,15 +119,17 @@ export default function LoadingPage() {
             hotelLocation: trip.hotelLocation || undefined,
             exclude,
             excludePlaceIds: [],
+            filters: trip.suggestionFilters,
           });
           const data = await res.json();
           trip.setSuggestions(data.suggestions);
           trip.setScreen("suggestions");
         }
       } catch (err: any) {
+        // e.g. the server's 429 "Too many requests" message
         toast({
           title: "Something went wrong",
-          description: err.message || "Please try again",
+          description: (err?.message && getAuthErrorMessage(err)) || "Please try again",
           variant: "destructive",
         });
         trip.setScreen(trip.activeTripId ? "trip-detail" : "home");
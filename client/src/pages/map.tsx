@@ -0,0 +1,246 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import L from "leaflet";
+import "leaflet/dist/leaflet.css";
+import { MapContainer, TileLayer, CircleMarker, Marker, Polyline, Popup, useMap } from "react-leaflet";
+import { useTrip, itineraryItemFromSuggestion, type ItineraryItem } from "@/lib/tripContext";
+import { geocode } from "@/hooks/use-distance-calculator";
+import { MAP_TILE_URL, MAP_TILE_ATTRIBUTION, MAP_MAX_ZOOM } from "@/lib/mapTiles";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PLACE_CATEGORIES, type PlaceCategory, type Suggestion } from "@shared/schema";
+import { ArrowLeft, Plus, Trash2 } from "lucide-react";
+
+const CATEGORY_COLORS: Record<PlaceCategory, string> = {
+  Culture: "#8b5cf6",
+  Food: "#f97316",
+  Nature: "#16a34a",
+  Shopping: "#db2777",
+  Entertainment: "#ca8a04",
+  Landmark: "#2563eb",
+};
+const OTHER_COLOR = "#64748b";
+
+// Each day's route gets its own color so overlapping days stay readable.
+const DAY_COLORS = ["#0f766e", "#b91c1c", "#7c3aed", "#c2410c", "#1d4ed8", "#be185d", "#4d7c0f"];
+
+function categoryColor(category: string): string {
+  return CATEGORY_COLORS[category as PlaceCategory] ?? OTHER_COLOR;
+}
+
+function dayColor(day: number): string {
+  return DAY_COLORS[day % DAY_COLORS.length];
+}
+
+function badgeIcon(label: string, background: string, border: string): L.DivIcon {
+  return L.divIcon({
+    className: "",
+    html: `<div style="width:26px;height:26px;border-radius:9999px;background:${background};border:3px solid ${border};color:#fff;font:700 12px/20px system-ui,sans-serif;text-align:center;box-shadow:0 1px 4px rgba(0,0,0,.35)">${label}</div>`,
+    iconSize: [26, 26],
+    iconAnchor: [13, 13],
+    popupAnchor: [0, -14],
+  });
+}
+
+const hotelIcon = badgeIcon("H", "#111827", "#fff");
+
+type LatLng = [number, number];
+
+function hasCoords<T extends { lat?: number | null; lng?: number | null }>(p: T): p is T & { lat: number; lng: number } {
+  return typeof p.lat === "number" && typeof p.lng === "number";
+}
+
+/** Zooms to everything on the map whenever the set of plotted points changes. */
+function FitToPoints({ points }: { points: LatLng[] }) {
+  const map = useMap();
+  const key = points.map((p) => p.join(",")).sort().join("|");
+  useEffect(() => {
+    if (points.length === 0) return;
+    if (points.length === 1) map.setView(points[0], 15);
+    else map.fitBounds(L.latLngBounds(points), { padding: [32, 32], maxZoom: 16 });
+  }, [map, key]);
+  return null;
+}
+
+export default function MapPage() {
+  const trip = useTrip();
+  const [dayFilter, setDayFilter] = useState<string>("all");
+  const [showSuggestions, setShowSuggestions] = useState(true);
+
+  const { data: hotelCoords } = useQuery({
+    queryKey: ["geocode", trip.hotelLocation],
+    queryFn: () => geocode(trip.hotelLocation),
+    enabled: !!trip.hotelLocation,
+    staleTime: Infinity,
+  });
+
+  const days = Array.from({ length: trip.dayCount }, (_, day) => day);
+  const visibleDays = dayFilter === "all" ? days : [Number(dayFilter)];
+  const stopsByDay = visibleDays.map((day) => ({
+    day,
+    stops: trip.itinerary.filter((i) => i.day === day).filter(hasCoords),
+  }));
+  const unplotted = trip.itinerary.filter((i) => !hasCoords(i)).length;
+
+  const openSuggestions = showSuggestions
+    ? trip.suggestions.filter((s) => !trip.addedSuggestionTitles.has(s.title)).filter(hasCoords)
+    : [];
+
+  const points: LatLng[] = [
+    ...stopsByDay.flatMap(({ stops }) => stops.map((s): LatLng => [s.lat, s.lng])),
+    ...openSuggestions.map((s): LatLng => [s.lat, s.lng]),
+    ...(hotelCoords ? [[hotelCoords.lat, hotelCoords.lng] as LatLng] : []),
+  ];
+
+  const handleAdd = (suggestion: Suggestion) => {
+    const item = itineraryItemFromSuggestion(suggestion);
+    trip.addToItinerary(dayFilter === "all" ? item : { ...item, day: Number(dayFilter) });
+  };
+
+  const handleRemove = (item: ItineraryItem) => trip.removeFromItinerary(item.id);
+
+  return (
+    <div className="h-screen flex flex-col bg-background">
+      <header className="sticky top-0 z-50 bg-background/80 backdrop-blur-md border-b p-4">
+        <div className="flex items-center justify-between gap-2 max-w-lg mx-auto">
+          <div className="flex items-center gap-2">
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => trip.setScreen(trip.itinerary.length > 0 ? "itinerary" : "suggestions")}
+              data-testid="button-map-back"
+            >
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <div>
+              <h1 className="text-sm font-bold">{trip.city} Map</h1>
+              <p className="text-xs text-muted-foreground">
+                {trip.itinerary.length} planned · {openSuggestions.length} suggested
+              </p>
+            </div>
+          </div>
+          {trip.dayCount > 1 && (
+            <Select value={dayFilter} onValueChange={setDayFilter}>
+              <SelectTrigger className="h-8 w-28 text-xs" data-testid="select-map-day">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All days</SelectItem>
+                {days.map((d) => (
+                  <SelectItem key={d} value={String(d)}>
+                    Day {d + 1}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </header>
+
+      <main className="flex-1 relative" data-testid="map-view">
+        <MapContainer center={[20, 0]} zoom={2} className="absolute inset-0 z-0">
+          <TileLayer url={MAP_TILE_URL} attribution={MAP_TILE_ATTRIBUTION} maxZoom={MAP_MAX_ZOOM} />
+          <FitToPoints points={points} />
+
+          {hotelCoords && (
+            <Marker position={[hotelCoords.lat, hotelCoords.lng]} icon={hotelIcon}>
+              <Popup>
+                <p className="text-sm font-semibold">Your hotel</p>
+                <p className="text-xs text-muted-foreground">{trip.hotelLocation}</p>
+              </Popup>
+            </Marker>
+          )}
+
+          {openSuggestions.map((s, index) => (
+            <CircleMarker
+              key={s.placeId || s.title}
+              center={[s.lat, s.lng]}
+              radius={8}
+              pathOptions={{ color: "#fff", weight: 2, fillColor: categoryColor(s.category), fillOpacity: 0.9 }}
+            >
+              <Popup>
+                <p className="text-sm font-semibold mb-1">{s.title}</p>
+                <Badge variant="secondary" className="text-xs mb-2">
+                  {s.category}
+                </Badge>
+                {s.address && <p className="text-xs text-muted-foreground mb-2">{s.address}</p>}
+                <Button size="sm" className="w-full gap-1" onClick={() => handleAdd(s)} data-testid={`button-map-add-${index}`}>
+                  <Plus className="w-3 h-3" />
+                  Add to {dayFilter === "all" ? "itinerary" : `Day ${Number(dayFilter) + 1}`}
+                </Button>
+              </Popup>
+            </CircleMarker>
+          ))}
+
+          {stopsByDay.map(({ day, stops }) => (
+            <Polyline
+              key={`route-${day}`}
+              positions={stops.map((s): LatLng => [s.lat, s.lng])}
+              pathOptions={{ color: dayColor(day), weight: 4, opacity: 0.8 }}
+            />
+          ))}
+
+          {stopsByDay.flatMap(({ day, stops }) =>
+            stops.map((item, index) => (
+              <Marker
+                key={item.id}
+                position={[item.lat, item.lng]}
+                icon={badgeIcon(String(index + 1), categoryColor(item.category), dayColor(day))}
+                zIndexOffset={1000}
+              >
+                <Popup>
+                  <p className="text-xs text-muted-foreground">
+                    Day {day + 1} · Stop {index + 1}
+                  </p>
+                  <p className="text-sm font-semibold mb-2">{item.title}</p>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="w-full gap-1"
+                    onClick={() => handleRemove(item)}
+                    data-testid={`button-map-remove-${item.id}`}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                    Remove from itinerary
+                  </Button>
+                </Popup>
+              </Marker>
+            ))
+          )}
+        </MapContainer>
+
+        <div className="absolute bottom-4 left-4 right-4 z-10 max-w-lg mx-auto">
+          <div className="rounded-md border bg-background/95 backdrop-blur-md p-3 space-y-2 shadow-md">
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="map-show-suggestions" className="text-xs">
+                Show suggestions
+              </Label>
+              <Switch
+                id="map-show-suggestions"
+                checked={showSuggestions}
+                onCheckedChange={setShowSuggestions}
+                data-testid="switch-map-suggestions"
+              />
+            </div>
+            <div className="flex flex-wrap gap-x-3 gap-y-1">
+              {PLACE_CATEGORIES.map((c) => (
+                <span key={c} className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <span className="w-2.5 h-2.5 rounded-full" style={{ background: CATEGORY_COLORS[c] }} />
+                  {c}
+                </span>
+              ))}
+            </div>
+            {unplotted > 0 && (
+              <p className="text-xs text-muted-foreground" data-testid="text-map-unplotted">
+                {unplotted} planned spot{unplotted !== 1 ? "s" : ""} without a location {unplotted !== 1 ? "aren't" : "isn't"} shown.
+              </p>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -8,7 +8,10 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ThemeToggle } from "@/components/theme-provider";
 import { useToast } from "@/hooks/use-toast";
-import type { Trip } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { AuthForm } from "@/components/auth-form";
+import { TravelerProfileForm } from "@/components/traveler-profile-form";
+import type { TripWithRole } from "@shared/schema";
 import {
   ArrowLeft,
   MapPin,
@@ -20,6 +23,8 @@ import {
   Brain,
   Compass,
   ChevronRight,
+  LogOut,
+  Users,
 } from "lucide-react";
 import { motion } from "framer-motion";
 
@@ -27,9 +32,13 @@ export default function ProfilePage() {
   const trip = useTrip();
   const { toast } = useToast();
 
-  const { data: trips, isLoading } = useQuery<Trip[]>({
+  const { user, isLoading: isAuthLoading, logoutMutation } = useAuth();
+
+  const { data: trips, isLoading: isTripsLoading } = useQuery<TripWithRole[]>({
     queryKey: ["/api/trips"],
+    enabled: !!user,
   });
+  const isLoading = isAuthLoading || (!!user && isTripsLoading);
 
   const deleteMutation = useMutation({
     mutationFn: async (id: number) => {
@@ -67,14 +76,34 @@ export default function ProfilePage() {
             <Button
               size="icon"
               variant="ghost"
-              onClick={() => trip.setScreen("home")}
+              onClick={() => trip.setScreen(trip.sharedToken ? "shared-trip" : "home")}
               data-testid="button-profile-back"
             >
               <ArrowLeft className="w-4 h-4" />
             </Button>
-            <h1 className="text-sm font-bold">Saved Trips</h1>
+            <div>
+              <h1 className="text-sm font-bold">Saved Trips</h1>
+              {user && (
+                <p className="text-xs text-muted-foreground" data-testid="text-username">
+                  {user.username}
+                </p>
+              )}
+            </div>
+          </div>
+          <div className="flex items-center gap-1">
+            {user && (
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+                data-testid="button-logout"
+              >
+                <LogOut className="w-4 h-4" />
+              </Button>
+            )}
+            <ThemeToggle />
           </div>
-          <ThemeToggle />
         </div>
       </header>
 
@@ -93,85 +122,100 @@ export default function ProfilePage() {
               </Card>
             ))}
           </div>
-        ) : !trips || trips.length === 0 ? (
-          <div className="flex flex-col items-center justify-center py-16 text-center">
-            <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
-              <Globe className="w-8 h-8 text-muted-foreground" />
-            </div>
-            <h3 className="text-lg font-semibold mb-1">No saved trips yet</h3>
-            <p className="text-sm text-muted-foreground mb-4">
-              Start exploring a city and save your itinerary!
-            </p>
-            <Button onClick={() => trip.setScreen("home")} data-testid="button-start-exploring">
-              <Plane className="w-4 h-4 mr-2" />
-              Start Exploring
-            </Button>
-          </div>
+        ) : !user ? (
+          <AuthForm />
         ) : (
-          <div className="space-y-3">
-            {trips.map((t, index) => (
-              <motion.div
-                key={t.id}
-                initial={{ opacity: 0, y: 10 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: index * 0.05 }}
-              >
-                <Card
-                  className="p-4 hover-elevate cursor-pointer"
-                  data-testid={`card-trip-${t.id}`}
-                  onClick={() => handleOpenTrip(t.id)}
-                >
-                  <div className="flex items-start justify-between gap-3">
-                    <div className="flex items-start gap-3">
-                      <div className="flex items-center justify-center w-10 h-10 rounded-md bg-primary/10 shrink-0">
-                        <MapPin className="w-5 h-5 text-primary" />
-                      </div>
-                      <div>
-                        <h3 className="text-sm font-semibold mb-0.5" data-testid={`text-trip-city-${t.id}`}>
-                          {t.city}
-                        </h3>
-                        <div className="flex items-center gap-2 flex-wrap">
-                          <Badge variant="secondary" className="text-xs gap-1">
-                            {t.mode === "quiz" ? (
-                              <Brain className="w-3 h-3" />
-                            ) : (
-                              <Compass className="w-3 h-3" />
-                            )}
-                            {t.mode === "quiz" ? "Quiz" : "Planning"}
-                          </Badge>
-                          {t.score != null && t.totalQuestions != null && (
-                            <Badge variant="outline" className="text-xs gap-1">
-                              <Star className="w-3 h-3" />
-                              {t.score}/{t.totalQuestions}
-                            </Badge>
-                          )}
+          <>
+            <TravelerProfileForm />
+            {!trips || trips.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-16 text-center">
+                <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
+                  <Globe className="w-8 h-8 text-muted-foreground" />
+                </div>
+                <h3 className="text-lg font-semibold mb-1">No saved trips yet</h3>
+                <p className="text-sm text-muted-foreground mb-4">
+                  Start exploring a city and save your itinerary!
+                </p>
+                <Button onClick={() => trip.setScreen("home")} data-testid="button-start-exploring">
+                  <Plane className="w-4 h-4 mr-2" />
+                  Start Exploring
+                </Button>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {trips.map((t, index) => (
+                  <motion.div
+                    key={t.id}
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: index * 0.05 }}
+                  >
+                    <Card
+                      className="p-4 hover-elevate cursor-pointer"
+                      data-testid={`card-trip-${t.id}`}
+                      onClick={() => handleOpenTrip(t.id)}
+                    >
+                      <div className="flex items-start justify-between gap-3">
+                        <div className="flex items-start gap-3">
+                          <div className="flex items-center justify-center w-10 h-10 rounded-md bg-primary/10 shrink-0">
+                            <MapPin className="w-5 h-5 text-primary" />
+                          </div>
+                          <div>
+                            <h3 className="text-sm font-semibold mb-0.5" data-testid={`text-trip-city-${t.id}`}>
+                              {t.city}
+                            </h3>
+                            <div className="flex items-center gap-2 flex-wrap">
+                              <Badge variant="secondary" className="text-xs gap-1">
+                                {t.mode === "quiz" ? (
+                                  <Brain className="w-3 h-3" />
+                                ) : (
+                                  <Compass className="w-3 h-3" />
+                                )}
+                                {t.mode === "quiz" ? "Quiz" : "Planning"}
+                              </Badge>
+                              {t.score != null && t.totalQuestions != null && (
+                                <Badge variant="outline" className="text-xs gap-1">
+                                  <Star className="w-3 h-3" />
+                                  {t.score}/{t.totalQuestions}
+                                </Badge>
+                              )}
+                              {t.role !== "owner" && (
+                                <Badge variant="outline" className="text-xs gap-1">
+                                  <Users className="w-3 h-3" />
+                                  Shared
+                                </Badge>
+                              )}
+                            </div>
+                            <div className="flex items-center gap-1 mt-1.5 text-xs text-muted-foreground">
+                              <Calendar className="w-3 h-3" />
+                              {new Date(t.createdAt).toLocaleDateString()}
+                            </div>
+                          </div>
                         </div>
-                        <div className="flex items-center gap-1 mt-1.5 text-xs text-muted-foreground">
-                          <Calendar className="w-3 h-3" />
-                          {new Date(t.createdAt).toLocaleDateString()}
+                        <div className="flex items-center gap-1 shrink-0">
+                          <ChevronRight className="w-4 h-4 text-muted-foreground" />
+                          {t.role === "owner" && (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="text-muted-foreground"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleDelete(t.id);
+                              }}
+                              data-testid={`button-delete-trip-${t.id}`}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          )}
                         </div>
                       </div>
-                    </div>
-                    <div className="flex items-center gap-1 shrink-0">
-                      <ChevronRight className="w-4 h-4 text-muted-foreground" />
-                      <Button
-                        size="icon"
-                        variant="ghost"
-                        className="text-muted-foreground"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleDelete(t.id);
-                        }}
-                        data-testid={`button-delete-trip-${t.id}`}
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
-                    </div>
-                  </div>
-                </Card>
-              </motion.div>
-            ))}
-          </div>
+                    </Card>
+                  </motion.div>
+                ))}
+              </div>
+            )}
+          </>
         )}
       </main>
     </div>
@@ -1,11 +1,13 @@
 import { API_BASE } from "@/lib/apiBase";
 import { useState, useCallback, useMemo, useEffect, useRef } from "react";
-import { useTrip } from "@/lib/tripContext";
+import { useTrip, type ReserveQuestion } from "@/lib/tripContext";
+import type { QuizQuestion } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
+import { submitQuizAttempt } from "@/lib/quizAttempts";
 import {
   ChevronRight,
   Check,
@@ -20,6 +22,8 @@ import {
   Flame,
   Zap,
   Award,
+  TrendingUp,
+  TrendingDown,
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 
@@ -62,6 +66,29 @@ function ConfettiExplosion() {
   );
 }
 
+type AdaptiveShift = "harder" | "easier";
+
+const ADAPTIVE_STEP = 0.15;
+const DEFAULT_ACCURACY = 0.6;
+
+// Returns the reserve question closest to one step harder/easier than `current`, or -1.
+function pickReplacement(current: QuizQuestion, reserve: ReserveQuestion[], shift: AdaptiveShift): number {
+  const currentAccuracy = current.accuracy ?? DEFAULT_ACCURACY;
+  const target = shift === "harder" ? currentAccuracy - ADAPTIVE_STEP : currentAccuracy + ADAPTIVE_STEP;
+  let best = -1;
+  let bestDistance = Infinity;
+  reserve.forEach((r, i) => {
+    const accuracy = r.question.accuracy ?? DEFAULT_ACCURACY;
+    if (shift === "harder" ? accuracy >= currentAccuracy : accuracy <= currentAccuracy) return;
+    const distance = Math.abs(accuracy - target);
+    if (distance < bestDistance) {
+      best = i;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
 export default function QuizPage() {
   const trip = useTrip();
   const { toast } = useToast();
@@ -72,11 +99,19 @@ export default function QuizPage() {
   const [scorePop, setScorePop] = useState(0);
   const [shakeKey, setShakeKey] = useState(0);
   const [correctKey, setCorrectKey] = useState(0);
+  const [adaptiveShift, setAdaptiveShift] = useState<AdaptiveShift | null>(null);
 
   const question = trip.questions[trip.currentQuestionIndex];
   const progress = ((trip.currentQuestionIndex + 1) / trip.questions.length) * 100;
   const isLastQuestion = trip.currentQuestionIndex === trip.questions.length - 1;
 
+  // A resumed quiz may reopen on a question that was already answered.
+  useEffect(() => {
+    const answered = trip.userAnswers[trip.currentQuestionIndex] ?? null;
+    setSelectedAnswer(answered);
+    setShowResult(answered !== null);
+  }, [trip.currentQuestionIndex, !!question]);
+
   const handleAnswer = useCallback(
     (index: number) => {
       if (showResult) return;
@@ -99,15 +134,46 @@ export default function QuizPage() {
     [showResult, question, trip]
   );
 
+  // Adaptive quizzes swap the next question for a harder one after a streak
+  // and an easier one after a miss, drawing from the server's reserve.
+  const adaptNextQuestion = useCallback(
+    (nextIndex: number) => {
+      const wasCorrect = selectedAnswer === question.correctIndex;
+      const shift: AdaptiveShift | null = !wasCorrect ? "easier" : streak >= 2 ? "harder" : null;
+      const upcoming = trip.questions[nextIndex];
+      const replacementIndex = shift && upcoming ? pickReplacement(upcoming, trip.questionReserve, shift) : -1;
+      if (replacementIndex === -1) {
+        setAdaptiveShift(null);
+        return;
+      }
+
+      const replacement = trip.questionReserve[replacementIndex];
+      const questions = [...trip.questions];
+      const questionIds = [...trip.questionIds];
+      const reserve = [...trip.questionReserve];
+      reserve[replacementIndex] = { question: upcoming, questionId: questionIds[nextIndex] ?? "" };
+      questions[nextIndex] = replacement.question;
+      questionIds[nextIndex] = replacement.questionId;
+      trip.setQuestions(questions);
+      trip.setQuestionIds(questionIds);
+      trip.setQuestionReserve(reserve);
+      setAdaptiveShift(shift);
+    },
+    [selectedAnswer, question, streak, trip]
+  );
+
   const handleNext = useCallback(() => {
     if (isLastQuestion) {
       trip.setScreen("quiz-results");
     } else {
+      if (trip.difficulty === "adaptive" && trip.questionReserve.length > 0) {
+        adaptNextQuestion(trip.currentQuestionIndex + 1);
+      }
       trip.setCurrentQuestionIndex(trip.currentQuestionIndex + 1);
       setSelectedAnswer(null);
       setShowResult(false);
     }
-  }, [isLastQuestion, trip]);
+  }, [isLastQuestion, trip, adaptNextQuestion]);
 
   const handleContinueToSuggestions = useCallback(async () => {
     setIsLoadingSuggestions(true);
@@ -152,6 +218,16 @@ export default function QuizPage() {
                     <span className="text-xs font-bold text-orange-600 dark:text-orange-400">{streak}</span>
                   </motion.div>
                 )}
+                {adaptiveShift && (
+                  <Badge variant="outline" className="text-xs gap-1" data-testid="badge-adaptive-shift">
+                    {adaptiveShift === "harder" ? (
+                      <TrendingUp className="w-3 h-3" />
+                    ) : (
+                      <TrendingDown className="w-3 h-3" />
+                    )}
+                    {adaptiveShift === "harder" ? "Harder" : "Easier"}
+                  </Badge>
+                )}
               </div>
               <motion.div
                 key={scorePop}
@@ -307,6 +383,28 @@ function QuizResults({
   const percentage = Math.round((trip.score / trip.questions.length) * 100);
   const [showConfetti, setShowConfetti] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const attemptSubmittedRef = useRef(false);
+
+  const recordAttempt = useCallback(
+    async (tripId: number) => {
+      if (attemptSubmittedRef.current || trip.quizAttemptRecorded) return;
+      attemptSubmittedRef.current = true;
+      try {
+        await submitQuizAttempt(tripId, trip);
+        trip.setQuizAttemptRecorded(true);
+      } catch (err) {
+        attemptSubmittedRef.current = false;
+        console.error("Saving quiz attempt failed:", err);
+      }
+    },
+    [trip]
+  );
+
+  // Quizzes started from a saved trip ("Continue Trivia") are recorded right away
+  // (once the quiz is there: a reload shows this screen before its draft is back).
+  useEffect(() => {
+    if (trip.activeTripId && trip.questions.length > 0) recordAttempt(trip.activeTripId);
+  }, [trip.questions.length > 0]);
 
   useEffect(() => {
     if (percentage >= 60) {
@@ -350,6 +448,7 @@ function QuizResults({
       headers: {
         "Content-Type": "application/json",
       },
+      credentials: "include",
       body: JSON.stringify({
         city: trip.city,
         cityLabel: trip.cityLabel,
@@ -364,6 +463,14 @@ function QuizResults({
 
     const data = await res.json().catch(() => null);
 
+    if (res.status === 401) {
+      toast({
+        title: "Sign in to save trips",
+        description: "Open your profile to sign in or create an account.",
+      });
+      return;
+    }
+
     // ✅ First: handle HTTP errors properly
     if (!res.ok) {
       console.error("Save trip failed:", res.status, data);
@@ -387,6 +494,7 @@ function QuizResults({
     }
 
     trip.setActiveTripId(data.id);
+    await recordAttempt(data.id);
     toast({ title: "Trip saved!" });
   } catch (err) {
     console.error("Save trip request error:", err);
@@ -394,7 +502,7 @@ function QuizResults({
   } finally {
     setIsSaving(false);
   }
-}, [trip, toast]);
+}, [trip, toast, recordAttempt]);
 
   const scoreCircleSize = 140;
   const strokeWidth = 8;
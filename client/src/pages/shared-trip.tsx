@@ -0,0 +1,207 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { useTrip } from "@/lib/tripContext";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth, getAuthErrorMessage } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ThemeToggle } from "@/components/theme-provider";
+import type { SharedTrip, Trip } from "@shared/schema";
+import {
+  estimateVisitMinutes,
+  formatHoursOnWeekday,
+  formatVisitDuration,
+  tripDayDate,
+} from "@shared/itineraryChecks";
+import { ArrowLeft, MapPin, Calendar, Clock, Lightbulb, Copy, Loader2, Eye, Link2Off } from "lucide-react";
+
+export default function SharedTripPage() {
+  const trip = useTrip();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { token } = useParams<{ token: string }>();
+
+  const { data: shared, isLoading, error } = useQuery<SharedTrip>({
+    queryKey: ["/api/shared", token],
+    enabled: !!token,
+    retry: false,
+  });
+
+  const leave = (screen: "home" | "profile" | "trip-detail") => {
+    if (screen !== "profile") trip.setSharedToken(null);
+    trip.setScreen(screen);
+  };
+
+  const copyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/shared/${token}/copy`);
+      return (await res.json()) as Trip;
+    },
+    onSuccess: (copy) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
+      toast({ title: "Trip copied", description: "It's now in your trips and yours to edit." });
+      trip.setActiveTripId(copy.id);
+      leave("trip-detail");
+    },
+    onError: (err) => {
+      toast({ title: "Couldn't copy trip", description: getAuthErrorMessage(err), variant: "destructive" });
+    },
+  });
+
+  const spots = shared?.spots || [];
+  const dayCount = Math.max(shared?.dayCount ?? 1, ...spots.map((s) => s.dayIndex + 1));
+  const days = Array.from({ length: dayCount }, (_, day) => ({
+    day,
+    date: tripDayDate(shared?.startDate, day),
+    spots: spots.filter((s) => s.dayIndex === day),
+  })).filter((d) => d.spots.length > 0);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 bg-background/80 backdrop-blur-md border-b p-4">
+        <div className="flex items-center justify-between gap-2 max-w-lg mx-auto">
+          <div className="flex items-center gap-2">
+            <Button size="icon" variant="ghost" onClick={() => leave("home")} data-testid="button-shared-back">
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <div>
+              <h1 className="text-sm font-bold" data-testid="text-shared-city">
+                {shared ? shared.cityLabel || shared.city : "Shared trip"}
+              </h1>
+              <p className="text-xs text-muted-foreground flex items-center gap-1">
+                <Eye className="w-3 h-3" />
+                Read-only
+              </p>
+            </div>
+          </div>
+          <ThemeToggle />
+        </div>
+      </header>
+
+      <main className="px-4 py-4 max-w-lg mx-auto pb-8">
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-10 w-full" />
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-24 w-full" />
+            ))}
+          </div>
+        ) : !shared ? (
+          <div className="flex flex-col items-center justify-center py-16 text-center" data-testid="shared-trip-unavailable">
+            <div className="w-14 h-14 rounded-full bg-muted flex items-center justify-center mb-3">
+              <Link2Off className="w-7 h-7 text-muted-foreground" />
+            </div>
+            <h3 className="text-base font-semibold mb-1">This link doesn't work</h3>
+            <p className="text-sm text-muted-foreground mb-4">
+              {error ? getAuthErrorMessage(error) : "The share link is missing."} Ask for a new one.
+            </p>
+            <Button onClick={() => leave("home")}>Plan your own trip</Button>
+          </div>
+        ) : (
+          <>
+            <div className="mb-4 space-y-3">
+              <div className="flex items-center gap-2 flex-wrap">
+                <Badge variant="secondary" className="gap-1">
+                  <Calendar className="w-3 h-3" />
+                  {shared.dayCount} day{shared.dayCount !== 1 ? "s" : ""}
+                </Badge>
+                <Badge variant="outline">
+                  {spots.length} spot{spots.length !== 1 ? "s" : ""}
+                </Badge>
+                {shared.hotelLocation && (
+                  <Badge variant="outline" className="gap-1">
+                    <MapPin className="w-3 h-3" />
+                    {shared.hotelLocation}
+                  </Badge>
+                )}
+              </div>
+
+              {user ? (
+                <Button
+                  className="w-full gap-2"
+                  onClick={() => copyMutation.mutate()}
+                  disabled={copyMutation.isPending}
+                  data-testid="button-copy-shared-trip"
+                >
+                  {copyMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Copy className="w-4 h-4" />}
+                  Copy into my trips
+                </Button>
+              ) : (
+                <Card className="p-3 flex items-center justify-between gap-2">
+                  <p className="text-xs text-muted-foreground">Sign in to copy this trip into your own trips.</p>
+                  <Button size="sm" variant="outline" onClick={() => leave("profile")} data-testid="button-shared-sign-in">
+                    Sign in
+                  </Button>
+                </Card>
+              )}
+            </div>
+
+            <div className="space-y-5">
+              {days.map(({ day, date, spots: daySpots }) => (
+                <section key={day} className="space-y-3" data-testid={`section-shared-day-${day}`}>
+                  <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
+                    {dayCount > 1 ? `Day ${day + 1}` : "Itinerary"}
+                    {date && (
+                      <span className="ml-2 normal-case font-normal">
+                        {date.toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" })}
+                      </span>
+                    )}
+                  </h2>
+                  {daySpots.map((spot, index) => {
+                    const hours = date ? formatHoursOnWeekday(spot.openingHours, date.getDay()) : null;
+                    return (
+                      <Card key={spot.id} className="p-4" data-testid={`card-shared-spot-${spot.id}`}>
+                        <div className="flex items-start gap-3">
+                          <div className="flex items-center justify-center w-7 h-7 rounded-full bg-primary text-primary-foreground text-xs font-bold shrink-0">
+                            {index + 1}
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <h3 className="text-sm font-semibold mb-1">{spot.title}</h3>
+                            <p className="text-xs text-muted-foreground mb-1.5">{spot.description}</p>
+                            <div className="flex items-center gap-2 flex-wrap">
+                              <Badge variant="secondary" className="text-xs">
+                                {spot.category}
+                              </Badge>
+                              {spot.timeSlot && (
+                                <Badge variant="outline" className="text-xs capitalize">
+                                  {spot.timeSlot}
+                                </Badge>
+                              )}
+                              <span className="text-xs text-muted-foreground flex items-center gap-1">
+                                <Clock className="w-3 h-3" />
+                                ~{formatVisitDuration(spot.visitMinutes ?? estimateVisitMinutes(spot.category))}
+                                {hours && ` · ${hours === "Closed" ? "Closed this day" : `Open ${hours}`}`}
+                              </span>
+                              {spot.address && (
+                                <span className="text-xs text-muted-foreground flex items-center gap-1">
+                                  <MapPin className="w-3 h-3" />
+                                  <span className="truncate max-w-[150px]">{spot.address}</span>
+                                </span>
+                              )}
+                            </div>
+                            {spot.funFact && (
+                              <div className="flex items-start gap-1 mt-2 p-1.5 rounded-md bg-chart-2/5">
+                                <Lightbulb className="w-3 h-3 text-chart-2 shrink-0 mt-0.5" />
+                                <p className="text-xs text-foreground/70">{spot.funFact}</p>
+                              </div>
+                            )}
+                          </div>
+                        </div>
+                      </Card>
+                    );
+                  })}
+                </section>
+              ))}
+              {days.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-8">No spots in this trip yet.</p>
+              )}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
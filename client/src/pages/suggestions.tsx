@@ -1,5 +1,5 @@
 import { useState, useCallback, useMemo, useEffect, useRef } from "react";
-import { useTrip } from "@/lib/tripContext";
+import { useTrip, itineraryItemFromSuggestion } from "@/lib/tripContext";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -7,8 +7,8 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useDistanceCalculator } from "@/hooks/use-distance-calculator";
-import type { Suggestion } from "@shared/schema";
-import type { ItineraryItem } from "@/lib/tripContext";
+import { SuggestionFilterBar } from "@/components/suggestion-filters";
+import type { Suggestion, SuggestionFilters, SuggestionSource } from "@shared/schema";
 import {
   ArrowLeft,
   Plus,
@@ -26,6 +26,8 @@ import {
   Music,
   Star,
   Navigation,
+  SearchX,
+  Map as MapIcon,
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 
@@ -80,6 +82,14 @@ function getCategoryColor(category: string): string {
   return "bg-muted text-muted-foreground";
 }
 
+const SOURCE_LABELS: Record<SuggestionSource, string> = {
+  google: "Google Places",
+  osm: "OpenStreetMap",
+  fixture: "Sample data",
+  ai: "AI suggestion",
+  curated: "Curated pick",
+};
+
 async function enrichPool<T>(
   items: T[],
   fn: (item: T) => Promise<void>,
@@ -100,6 +110,7 @@ export default function SuggestionsPage() {
   const { toast } = useToast();
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [loadMoreDisabled, setLoadMoreDisabled] = useState(false);
+  const [isFiltering, setIsFiltering] = useState(false);
   const enrichingRef = useRef(new Set<string>());
   const { getDistance, requestDistance, hasHotel } = useDistanceCalculator(
     trip.hotelLocation,
@@ -137,7 +148,7 @@ export default function SuggestionsPage() {
         if (s.placeId) enrichingRef.current.delete(s.placeId);
       }
     }, 2);
-  }, [trip.suggestions.length]);
+  }, [trip.suggestions]);
 
   const existingTitles = useMemo(
     () => new Set(trip.suggestions.map((s) => s.title.toLowerCase())),
@@ -154,6 +165,7 @@ export default function SuggestionsPage() {
         hotelLocation: trip.hotelLocation || undefined,
         exclude: trip.suggestions.map((s) => s.title),
         excludePlaceIds: trip.suggestions.map((s) => s.placeId).filter(Boolean),
+        filters: trip.suggestionFilters,
       });
       const data = await res.json();
       const newSuggestions = (data.suggestions as Suggestion[]).filter(
@@ -176,18 +188,35 @@ export default function SuggestionsPage() {
     }
   }, [trip, toast, isLoadingMore, loadMoreDisabled, existingTitles]);
 
+  const handleFiltersChange = useCallback(async (next: SuggestionFilters) => {
+    trip.setSuggestionFilters(next);
+    setIsFiltering(true);
+
+    try {
+      const res = await apiRequest("POST", "/api/suggestions/generate", {
+        city: trip.city,
+        hotelLocation: trip.hotelLocation || undefined,
+        exclude: [],
+        excludePlaceIds: [],
+        filters: next,
+      });
+      const data = await res.json();
+      trip.setSuggestions(data.suggestions as Suggestion[]);
+      setLoadMoreDisabled(false);
+    } catch (err: any) {
+      toast({
+        title: "Couldn't apply filters",
+        description: err.message || "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setIsFiltering(false);
+    }
+  }, [trip, toast]);
+
   const handleAddToItinerary = useCallback(
     (suggestion: Suggestion) => {
-      const item: ItineraryItem = {
-        id: crypto.randomUUID(),
-        title: suggestion.title,
-        description: suggestion.description,
-        category: suggestion.category,
-        funFact: suggestion.funFact,
-        address: suggestion.address,
-        imageUrl: suggestion.imageUrl,
-      };
-      trip.addToItinerary(item);
+      trip.addToItinerary(itineraryItemFromSuggestion(suggestion));
     },
     [trip]
   );
@@ -213,24 +242,60 @@ export default function SuggestionsPage() {
             </div>
           </div>
 
-          {trip.itinerary.length > 0 && (
+          <div className="flex items-center gap-1">
             <Button
-              size="sm"
-              className="gap-1"
-              onClick={() => trip.setScreen("itinerary")}
-              data-testid="button-go-itinerary"
+              size="icon"
+              variant="ghost"
+              onClick={() => trip.setScreen("map")}
+              disabled={trip.suggestions.length === 0 && trip.itinerary.length === 0}
+              data-testid="button-suggestions-map"
             >
-              Itinerary
-              <Badge variant="secondary" className="ml-1 text-xs">
-                {trip.itinerary.length}
-              </Badge>
-              <ChevronRight className="w-3 h-3" />
+              <MapIcon className="w-4 h-4" />
             </Button>
-          )}
+            {trip.itinerary.length > 0 && (
+              <Button
+                size="sm"
+                className="gap-1"
+                onClick={() => trip.setScreen("itinerary")}
+                data-testid="button-go-itinerary"
+              >
+                Itinerary
+                <Badge variant="secondary" className="ml-1 text-xs">
+                  {trip.itinerary.length}
+                </Badge>
+                <ChevronRight className="w-3 h-3" />
+              </Button>
+            )}
+          </div>
         </div>
       </header>
 
       <main className="px-4 py-4 max-w-lg mx-auto pb-24">
+        <SuggestionFilterBar
+          filters={trip.suggestionFilters}
+          onChange={handleFiltersChange}
+          hasHotel={!!trip.hotelLocation}
+          disabled={isFiltering}
+        />
+
+        {isFiltering && (
+          <div className="flex items-center justify-center gap-2 py-6 text-sm text-muted-foreground" data-testid="status-filtering">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Finding matching spots...
+          </div>
+        )}
+
+        {!isFiltering && trip.suggestions.length === 0 && Object.values(trip.suggestionFilters).some((v) => v !== undefined) && (
+          <Card className="p-6 text-center" data-testid="empty-filtered-suggestions">
+            <SearchX className="w-8 h-8 text-muted-foreground mx-auto mb-2" />
+            <p className="text-sm font-medium mb-1">No spots match these filters</p>
+            <p className="text-xs text-muted-foreground mb-3">Try removing a filter or widening the distance.</p>
+            <Button size="sm" variant="outline" onClick={() => handleFiltersChange({})} data-testid="button-empty-clear-filters">
+              Clear filters
+            </Button>
+          </Card>
+        )}
+
         <AnimatePresence>
           {trip.suggestions.map((suggestion, index) => {
             const isAdded = trip.addedSuggestionTitles.has(suggestion.title);
@@ -270,6 +335,15 @@ export default function SuggestionsPage() {
                         </p>
                       )}
 
+                      {suggestion.source && (
+                        <p
+                          className="text-xs text-muted-foreground/80 mb-1"
+                          data-testid={`text-suggestion-source-${index}`}
+                        >
+                          via {SOURCE_LABELS[suggestion.source]}
+                        </p>
+                      )}
+
                       {suggestion.address && (
                         <div className="flex items-center gap-1 text-xs text-muted-foreground mb-2">
                           <MapPin className="w-3 h-3" />
@@ -346,7 +420,7 @@ export default function SuggestionsPage() {
             variant="outline"
             className="w-full gap-2"
             onClick={handleLoadMore}
-            disabled={isLoadingMore || loadMoreDisabled}
+            disabled={isLoadingMore || loadMoreDisabled || isFiltering}
             data-testid="button-load-more"
           >
             {isLoadingMore ? (
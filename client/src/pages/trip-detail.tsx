@@ -1,14 +1,30 @@
 import { useCallback, useState } from "react";
 import { useTrip } from "@/lib/tripContext";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { useParams } from "wouter";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ThemeToggle } from "@/components/theme-provider";
+import { QuizHistory } from "@/components/quiz-history";
+import { DayIssueList } from "@/components/day-issues";
+import { TripExportMenu } from "@/components/trip-export-menu";
+import { TripShareDialog } from "@/components/trip-share-dialog";
+import { TripMembersDialog } from "@/components/trip-members-dialog";
+import { TripViewers } from "@/components/trip-viewers";
 import { useToast } from "@/hooks/use-toast";
-import type { Trip, TripSpot } from "@shared/schema";
+import { useDayCapacity } from "@/hooks/use-day-capacity";
+import { useTripSync } from "@/hooks/use-trip-sync";
+import type { Trip, TripRole, TripSpot } from "@shared/schema";
+import {
+  checkItineraryDay,
+  estimateVisitMinutes,
+  formatHoursOnWeekday,
+  formatVisitDuration,
+  tripDayDate,
+} from "@shared/itineraryChecks";
 import {
   ArrowLeft,
   MapPin,
@@ -20,35 +36,55 @@ import {
   Plus,
   Lightbulb,
   Loader2,
+  Clock,
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 
 interface TripWithSpots extends Trip {
   spots: TripSpot[];
+  role: TripRole;
+}
+
+function SpotHours({ spot, date }: { spot: TripSpot; date: Date | null }) {
+  const hours = date ? formatHoursOnWeekday(spot.openingHours, date.getDay()) : null;
+  if (!hours) return null;
+  return (
+    <span className={hours === "Closed" ? "text-destructive" : ""} data-testid={`text-spot-hours-${spot.id}`}>
+      · {hours === "Closed" ? "Closed this day" : `Open ${hours}`}
+    </span>
+  );
 }
 
 export default function TripDetailPage() {
   const trip = useTrip();
+  // From the URL, so Back/Forward between trips never shows the previous one.
+  const tripId = Number(useParams<{ id: string }>().id);
   const { toast } = useToast();
   const [deletingSpotId, setDeletingSpotId] = useState<number | null>(null);
+  const dayCapacity = useDayCapacity();
 
   const { data: tripData, isLoading } = useQuery<TripWithSpots>({
-    queryKey: ["/api/trips", trip.activeTripId],
+    queryKey: ["/api/trips", tripId],
     queryFn: async () => {
-      const res = await fetch(`/api/trips/${trip.activeTripId}`);
-      if (!res.ok) throw new Error("Failed to load trip");
+      const res = await apiRequest("GET", `/api/trips/${tripId}`);
       return res.json();
     },
-    enabled: !!trip.activeTripId,
+    enabled: !!tripId,
+  });
+
+  const { viewers } = useTripSync(tripId, (message) => {
+    queryClient.setQueryData<TripWithSpots>(["/api/trips", tripId], (old) =>
+      old && message.version >= old.spotsVersion ? { ...old, spots: message.spots, spotsVersion: message.version } : old
+    );
   });
 
   const deleteSpotMutation = useMutation({
     mutationFn: async (spotId: number) => {
       setDeletingSpotId(spotId);
-      await apiRequest("DELETE", `/api/trips/${trip.activeTripId}/spots/${spotId}`);
+      await apiRequest("DELETE", `/api/trips/${tripId}/spots/${spotId}`);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/trips", trip.activeTripId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trips", tripId] });
       queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
       toast({ title: "Spot removed" });
     },
@@ -62,24 +98,7 @@ export default function TripDetailPage() {
 
   const handleContinueTrivia = useCallback(() => {
     if (!tripData) return;
-    trip.setCity(tripData.city);
-    trip.setCityLabel(tripData.cityLabel || "");
-    trip.setCityPlaceId(tripData.cityPlaceId || "");
-    trip.setMode("quiz");
-    trip.setDifficulty((tripData.difficulty as "standard" | "challenge") || "standard");
-    trip.setHotelLocation(tripData.hotelLocation || "");
-    trip.setActiveTripId(tripData.id);
-
-    const existingItems = (tripData.spots || []).map((s) => ({
-      id: `saved-${s.id}`,
-      title: s.title,
-      description: s.description,
-      category: s.category,
-      funFact: s.funFact || undefined,
-      address: s.address || undefined,
-      imageUrl: s.imageUrl || undefined,
-    }));
-    trip.setItinerary(existingItems);
+    trip.loadSavedTrip(tripData, "quiz");
     trip.setLoadingMessage(`Generating trivia about ${tripData.cityLabel || tripData.city}...`);
     trip.triggerFetch();
     trip.setScreen("loading");
@@ -87,29 +106,20 @@ export default function TripDetailPage() {
 
   const handleAddMoreSpots = useCallback(() => {
     if (!tripData) return;
-    trip.setCity(tripData.city);
-    trip.setCityLabel(tripData.cityLabel || "");
-    trip.setCityPlaceId(tripData.cityPlaceId || "");
-    trip.setMode("planning");
-    trip.setHotelLocation(tripData.hotelLocation || "");
-    trip.setActiveTripId(tripData.id);
-
-    const existingItems = (tripData.spots || []).map((s) => ({
-      id: `saved-${s.id}`,
-      title: s.title,
-      description: s.description,
-      category: s.category,
-      funFact: s.funFact || undefined,
-      address: s.address || undefined,
-      imageUrl: s.imageUrl || undefined,
-    }));
-    trip.setItinerary(existingItems);
+    trip.loadSavedTrip(tripData, "planning");
     trip.setLoadingMessage(`Finding more spots in ${tripData.city}...`);
     trip.triggerFetch();
     trip.setScreen("loading");
   }, [tripData, trip]);
 
   const spots = tripData?.spots || [];
+  const canEdit = tripData?.role !== "viewer";
+  const dayCount = Math.max(tripData?.dayCount ?? 1, ...spots.map((s) => s.dayIndex + 1));
+  const spotsByDay = Array.from({ length: dayCount }, (_, day) => {
+    const daySpots = spots.filter((s) => s.dayIndex === day);
+    const date = tripDayDate(tripData?.startDate, day);
+    return { day, date, spots: daySpots, issues: checkItineraryDay(daySpots, date, dayCapacity) };
+  });
 
   return (
     <div className="min-h-screen bg-background">
@@ -180,27 +190,52 @@ export default function TripDetailPage() {
                   <Calendar className="w-3 h-3" />
                   {new Date(tripData.createdAt).toLocaleDateString()}
                 </Badge>
+                {tripData.role !== "owner" && (
+                  <Badge variant="outline" className="text-xs" data-testid="badge-trip-role">
+                    Shared with you · {tripData.role === "editor" ? "can edit" : "view only"}
+                  </Badge>
+                )}
               </div>
+              <TripViewers viewers={viewers} />
 
+              {canEdit && (
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    className="flex-1 gap-2"
+                    onClick={handleContinueTrivia}
+                    data-testid="button-continue-trivia"
+                  >
+                    <Brain className="w-4 h-4" />
+                    Continue Trivia
+                  </Button>
+                  <Button
+                    variant="outline"
+                    className="flex-1 gap-2"
+                    onClick={handleAddMoreSpots}
+                    data-testid="button-add-more-spots"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add More Spots
+                  </Button>
+                </div>
+              )}
+              {spots.length > 0 && (
+                <TripExportMenu
+                  tripId={tripData.id}
+                  title={`${tripData.cityLabel || tripData.city} trip`}
+                  hasQuiz={tripData.score != null}
+                />
+              )}
               <div className="flex gap-2">
-                <Button
-                  variant="outline"
-                  className="flex-1 gap-2"
-                  onClick={handleContinueTrivia}
-                  data-testid="button-continue-trivia"
-                >
-                  <Brain className="w-4 h-4" />
-                  Continue Trivia
-                </Button>
-                <Button
-                  variant="outline"
-                  className="flex-1 gap-2"
-                  onClick={handleAddMoreSpots}
-                  data-testid="button-add-more-spots"
-                >
-                  <Plus className="w-4 h-4" />
-                  Add More Spots
-                </Button>
+                <TripMembersDialog
+                  tripId={tripData.id}
+                  onLeft={() => {
+                    trip.setActiveTripId(null);
+                    trip.setScreen("profile");
+                  }}
+                />
+                {tripData.role === "owner" && <TripShareDialog tripId={tripData.id} />}
               </div>
             </div>
 
@@ -220,71 +255,98 @@ export default function TripDetailPage() {
               </div>
             ) : (
               <div className="space-y-3">
-                <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
-                  Itinerary
-                </h2>
-                <AnimatePresence>
-                  {spots.map((spot, index) => (
-                    <motion.div
-                      key={spot.id}
-                      initial={{ opacity: 0, y: 10 }}
-                      animate={{ opacity: 1, y: 0 }}
-                      exit={{ opacity: 0, y: -10 }}
-                      transition={{ delay: index * 0.04 }}
-                    >
-                      <Card className="p-4" data-testid={`card-spot-${spot.id}`}>
-                        <div className="flex items-start gap-3">
-                          <div className="flex items-center justify-center w-7 h-7 rounded-full bg-primary text-primary-foreground text-xs font-bold shrink-0">
-                            {index + 1}
-                          </div>
-                          <div className="flex-1 min-w-0">
-                            <div className="flex items-start justify-between gap-2">
-                              <h3 className="text-sm font-semibold" data-testid={`text-spot-title-${spot.id}`}>
-                                {spot.title}
-                              </h3>
-                              <Button
-                                size="icon"
-                                variant="ghost"
-                                className="shrink-0 text-muted-foreground"
-                                onClick={() => deleteSpotMutation.mutate(spot.id)}
-                                disabled={deletingSpotId === spot.id}
-                                data-testid={`button-delete-spot-${spot.id}`}
-                              >
-                                {deletingSpotId === spot.id ? (
-                                  <Loader2 className="w-3.5 h-3.5 animate-spin" />
-                                ) : (
-                                  <Trash2 className="w-3.5 h-3.5" />
+                {spotsByDay.map(({ day, date, spots: daySpots, issues }) => (
+                  <div key={day} className="space-y-3" data-testid={`section-trip-day-${day}`}>
+                    <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
+                      {spotsByDay.length > 1 ? `Day ${day + 1}` : "Itinerary"}
+                      {date && (
+                        <span className="ml-2 normal-case font-normal">
+                          {date.toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" })}
+                        </span>
+                      )}
+                    </h2>
+                    <DayIssueList day={day} issues={issues} />
+                    {daySpots.length === 0 && (
+                      <p className="text-xs text-muted-foreground">No spots planned for this day.</p>
+                    )}
+                    <AnimatePresence>
+                      {daySpots.map((spot, index) => (
+                        <motion.div
+                          key={spot.id}
+                          initial={{ opacity: 0, y: 10 }}
+                          animate={{ opacity: 1, y: 0 }}
+                          exit={{ opacity: 0, y: -10 }}
+                          transition={{ delay: index * 0.04 }}
+                        >
+                          <Card className="p-4" data-testid={`card-spot-${spot.id}`}>
+                            <div className="flex items-start gap-3">
+                              <div className="flex items-center justify-center w-7 h-7 rounded-full bg-primary text-primary-foreground text-xs font-bold shrink-0">
+                                {index + 1}
+                              </div>
+                              <div className="flex-1 min-w-0">
+                                <div className="flex items-start justify-between gap-2">
+                                  <h3 className="text-sm font-semibold" data-testid={`text-spot-title-${spot.id}`}>
+                                    {spot.title}
+                                  </h3>
+                                  {canEdit && (
+                                    <Button
+                                      size="icon"
+                                      variant="ghost"
+                                      className="shrink-0 text-muted-foreground"
+                                      onClick={() => deleteSpotMutation.mutate(spot.id)}
+                                      disabled={deletingSpotId === spot.id}
+                                      data-testid={`button-delete-spot-${spot.id}`}
+                                    >
+                                      {deletingSpotId === spot.id ? (
+                                        <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                                      ) : (
+                                        <Trash2 className="w-3.5 h-3.5" />
+                                      )}
+                                    </Button>
+                                  )}
+                                </div>
+                                <p className="text-xs text-muted-foreground mb-1.5 line-clamp-2">
+                                  {spot.description}
+                                </p>
+                                <div className="flex items-center gap-2 flex-wrap">
+                                  <Badge variant="secondary" className="text-xs">
+                                    {spot.category}
+                                  </Badge>
+                                  {spot.timeSlot && (
+                                    <Badge variant="outline" className="text-xs capitalize">
+                                      {spot.timeSlot}
+                                    </Badge>
+                                  )}
+                                  <span className="text-xs text-muted-foreground flex items-center gap-1">
+                                    <Clock className="w-3 h-3" />
+                                    ~{formatVisitDuration(spot.visitMinutes ?? estimateVisitMinutes(spot.category))}
+                                    <SpotHours spot={spot} date={date} />
+                                  </span>
+                                  {spot.address && (
+                                    <span className="text-xs text-muted-foreground flex items-center gap-1">
+                                      <MapPin className="w-3 h-3" />
+                                      <span className="truncate max-w-[150px]">{spot.address}</span>
+                                    </span>
+                                  )}
+                                </div>
+                                {spot.funFact && (
+                                  <div className="flex items-start gap-1 mt-2 p-1.5 rounded-md bg-chart-2/5">
+                                    <Lightbulb className="w-3 h-3 text-chart-2 shrink-0 mt-0.5" />
+                                    <p className="text-xs text-foreground/70">{spot.funFact}</p>
+                                  </div>
                                 )}
-                              </Button>
-                            </div>
-                            <p className="text-xs text-muted-foreground mb-1.5 line-clamp-2">
-                              {spot.description}
-                            </p>
-                            <div className="flex items-center gap-2 flex-wrap">
-                              <Badge variant="secondary" className="text-xs">
-                                {spot.category}
-                              </Badge>
-                              {spot.address && (
-                                <span className="text-xs text-muted-foreground flex items-center gap-1">
-                                  <MapPin className="w-3 h-3" />
-                                  <span className="truncate max-w-[150px]">{spot.address}</span>
-                                </span>
-                              )}
-                            </div>
-                            {spot.funFact && (
-                              <div className="flex items-start gap-1 mt-2 p-1.5 rounded-md bg-chart-2/5">
-                                <Lightbulb className="w-3 h-3 text-chart-2 shrink-0 mt-0.5" />
-                                <p className="text-xs text-foreground/70">{spot.funFact}</p>
                               </div>
-                            )}
-                          </div>
-                        </div>
-                      </Card>
-                    </motion.div>
-                  ))}
-                </AnimatePresence>
+                            </div>
+                          </Card>
+                        </motion.div>
+                      ))}
+                    </AnimatePresence>
+                  </div>
+                ))}
               </div>
             )}
+
+            <QuizHistory tripId={tripData.id} />
           </>
         )}
       </main>
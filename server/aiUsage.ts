@@ -0,0 +1,161 @@
+import { storage } from "./storage";
+import type { LlmTask, LlmUsage } from "./llm";
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface AiBudgets {
+  /** Tokens per UTC day across every client; 0 = unlimited. */
+  dailyTokens: number;
+  /** Tokens per UTC day for one user or IP; 0 = unlimited. */
+  clientDailyTokens: number;
+}
+
+/** AI_DAILY_TOKEN_BUDGET and AI_CLIENT_DAILY_TOKEN_BUDGET override the defaults. */
+function budgetsFromEnv(): AiBudgets {
+  const read = (name: string, fallback: number) => {
+    const value = parseInt(process.env[name] || "", 10);
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+  return {
+    dailyTokens: read("AI_DAILY_TOKEN_BUDGET", 2_000_000),
+    clientDailyTokens: read("AI_CLIENT_DAILY_TOKEN_BUDGET", 60_000),
+  };
+}
+
+let budgets = budgetsFromEnv();
+
+export function getAiBudgets(): AiBudgets {
+  return budgets;
+}
+
+/** Replaces the budgets, e.g. with tiny ones in tests. */
+export function setAiBudgets(next: AiBudgets) {
+  budgets = next;
+}
+
+export class AiBudgetExceededError extends Error {
+  constructor(readonly scope: "daily" | "client") {
+    super(scope === "daily" ? "Daily AI budget used up" : "Daily AI budget for this client used up");
+    this.name = "AiBudgetExceededError";
+  }
+}
+
+// AI calls made outside a request are billed here; requests use clientKey (server/rateLimits.ts).
+export const SERVER_CLIENT = "server";
+
+const utcDay = (date = new Date()) => date.toISOString().slice(0, 10);
+
+// Today's totals per "client|task". Loaded from the ai_usage table when the day
+// starts (or the server does) so a restart doesn't hand out a fresh budget;
+// without a database the counters simply live in memory.
+let current: { day: string; totals: Map<string, UsageTotals>; loaded: Promise<void> } | null = null;
+
+function today() {
+  const day = utcDay();
+  if (current?.day !== day) {
+    const totals = new Map<string, UsageTotals>();
+    const loaded = storage
+      .getAiUsage(day)
+      .then((rows) => {
+        for (const row of rows) addTo(totals, `${row.clientKey}|${row.task}`, row);
+      })
+      .catch((err) => console.error("AI usage load error:", err));
+    current = { day, totals, loaded };
+  }
+  return current;
+}
+
+function addTo(totals: Map<string, UsageTotals>, key: string, usage: UsageTotals) {
+  const entry = totals.get(key) ?? { requests: 0, promptTokens: 0, completionTokens: 0 };
+  entry.requests += usage.requests;
+  entry.promptTokens += usage.promptTokens;
+  entry.completionTokens += usage.completionTokens;
+  totals.set(key, entry);
+}
+
+const tokensOf = (t: UsageTotals) => t.promptTokens + t.completionTokens;
+
+/**
+ * Throws AiBudgetExceededError when today's tokens have reached the daily or
+ * the client's budget. Checked before each call, so the call that crosses a
+ * budget still completes.
+ */
+export async function assertAiBudget(client: string): Promise<void> {
+  const { totals, loaded } = today();
+  await loaded;
+  let all = 0;
+  let mine = 0;
+  for (const [key, t] of Array.from(totals.entries())) {
+    all += tokensOf(t);
+    if (key.startsWith(`${client}|`)) mine += tokensOf(t);
+  }
+  if (budgets.dailyTokens > 0 && all >= budgets.dailyTokens) throw new AiBudgetExceededError("daily");
+  if (client !== SERVER_CLIENT && budgets.clientDailyTokens > 0 && mine >= budgets.clientDailyTokens) {
+    throw new AiBudgetExceededError("client");
+  }
+}
+
+/** Counts one AI call against today's budgets; providers without usage figures count as 0 tokens. */
+export async function recordAiUsage(client: string, task: LlmTask, usage: LlmUsage | undefined): Promise<void> {
+  const { day, totals, loaded } = today();
+  await loaded;
+  const promptTokens = usage?.promptTokens ?? 0;
+  const completionTokens = usage?.completionTokens ?? 0;
+  addTo(totals, `${client}|${task}`, { requests: 1, promptTokens, completionTokens });
+  console.log(`AI_USAGE { client: "${client}", task: "${task}", promptTokens: ${promptTokens}, completionTokens: ${completionTokens} }`);
+  try {
+    await storage.recordAiUsage({ day, clientKey: client, task, promptTokens, completionTokens });
+  } catch (err) {
+    console.error("AI usage write error:", err);
+  }
+}
+
+export interface AiUsageReport {
+  day: string;
+  budgets: AiBudgets;
+  totals: UsageTotals & { tokens: number };
+  byTask: Record<string, UsageTotals>;
+  // Heaviest clients first.
+  clients: (UsageTotals & { client: string; tokens: number; remaining: number | null })[];
+}
+
+export async function getAiUsageReport(topClients = 50): Promise<AiUsageReport> {
+  const { day, totals, loaded } = today();
+  await loaded;
+  const all: UsageTotals = { requests: 0, promptTokens: 0, completionTokens: 0 };
+  const byTask = new Map<string, UsageTotals>();
+  const byClient = new Map<string, UsageTotals>();
+  for (const [key, t] of Array.from(totals.entries())) {
+    const split = key.lastIndexOf("|");
+    addTo(byClient, key.slice(0, split), t);
+    addTo(byTask, key.slice(split + 1), t);
+    all.requests += t.requests;
+    all.promptTokens += t.promptTokens;
+    all.completionTokens += t.completionTokens;
+  }
+
+  const clients = Array.from(byClient.entries())
+    .map(([client, t]) => ({
+      client,
+      ...t,
+      tokens: tokensOf(t),
+      remaining:
+        client === SERVER_CLIENT || budgets.clientDailyTokens === 0
+          ? null
+          : Math.max(0, budgets.clientDailyTokens - tokensOf(t)),
+    }))
+    .sort((a, b) => b.tokens - a.tokens)
+    .slice(0, topClients);
+
+  return {
+    day,
+    budgets,
+    totals: { ...all, tokens: tokensOf(all) },
+    byTask: Object.fromEntries(Array.from(byTask.entries())),
+    clients,
+  };
+}
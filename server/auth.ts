@@ -0,0 +1,144 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { createAuthRateLimiters } from "./rateLimits";
+import { authCredentialsSchema, type PublicUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends PublicUser {}
+  }
+}
+
+// What passport keeps in the session (see serializeUser below).
+declare module "express-session" {
+  interface SessionData {
+    passport?: { user?: number };
+  }
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const derived = await scryptAsync(password, salt, 64);
+  return `${derived.toString("hex")}.${salt}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const storedBuf = Buffer.from(hashed, "hex");
+  const derived = await scryptAsync(password, salt, 64);
+  return storedBuf.length === derived.length && timingSafeEqual(storedBuf, derived);
+}
+
+function toPublicUser(user: { id: number; username: string }): PublicUser {
+  return { id: user.id, username: user.username };
+}
+
+export function configurePassport() {
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username.trim().toLowerCase());
+        if (!user || !(await verifyPassword(password, user.passwordHash))) {
+          return done(null, false, { message: "Invalid username or password" });
+        }
+        return done(null, toPublicUser(user));
+      } catch (err) {
+        return done(err);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ? toPublicUser(user) : false);
+    } catch (err) {
+      done(err);
+    }
+  });
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) return next();
+  return res.status(401).json({ error: "Sign in required" });
+}
+
+// Accounts allowed to see server-wide stats: ADMIN_USERNAMES=alice,bob
+const adminUsernames = new Set(
+  (process.env.ADMIN_USERNAMES || "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean),
+);
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) return res.status(401).json({ error: "Sign in required" });
+  if (!adminUsernames.has(req.user.username)) return res.status(403).json({ error: "Admins only" });
+  return next();
+}
+
+export function registerAuthRoutes(app: Express) {
+  const [ipLimiter, usernameLimiter] = createAuthRateLimiters();
+
+  app.post("/api/auth/register", ipLimiter, usernameLimiter, async (req, res, next) => {
+    try {
+      const parsed = authCredentialsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid credentials" });
+      }
+
+      const username = parsed.data.username.toLowerCase();
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ error: "That username is already taken" });
+      }
+
+      const user = await storage.createUser({
+        username,
+        passwordHash: await hashPassword(parsed.data.password),
+      });
+
+      req.login(toPublicUser(user), (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      console.error("Registration error:", error);
+      res.status(500).json({ error: "Failed to create account" });
+    }
+  });
+
+  app.post("/api/auth/login", ipLimiter, usernameLimiter, (req, res, next) => {
+    passport.authenticate("local", (err: any, user: PublicUser | false, info?: { message?: string }) => {
+      if (err) return next(err);
+      if (!user) return res.status(401).json({ error: info?.message || "Invalid username or password" });
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => {
+        res.clearCookie("braintrip.sid");
+        res.status(204).send();
+      });
+    });
+  });
+
+  app.get("/api/auth/me", (req, res) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ error: "Not signed in" });
+    res.json(req.user);
+  });
+}
@@ -0,0 +1,191 @@
+import { and, eq, gt, lte } from "drizzle-orm";
+import { db } from "./db";
+import { cacheEntries } from "@shared/schema";
+
+export interface CacheBackend {
+  get(namespace: string, key: string): Promise<unknown | undefined>;
+  set(namespace: string, key: string, value: unknown, ttlMs: number): Promise<void>;
+  delete(namespace: string, key: string): Promise<void>;
+  /** Removes expired entries and returns how many were dropped. */
+  sweepExpired(): Promise<number>;
+}
+
+export class MemoryCacheBackend implements CacheBackend {
+  private entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  private id(namespace: string, key: string) {
+    return `${namespace}\u0000${key}`;
+  }
+
+  async get(namespace: string, key: string): Promise<unknown | undefined> {
+    const entry = this.entries.get(this.id(namespace, key));
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(this.id(namespace, key));
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set(namespace: string, key: string, value: unknown, ttlMs: number): Promise<void> {
+    this.entries.set(this.id(namespace, key), { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    this.entries.delete(this.id(namespace, key));
+  }
+
+  async sweepExpired(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+    for (const [id, entry] of Array.from(this.entries.entries())) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+export class PostgresCacheBackend implements CacheBackend {
+  async get(namespace: string, key: string): Promise<unknown | undefined> {
+    const [row] = await db
+      .select({ value: cacheEntries.value })
+      .from(cacheEntries)
+      .where(and(eq(cacheEntries.namespace, namespace), eq(cacheEntries.key, key), gt(cacheEntries.expiresAt, new Date())));
+    return row?.value;
+  }
+
+  async set(namespace: string, key: string, value: unknown, ttlMs: number): Promise<void> {
+    const expiresAt = new Date(Date.now() + ttlMs);
+    await db
+      .insert(cacheEntries)
+      .values({ namespace, key, value, expiresAt })
+      .onConflictDoUpdate({
+        target: [cacheEntries.namespace, cacheEntries.key],
+        set: { value, expiresAt, createdAt: new Date() },
+      });
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    await db.delete(cacheEntries).where(and(eq(cacheEntries.namespace, namespace), eq(cacheEntries.key, key)));
+  }
+
+  async sweepExpired(): Promise<number> {
+    const removed = await db
+      .delete(cacheEntries)
+      .where(lte(cacheEntries.expiresAt, new Date()))
+      .returning({ key: cacheEntries.key });
+    return removed.length;
+  }
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  sets: number;
+  errors: number;
+}
+
+const stats = new Map<string, CacheStats>();
+
+function statsFor(namespace: string): CacheStats {
+  let s = stats.get(namespace);
+  if (!s) {
+    s = { hits: 0, misses: 0, sets: 0, errors: 0 };
+    stats.set(namespace, s);
+  }
+  return s;
+}
+
+export function getCacheStats(): Record<string, CacheStats & { hitRate: number }> {
+  const out: Record<string, CacheStats & { hitRate: number }> = {};
+  for (const [namespace, s] of Array.from(stats.entries())) {
+    const lookups = s.hits + s.misses;
+    out[namespace] = { ...s, hitRate: lookups > 0 ? s.hits / lookups : 0 };
+  }
+  return out;
+}
+
+function createBackend(): CacheBackend {
+  const configured = process.env.CACHE_BACKEND;
+  if (configured === "memory") return new MemoryCacheBackend();
+  if (configured === "postgres") return new PostgresCacheBackend();
+  return process.env.DATABASE_URL && process.env.NODE_ENV !== "test"
+    ? new PostgresCacheBackend()
+    : new MemoryCacheBackend();
+}
+
+let backend: CacheBackend = createBackend();
+
+/** Swaps the storage behind every cache, e.g. to a MemoryCacheBackend in tests. */
+export function setCacheBackend(next: CacheBackend) {
+  backend = next;
+}
+
+export interface Cache<T> {
+  get(key: string): Promise<T | undefined>;
+  set(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * A namespaced cache with a fixed TTL. Backend failures are logged and treated
+ * as misses so a database hiccup never fails the request that hit it.
+ */
+export function createCache<T>(namespace: string, ttlMs: number): Cache<T> {
+  const s = statsFor(namespace);
+  return {
+    async get(key) {
+      try {
+        const value = await backend.get(namespace, key);
+        if (value === undefined) s.misses++;
+        else s.hits++;
+        return value as T | undefined;
+      } catch (err) {
+        s.errors++;
+        s.misses++;
+        console.error(`Cache get failed (${namespace}):`, err);
+        return undefined;
+      }
+    },
+    async set(key, value) {
+      try {
+        await backend.set(namespace, key, value, ttlMs);
+        s.sets++;
+      } catch (err) {
+        s.errors++;
+        console.error(`Cache set failed (${namespace}):`, err);
+      }
+    },
+    async delete(key) {
+      try {
+        await backend.delete(namespace, key);
+      } catch (err) {
+        s.errors++;
+        console.error(`Cache delete failed (${namespace}):`, err);
+      }
+    },
+  };
+}
+
+const SWEEP_INTERVAL = 60 * 60 * 1000;
+let sweepTimer: NodeJS.Timeout | null = null;
+
+export async function sweepExpiredCacheEntries(): Promise<number> {
+  try {
+    const removed = await backend.sweepExpired();
+    console.log(`CACHE_SWEEP { removed: ${removed}, stats: ${JSON.stringify(getCacheStats())} }`);
+    return removed;
+  } catch (err) {
+    console.error("Cache sweep failed:", err);
+    return 0;
+  }
+}
+
+export function startCacheSweeper() {
+  if (sweepTimer) return;
+  sweepTimer = setInterval(sweepExpiredCacheEntries, SWEEP_INTERVAL);
+  sweepTimer.unref();
+}
@@ -1,6 +1,13 @@
 import express, { type Request, Response, NextFunction } from "express";
 import cors from "cors";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import passport from "passport";
 import { registerRoutes } from "./routes";
+import { attachTripSync } from "./tripSync";
+import { isAllowedOrigin } from "./origins";
+import { configurePassport } from "./auth";
+import { pool } from "./db";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 
@@ -16,6 +23,8 @@ declare module "http" {
 /* -------------------- BODY PARSING -------------------- */
 app.use(
   express.json({
+    // Session drafts (suggestions plus itinerary undo history) outgrow the 100kb default.
+    limit: "1mb",
     verify: (req, _res, buf) => {
       req.rawBody = buf;
     },
@@ -28,18 +37,63 @@ app.use(express.urlencoded({ extended: false }));
 // If the client sends credentials (cookies / credentials: "include"),
 // the server MUST send Access-Control-Allow-Credentials: true
 // and MUST NOT use wildcard origin "*".
-const corsMiddleware = cors({
-  origin: true, // reflect requesting origin
-  credentials: true, // <-- IMPORTANT FIX
-  methods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
-  allowedHeaders: ["Content-Type", "Authorization"],
-});
+// Only the origins isAllowedOrigin accepts (own origin, the iOS app,
+// ALLOWED_ORIGINS) are reflected; never every origin, as that would let any
+// site use a signed-in visitor's session.
+const corsMiddleware = cors((req, callback) =>
+  callback(null, {
+    origin: isAllowedOrigin(req),
+    credentials: true, // <-- IMPORTANT FIX
+    methods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
+    allowedHeaders: ["Content-Type", "Authorization", "X-Device-Id"],
+    exposedHeaders: ["Content-Disposition"], // export downloads read the filename
+  }),
+);
 
 app.use(corsMiddleware);
 
 // IMPORTANT: use regex, not "*"
 app.options(/.*/, corsMiddleware);
 
+// CORS only stops browsers reading the response; refuse the request itself so
+// other sites can't write with the visitor's session or spend the AI budgets.
+app.use("/api", (req, res, next) => {
+  if (isAllowedOrigin(req)) return next();
+  res.status(403).json({ error: "Origin not allowed" });
+});
+
+/* -------------------- SESSIONS -------------------- */
+// The iOS app calls the API cross-origin, so in production the session cookie
+// must be SameSite=None + Secure, and Render's proxy must be trusted for that.
+const isProduction = process.env.NODE_ENV === "production";
+const sessionSecret = process.env.SESSION_SECRET;
+if (!sessionSecret && isProduction) {
+  throw new Error("SESSION_SECRET must be set in production");
+}
+
+const PgSessionStore = connectPgSimple(session);
+
+app.set("trust proxy", 1);
+// Kept in a variable: the trip sync WebSocket reuses it to read the session.
+const sessionMiddleware = session({
+  name: "braintrip.sid",
+  store: new PgSessionStore({ pool, tableName: "sessions" }),
+  secret: sessionSecret || "braintrip-dev-secret",
+  resave: false,
+  saveUninitialized: false,
+  cookie: {
+    httpOnly: true,
+    maxAge: 30 * 24 * 60 * 60 * 1000,
+    sameSite: isProduction ? "none" : "lax",
+    secure: isProduction,
+  },
+});
+app.use(sessionMiddleware);
+
+configurePassport();
+app.use(passport.initialize());
+app.use(passport.session());
+
 /* -------------------- LOGGER -------------------- */
 export function log(message: string, source = "express") {
   const formattedTime = new Date().toLocaleTimeString("en-US", {
@@ -64,6 +118,7 @@ app.use((req, res, next) => {
 /* -------------------- SERVER START -------------------- */
 (async () => {
   await registerRoutes(httpServer, app);
+  attachTripSync(httpServer, sessionMiddleware);
 
   app.use((err: any, _req: Request, res: Response, next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -0,0 +1,216 @@
+import OpenAI from "openai";
+import type { PlaceCategory } from "@shared/schema";
+import { SERVER_CLIENT, assertAiBudget, recordAiUsage } from "./aiUsage";
+
+export type LlmTask = "trivia" | "suggestions" | "enrichment";
+
+export interface LlmRequest {
+  task: LlmTask;
+  prompt: string;
+  maxTokens: number;
+  /** City or place the prompt is about; the stub uses it to fill its fixtures. */
+  subject?: string;
+  /** Whose daily budget the tokens count against (clientKey of the request); the server's when unset. */
+  client?: string;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LlmCompletion {
+  /** Raw completion text; callers parse it with safeJsonParse. */
+  text: string;
+  /** Token counts as reported by the API, when it reports them. */
+  usage?: LlmUsage;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  complete(request: LlmRequest): Promise<LlmCompletion>;
+}
+
+const DEFAULT_MODEL = "gpt-4o-mini";
+
+/** Models per task, e.g. LLM_MODEL_TRIVIA=gpt-4o. LLM_MODEL sets the default. */
+function modelsFromEnv(): Record<LlmTask, string> {
+  const fallback = process.env.LLM_MODEL || DEFAULT_MODEL;
+  return {
+    trivia: process.env.LLM_MODEL_TRIVIA || fallback,
+    suggestions: process.env.LLM_MODEL_SUGGESTIONS || fallback,
+    enrichment: process.env.LLM_MODEL_ENRICHMENT || fallback,
+  };
+}
+
+/** Any endpoint that speaks the OpenAI chat completions API. */
+export class OpenAICompatibleProvider implements LlmProvider {
+  readonly name = "openai";
+  private client: OpenAI;
+
+  constructor(
+    options: { apiKey?: string; baseURL?: string },
+    private models: Record<LlmTask, string> = modelsFromEnv(),
+  ) {
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+  }
+
+  async complete({ task, prompt, maxTokens }: LlmRequest): Promise<LlmCompletion> {
+    const response = await this.client.chat.completions.create({
+      model: this.models[task],
+      messages: [{ role: "user", content: prompt }],
+      max_completion_tokens: maxTokens,
+    });
+    return {
+      text: response.choices[0]?.message?.content || "",
+      usage: response.usage
+        ? { promptTokens: response.usage.prompt_tokens, completionTokens: response.usage.completion_tokens }
+        : undefined,
+    };
+  }
+}
+
+function triviaFixture(city: string) {
+  return [
+    {
+      question: `In which century was the oldest surviving bridge in ${city} completed?`,
+      options: ["12th century", "15th century", "17th century", "19th century"],
+      correctIndex: 1,
+      funFact: `The bridge's central arch spans 32 metres and has been restored 4 times since 1750.`,
+    },
+    {
+      question: `Which ingredient is essential to the best-known street snack of ${city}?`,
+      options: ["Chickpeas", "Smoked eel", "Buckwheat", "Sesame paste"],
+      correctIndex: 0,
+      funFact: `Vendors in the old market sell roughly 3,000 portions of it every Saturday.`,
+    },
+    {
+      question: `What material was used for the roof of ${city}'s main cathedral?`,
+      options: ["Slate", "Copper", "Terracotta", "Lead"],
+      correctIndex: 2,
+      funFact: `More than 40,000 hand-made tiles were laid on the roof between 1610 and 1622.`,
+    },
+    {
+      question: `How many hills did the historic centre of ${city} traditionally claim?`,
+      options: ["Three", "Five", "Seven", "Nine"],
+      correctIndex: 2,
+      funFact: `The highest of them rises 86 metres above the river and hosts the old observatory.`,
+    },
+    {
+      question: `Which festival fills the streets of ${city} every spring?`,
+      options: ["Lantern Night", "Flower Parade", "Harvest Fair", "River Regatta"],
+      correctIndex: 1,
+      funFact: `The first recorded parade took place in 1892 with just 12 decorated carts.`,
+    },
+    {
+      question: `What was the original purpose of ${city}'s covered market hall?`,
+      options: ["Grain exchange", "Tram depot", "Royal stables", "Customs house"],
+      correctIndex: 0,
+      funFact: `Its cast-iron frame was prefabricated in 1868 and assembled in only 11 months.`,
+    },
+    {
+      question: `Which architectural style dominates ${city}'s old town hall?`,
+      options: ["Baroque", "Art Nouveau", "Gothic", "Brutalist"],
+      correctIndex: 2,
+      funFact: `The clock tower's mechanism has kept time since 1547 and was last rebuilt in 1921.`,
+    },
+    {
+      question: `What do locals in ${city} traditionally eat on the first day of the new year?`,
+      options: ["Lentil stew", "Roast goose", "Honey cake", "Pickled herring"],
+      correctIndex: 0,
+      funFact: `Each lentil is said to stand for a coin, so bowls are filled to the brim for luck.`,
+    },
+  ];
+}
+
+function suggestionsFixture(city: string) {
+  // Real categories only, so category filters and map markers behave as with a real model.
+  const places: [string, PlaceCategory][] = [
+    ["Old Town Square", "Landmark"],
+    ["Riverside Promenade", "Nature"],
+    ["Central Market Hall", "Food"],
+    ["Hilltop Viewpoint", "Landmark"],
+    ["Museum of City History", "Culture"],
+    ["Lantern Alley Bars", "Entertainment"],
+    ["Botanical Garden", "Nature"],
+    ["Artisan Quarter", "Shopping"],
+  ];
+  return {
+    suggestions: places.map(([title, category]) => ({
+      title,
+      category,
+      description: `${title} is a local favourite in ${city}.`,
+      address: "",
+    })),
+  };
+}
+
+function enrichmentFixture(place: string) {
+  return {
+    description: `${place} is a well-preserved local landmark with a long history.`,
+    funFact: `Records in the municipal archive first mention ${place} in 1850, alongside two neighbouring streets.`,
+  };
+}
+
+/**
+ * Deterministic offline provider: returns fixture JSON for each task so the
+ * app and integration tests run without network or API keys.
+ */
+export class StubLlmProvider implements LlmProvider {
+  readonly name = "stub";
+
+  async complete({ task, subject }: LlmRequest): Promise<LlmCompletion> {
+    const name = subject || "the city";
+    switch (task) {
+      case "trivia":
+        return { text: JSON.stringify(triviaFixture(name)) };
+      case "suggestions":
+        return { text: JSON.stringify(suggestionsFixture(name)) };
+      case "enrichment":
+        return { text: JSON.stringify(enrichmentFixture(name)) };
+    }
+  }
+}
+
+// The stub is opt-in only: silently answering with fixtures when a key is
+// missing would serve (and let callers store) made-up content in production.
+function createProvider(): LlmProvider {
+  const apiKey = process.env.LLM_API_KEY || process.env.AI_INTEGRATIONS_OPENAI_API_KEY;
+  const baseURL = process.env.LLM_BASE_URL || process.env.AI_INTEGRATIONS_OPENAI_BASE_URL;
+  const configured = process.env.LLM_PROVIDER;
+  if (configured === "stub") {
+    console.log(`LLM_PROVIDER { name: "stub", reason: "LLM_PROVIDER=stub" }`);
+    return new StubLlmProvider();
+  }
+  if (configured && configured !== "openai") {
+    throw new Error(`Unknown LLM_PROVIDER "${configured}" (expected "openai" or "stub")`);
+  }
+  if (!apiKey) {
+    throw new Error("LLM_API_KEY (or AI_INTEGRATIONS_OPENAI_API_KEY) must be set; use LLM_PROVIDER=stub to run with fixture content");
+  }
+  return new OpenAICompatibleProvider({ apiKey, baseURL });
+}
+
+let provider: LlmProvider = createProvider();
+
+export function getLlmProvider(): LlmProvider {
+  return provider;
+}
+
+/** Swaps the provider behind every AI call, e.g. to a StubLlmProvider in tests. */
+export function setLlmProvider(next: LlmProvider) {
+  provider = next;
+}
+
+/**
+ * Runs an AI call against the client's and the server's daily token budgets
+ * (server/aiUsage.ts). Throws AiBudgetExceededError once either is used up;
+ * callers fall back to cached or curated content as they do on any AI error.
+ */
+export async function completeLlm(request: LlmRequest): Promise<string> {
+  const client = request.client || SERVER_CLIENT;
+  await assertAiBudget(client);
+  const { text, usage } = await provider.complete(request);
+  await recordAiUsage(client, request.task, usage);
+  return text;
+}
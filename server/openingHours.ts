@@ -0,0 +1,145 @@
+import type { OpeningHours, OpeningPeriod } from "@shared/schema";
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const OSM_DAYS = ["Su", "Mo", "Tu", "We", "Th", "Fr", "Sa"];
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+function toTime(hour: number, minute: number): string {
+  return `${pad(hour)}:${pad(minute)}`;
+}
+
+/** Builds one line per day (Monday first) from periods, for providers that don't supply text. */
+export function formatWeekdayText(periods: OpeningPeriod[]): string[] {
+  return [1, 2, 3, 4, 5, 6, 0].map((day) => {
+    const ranges = periods.filter((p) => p.day === day).map((p) => `${p.open}–${p.close}`);
+    return `${DAY_NAMES[day]}: ${ranges.length > 0 ? ranges.join(", ") : "Closed"}`;
+  });
+}
+
+/**
+ * Google Places `regularOpeningHours`. A place open around the clock comes
+ * back as a single period with no close time.
+ */
+export function fromGoogleOpeningHours(raw: any): OpeningHours | undefined {
+  if (!raw || !Array.isArray(raw.periods)) return undefined;
+  const periods: OpeningPeriod[] = [];
+  for (const p of raw.periods) {
+    if (typeof p.open?.day !== "number") continue;
+    if (!p.close) {
+      for (let day = 0; day < 7; day++) periods.push({ day, open: "00:00", close: "24:00" });
+      break;
+    }
+    periods.push({
+      day: p.open.day,
+      open: toTime(p.open.hour ?? 0, p.open.minute ?? 0),
+      close: toTime(p.close.hour ?? 0, p.close.minute ?? 0),
+    });
+  }
+  const weekdayText = Array.isArray(raw.weekdayDescriptions) ? raw.weekdayDescriptions : formatWeekdayText(periods);
+  return { periods, weekdayText };
+}
+
+function parseClock(text: string, fallbackMeridiem?: string): { minutes: number; meridiem?: string } | null {
+  const m = text.trim().match(/^(\d{1,2})(?::(\d{2}))?\s*(AM|PM)?$/i);
+  if (!m) return null;
+  const meridiem = (m[3] || fallbackMeridiem)?.toUpperCase();
+  let hour = parseInt(m[1], 10) % 12;
+  if (meridiem === "PM") hour += 12;
+  if (!meridiem) hour = parseInt(m[1], 10);
+  return { minutes: hour * 60 + parseInt(m[2] || "0", 10), meridiem: m[3]?.toUpperCase() };
+}
+
+function minutesToTime(minutes: number): string {
+  return toTime(Math.floor(minutes / 60), minutes % 60);
+}
+
+/**
+ * Parses Google-style lines such as "Monday: 9:30 AM – 5:00 PM",
+ * "Tuesday: Closed" or "Sunday: 10:00 AM – 2:00 PM, 5:00 – 10:00 PM".
+ */
+export function parseWeekdayText(lines: string[]): OpeningHours | undefined {
+  const periods: OpeningPeriod[] = [];
+  for (const line of lines) {
+    const [name, rest = ""] = line.split(/:(.*)/);
+    const day = DAY_NAMES.findIndex((d) => d.toLowerCase() === name.trim().toLowerCase());
+    if (day === -1) return undefined;
+    const body = rest.trim();
+    if (/^closed$/i.test(body)) continue;
+    if (/open 24 hours/i.test(body)) {
+      periods.push({ day, open: "00:00", close: "24:00" });
+      continue;
+    }
+    for (const range of body.split(",")) {
+      const [from, to] = range.split(/\s*[–-]\s*/);
+      if (!from || !to) return undefined;
+      const close = parseClock(to);
+      // "11:00 – 2:00 PM" leaves the opening meridiem implied by the closing one.
+      let open = parseClock(from, close?.meridiem);
+      if (open && close && !/AM|PM/i.test(from) && open.minutes > close.minutes) open = parseClock(from, "AM");
+      if (!open || !close) return undefined;
+      periods.push({ day, open: minutesToTime(open.minutes), close: minutesToTime(close.minutes) });
+    }
+  }
+  return { periods, weekdayText: lines };
+}
+
+function expandOsmDays(spec: string): number[] | null {
+  const days = new Set<number>();
+  for (const part of spec.split(",")) {
+    const [from, to] = part.split("-");
+    const start = OSM_DAYS.indexOf(from);
+    const end = to ? OSM_DAYS.indexOf(to) : start;
+    if (start === -1 || end === -1) return null;
+    for (let i = 0; i < 7; i++) {
+      const day = (start + i) % 7;
+      days.add(day);
+      if (day === end) break;
+    }
+  }
+  return Array.from(days);
+}
+
+/**
+ * Parses the common subset of the OSM `opening_hours` syntax: "24/7" and rules
+ * like "Mo-Fr 09:00-18:00; Sa 10:00-14:00; Su off". Anything fancier (months,
+ * holidays, sunrise) returns undefined rather than a guess.
+ */
+export function parseOsmOpeningHours(tag: string | undefined): OpeningHours | undefined {
+  if (!tag) return undefined;
+  const value = tag.trim();
+  if (value === "24/7") {
+    const periods = Array.from({ length: 7 }, (_, day) => ({ day, open: "00:00", close: "24:00" }));
+    return { periods, weekdayText: formatWeekdayText(periods) };
+  }
+
+  const byDay = new Map<number, OpeningPeriod[]>();
+  for (const rule of value.split(";").map((r) => r.trim()).filter(Boolean)) {
+    if (/^(PH|SH)\b/.test(rule)) continue;
+    const m = rule.match(/^([A-Za-z,-]+)\s+(off|closed|[\d:,\s-]+)$/);
+    const hasDays = !!m && /^[A-Z][a-z]/.test(m[1]);
+    const daySpec = hasDays ? m![1] : "Mo-Su";
+    const times = hasDays ? m![2] : rule;
+    const days = expandOsmDays(daySpec);
+    if (!days) return undefined;
+
+    if (/^(off|closed)$/.test(times)) {
+      for (const day of days) byDay.set(day, []);
+      continue;
+    }
+    const ranges: { open: string; close: string }[] = [];
+    for (const range of times.split(",")) {
+      const r = range.trim().match(/^(\d{1,2}:\d{2})-(\d{1,2}:\d{2})$/);
+      if (!r) return undefined;
+      ranges.push({ open: r[1].padStart(5, "0"), close: r[2].padStart(5, "0") });
+    }
+    // Later rules replace earlier ones for the days they name.
+    for (const day of days) byDay.set(day, ranges.map((range) => ({ day, ...range })));
+  }
+  if (byDay.size === 0) return undefined;
+
+  const periods = Array.from(byDay.values()).flat().sort((a, b) => a.day - b.day || a.open.localeCompare(b.open));
+  return { periods, weekdayText: formatWeekdayText(periods) };
+}
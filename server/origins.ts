@@ -0,0 +1,33 @@
+import type { IncomingMessage } from "http";
+
+// The session cookie is SameSite=None in production (the iOS app calls the API
+// cross-origin), so the browser sends it from any site: which sites may use it
+// has to be decided here. Allowed: the server's own origin, the iOS app
+// (capacitor://localhost) and anything in ALLOWED_ORIGINS (comma-separated,
+// e.g. "https://braintrip.app,https://staging.braintrip.app").
+const APP_ORIGINS = ["capacitor://localhost"];
+
+const allowedOrigins = new Set([
+  ...APP_ORIGINS,
+  ...(process.env.ALLOWED_ORIGINS || "")
+    .split(",")
+    .map((origin) => origin.trim().replace(/\/+$/, ""))
+    .filter(Boolean),
+]);
+
+/**
+ * Whether a request may act with the caller's session. Requests without an
+ * Origin header (native HTTP clients, same-origin GETs) carry no cross-site
+ * risk; browsers always send one for cross-site fetches and WebSocket upgrades.
+ */
+export function isAllowedOrigin(req: Pick<IncomingMessage, "headers">): boolean {
+  const origin = req.headers.origin;
+  if (!origin) return true;
+  if (allowedOrigins.has(origin)) return true;
+  try {
+    // Same origin: browsers can't forge Host, and the proxy keeps it.
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
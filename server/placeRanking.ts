@@ -0,0 +1,104 @@
+import { haversineKm } from "./routeOptimizer";
+
+export interface RankablePlace {
+  placeId: string;
+  title: string;
+  category: string;
+  lat: number;
+  lng: number;
+  rating: number;
+  userRatingCount: number;
+}
+
+export interface RankedPlace<T extends RankablePlace> {
+  place: T;
+  score: number;
+  distanceKm: number | null;
+}
+
+export interface RankOptions {
+  /** Hotel or starting point; enables the distance penalty and outlier guard. */
+  origin?: { lat: number; lng: number } | null;
+  /** Hard cap on distance from the origin; places without coordinates are dropped. */
+  maxDistanceKm?: number;
+  /** Categories matching the traveler's interests; each gets a flat bonus. */
+  preferredCategories?: string[];
+  limit: number;
+}
+
+// Scores are in "popularity decile" units (0-9); the constants below trade
+// distance and repeated categories off against one decile step.
+const KM_PER_PENALTY_POINT = 2;
+const CATEGORY_REPEAT_PENALTY = 2.5;
+const PREFERRED_CATEGORY_BONUS = 2;
+const MIN_OUTLIER_KM = 15;
+const OUTLIER_MEDIAN_FACTOR = 3;
+
+function hasCoords(p: RankablePlace): boolean {
+  return Number.isFinite(p.lat) && Number.isFinite(p.lng) && !(p.lat === 0 && p.lng === 0);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Ranks a places pool by popularity decile, rating and interest match,
+ * penalises distance from the origin (dropping outliers far beyond the median),
+ * then picks greedily so each repeat of a category costs a little, which keeps
+ * the list varied.
+ */
+export function rankPlaces<T extends RankablePlace>(
+  places: T[],
+  { origin, maxDistanceKm, preferredCategories = [], limit }: RankOptions,
+): RankedPlace<T>[] {
+  if (places.length === 0 || limit <= 0) return [];
+  const preferred = new Set(preferredCategories);
+
+  const byPopularity = [...places].sort((a, b) => a.userRatingCount - b.userRatingCount);
+  const decile = new Map<T, number>();
+  byPopularity.forEach((p, i) => decile.set(p, Math.floor((i / byPopularity.length) * 10)));
+
+  let candidates = places.map((place) => ({
+    place,
+    distanceKm: origin && hasCoords(place) ? haversineKm(origin.lat, origin.lng, place.lat, place.lng) : null,
+  }));
+
+  const distances = candidates.map((c) => c.distanceKm).filter((d): d is number => d !== null);
+  if (distances.length > 0) {
+    const maxKm = Math.max(MIN_OUTLIER_KM, median(distances) * OUTLIER_MEDIAN_FACTOR);
+    candidates = candidates.filter((c) => c.distanceKm === null || c.distanceKm <= maxKm);
+  }
+  if (origin && maxDistanceKm !== undefined) {
+    candidates = candidates.filter((c) => c.distanceKm !== null && c.distanceKm <= maxDistanceKm);
+  }
+
+  const scored = candidates.map((c) => {
+    const ratingBonus = c.place.rating > 0 ? (c.place.rating - 4) * 2 : 0;
+    const distancePenalty = c.distanceKm !== null ? c.distanceKm / KM_PER_PENALTY_POINT : 0;
+    const interestBonus = preferred.has(c.place.category) ? PREFERRED_CATEGORY_BONUS : 0;
+    return { ...c, base: (decile.get(c.place) ?? 0) + ratingBonus + interestBonus - distancePenalty };
+  });
+
+  const picked: RankedPlace<T>[] = [];
+  const categoryCounts = new Map<string, number>();
+  const remaining = new Set(scored);
+  while (picked.length < limit && remaining.size > 0) {
+    let best: (typeof scored)[number] | null = null;
+    let bestScore = -Infinity;
+    for (const c of Array.from(remaining)) {
+      const score = c.base - (categoryCounts.get(c.place.category) ?? 0) * CATEGORY_REPEAT_PENALTY;
+      if (score > bestScore) {
+        best = c;
+        bestScore = score;
+      }
+    }
+    if (!best) break;
+    remaining.delete(best);
+    categoryCounts.set(best.place.category, (categoryCounts.get(best.place.category) ?? 0) + 1);
+    picked.push({ place: best.place, score: bestScore, distanceKm: best.distanceKm });
+  }
+  return picked;
+}
@@ -0,0 +1,438 @@
+import { readFileSync } from "fs";
+import path from "path";
+import type { OpeningHours } from "@shared/schema";
+import { fromGoogleOpeningHours, parseOsmOpeningHours, parseWeekdayText } from "./openingHours";
+
+export interface ResolvedCity {
+  cityLabel: string;
+  placeId: string;
+  lat: number;
+  lng: number;
+  country: string;
+  region: string;
+}
+
+/** Where to search: a city label, plus coordinates when the caller already has them. */
+export interface SearchArea {
+  label: string;
+  lat?: number;
+  lng?: number;
+}
+
+export const POI_KINDS = ["attractions", "landmarks", "museums", "parks", "restaurants", "viewpoints", "historic"] as const;
+export type PoiKind = (typeof POI_KINDS)[number];
+
+export interface PlaceResult {
+  title: string;
+  lat: number;
+  lng: number;
+  category: string;
+  address?: string;
+  placeId: string;
+  rating: number;
+  userRatingCount: number;
+  /** Step-free entrance; undefined when the provider has no data. */
+  wheelchairAccessible?: boolean;
+  openingHours?: OpeningHours;
+}
+
+export interface PlaceDetails extends PlaceResult {
+  website?: string;
+  phone?: string;
+}
+
+export interface PlacesProvider {
+  readonly name: string;
+  resolveCity(cityText: string): Promise<ResolvedCity | null>;
+  searchPois(area: SearchArea, kind: PoiKind, limit: number): Promise<PlaceResult[]>;
+  getPlaceDetails(placeId: string): Promise<PlaceDetails | null>;
+}
+
+const REQUEST_TIMEOUT = 5000;
+
+async function fetchWithTimeout(url: string, init: RequestInit = {}, timeoutMs = REQUEST_TIMEOUT): Promise<Response> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/* -------------------- Google Places (v1) -------------------- */
+
+const GOOGLE_QUERIES: Record<PoiKind, (city: string) => string> = {
+  attractions: (city) => `top attractions in ${city}`,
+  landmarks: (city) => `best landmarks in ${city}`,
+  museums: (city) => `best museums in ${city}`,
+  parks: (city) => `best parks and gardens in ${city}`,
+  restaurants: (city) => `best restaurants in ${city}`,
+  viewpoints: (city) => `best viewpoints in ${city}`,
+  historic: (city) => `historical sites in ${city}`,
+};
+
+function mapGoogleCategory(types: string[]): string {
+  const typeSet = new Set(types);
+  if (typeSet.has("museum") || typeSet.has("art_gallery")) return "Culture";
+  if (typeSet.has("restaurant") || typeSet.has("cafe") || typeSet.has("bakery") || typeSet.has("bar") || typeSet.has("meal_takeaway")) return "Food";
+  if (typeSet.has("park") || typeSet.has("natural_feature") || typeSet.has("campground")) return "Nature";
+  if (typeSet.has("shopping_mall") || typeSet.has("store") || typeSet.has("clothing_store") || typeSet.has("department_store")) return "Shopping";
+  if (typeSet.has("amusement_park") || typeSet.has("stadium") || typeSet.has("movie_theater") || typeSet.has("night_club")) return "Entertainment";
+  if (typeSet.has("church") || typeSet.has("hindu_temple") || typeSet.has("mosque") || typeSet.has("synagogue") || typeSet.has("place_of_worship")) return "Landmark";
+  if (typeSet.has("tourist_attraction") || typeSet.has("point_of_interest") || typeSet.has("establishment")) return "Landmark";
+  return "Landmark";
+}
+
+function fromGooglePlace(p: any): PlaceResult {
+  return {
+    title: p.displayName?.text || "",
+    lat: p.location?.latitude || 0,
+    lng: p.location?.longitude || 0,
+    category: mapGoogleCategory(p.types || []),
+    address: p.formattedAddress || "",
+    placeId: p.id || "",
+    rating: p.rating || 0,
+    userRatingCount: p.userRatingCount || 0,
+    wheelchairAccessible: p.accessibilityOptions?.wheelchairAccessibleEntrance,
+    openingHours: fromGoogleOpeningHours(p.regularOpeningHours),
+  };
+}
+
+export class GooglePlacesProvider implements PlacesProvider {
+  readonly name = "google";
+
+  constructor(private apiKey: string) {}
+
+  private async searchText(textQuery: string, fieldMask: string, pageSize: number): Promise<any[]> {
+    const res = await fetchWithTimeout("https://places.googleapis.com/v1/places:searchText", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Goog-Api-Key": this.apiKey,
+        "X-Goog-FieldMask": fieldMask,
+      },
+      body: JSON.stringify({ textQuery, pageSize, languageCode: "en" }),
+    });
+    if (!res.ok) {
+      console.error(`Google Places API error: ${res.status} ${res.statusText}`);
+      return [];
+    }
+    const data = await res.json();
+    return Array.isArray(data.places) ? data.places : [];
+  }
+
+  async resolveCity(cityText: string): Promise<ResolvedCity | null> {
+    const [place] = await this.searchText(
+      cityText,
+      "places.id,places.displayName,places.formattedAddress,places.location,places.addressComponents",
+      1,
+    );
+    if (!place) return null;
+
+    const addr = place.formattedAddress || cityText;
+    const parts = addr.split(",").map((s: string) => s.trim());
+
+    let country = "";
+    let region = "";
+    if (place.addressComponents) {
+      for (const comp of place.addressComponents) {
+        if (comp.types?.includes("country")) country = comp.longText || comp.shortText || "";
+        if (comp.types?.includes("administrative_area_level_1")) region = comp.longText || comp.shortText || "";
+      }
+    }
+    if (!country && parts.length >= 2) country = parts[parts.length - 1];
+    if (!region && parts.length >= 3) region = parts[parts.length - 2];
+
+    return {
+      cityLabel: parts.length >= 2 ? parts.slice(0, Math.min(parts.length, 3)).join(", ") : addr,
+      placeId: place.id || "",
+      lat: place.location?.latitude || 0,
+      lng: place.location?.longitude || 0,
+      country,
+      region,
+    };
+  }
+
+  async searchPois(area: SearchArea, kind: PoiKind, limit: number): Promise<PlaceResult[]> {
+    const places = await this.searchText(
+      GOOGLE_QUERIES[kind](area.label),
+      "places.id,places.displayName,places.formattedAddress,places.location,places.rating,places.userRatingCount,places.types,places.accessibilityOptions,places.regularOpeningHours",
+      Math.min(limit, 20),
+    );
+    return places.map(fromGooglePlace).filter((p) => p.title);
+  }
+
+  async getPlaceDetails(placeId: string): Promise<PlaceDetails | null> {
+    const res = await fetchWithTimeout(`https://places.googleapis.com/v1/places/${encodeURIComponent(placeId)}`, {
+      headers: {
+        "X-Goog-Api-Key": this.apiKey,
+        "X-Goog-FieldMask":
+          "id,displayName,formattedAddress,location,rating,userRatingCount,types,accessibilityOptions,regularOpeningHours,websiteUri,internationalPhoneNumber",
+      },
+    });
+    if (!res.ok) return null;
+    const p = await res.json();
+    return {
+      ...fromGooglePlace(p),
+      website: p.websiteUri || undefined,
+      phone: p.internationalPhoneNumber || undefined,
+    };
+  }
+}
+
+/* -------------------- OpenStreetMap (Nominatim + Overpass) -------------------- */
+
+// Overpass filters per kind; each is combined with (around:radius,lat,lng).
+const OVERPASS_FILTERS: Record<PoiKind, string[]> = {
+  attractions: ['nwr["tourism"="attraction"]["name"]'],
+  landmarks: ['nwr["historic"~"monument|memorial|castle|palace"]["name"]', 'nwr["man_made"="tower"]["tourism"]["name"]'],
+  museums: ['nwr["tourism"~"museum|gallery"]["name"]'],
+  parks: ['nwr["leisure"~"park|garden"]["name"]'],
+  restaurants: ['nwr["amenity"~"restaurant|cafe"]["name"]'],
+  viewpoints: ['nwr["tourism"="viewpoint"]["name"]'],
+  historic: ['nwr["historic"]["name"]'],
+};
+
+const OSM_SEARCH_RADIUS_M = 6000;
+const OSM_USER_AGENT = "BrainTrip/1.0";
+
+function mapOsmCategory(tags: Record<string, string>): string {
+  if (tags.tourism === "museum" || tags.tourism === "gallery" || tags.amenity === "theatre" || tags.amenity === "arts_centre") return "Culture";
+  if (["restaurant", "cafe", "bar", "pub", "fast_food", "ice_cream"].includes(tags.amenity)) return "Food";
+  if (tags.leisure === "park" || tags.leisure === "garden" || tags.leisure === "nature_reserve" || tags.natural) return "Nature";
+  if (tags.shop) return "Shopping";
+  if (tags.amenity === "nightclub" || tags.amenity === "cinema" || tags.leisure === "stadium" || tags.tourism === "theme_park") return "Entertainment";
+  return "Landmark";
+}
+
+function osmAddress(tags: Record<string, string>): string {
+  const street = [tags["addr:housenumber"], tags["addr:street"]].filter(Boolean).join(" ");
+  return [street, tags["addr:city"]].filter(Boolean).join(", ");
+}
+
+// OSM has no ratings; wiki links and an English name are a rough notability signal
+// that fills userRatingCount so popularity ranking still has something to sort by.
+function osmNotability(tags: Record<string, string>): number {
+  let score = 0;
+  if (tags.wikidata) score += 50;
+  if (tags.wikipedia) score += 50;
+  if (tags["name:en"]) score += 20;
+  if (tags.website || tags["contact:website"]) score += 10;
+  if (tags.opening_hours) score += 5;
+  return score;
+}
+
+function fromOsmElement(el: any): PlaceResult | null {
+  const tags = el.tags || {};
+  const lat = el.lat ?? el.center?.lat;
+  const lng = el.lon ?? el.center?.lon;
+  if (!tags.name || typeof lat !== "number" || typeof lng !== "number") return null;
+  return {
+    title: tags["name:en"] || tags.name,
+    lat,
+    lng,
+    category: mapOsmCategory(tags),
+    address: osmAddress(tags),
+    placeId: `osm:${el.type}/${el.id}`,
+    rating: 0,
+    userRatingCount: osmNotability(tags),
+    // OSM uses yes / limited / no; "limited" usually means some steps.
+    wheelchairAccessible: tags.wheelchair ? tags.wheelchair === "yes" : undefined,
+    openingHours: parseOsmOpeningHours(tags.opening_hours),
+  };
+}
+
+export class OsmPlacesProvider implements PlacesProvider {
+  readonly name = "osm";
+  // Lookups in flight are shared too: parallel searches for one city must not
+  // each call Nominatim (its usage policy allows one request per second).
+  private areaCoords = new Map<string, Promise<{ lat: number; lng: number } | null>>();
+
+  constructor(
+    private overpassUrl = "https://overpass-api.de/api/interpreter",
+    private nominatimUrl = "https://nominatim.openstreetmap.org",
+  ) {}
+
+  async resolveCity(cityText: string): Promise<ResolvedCity | null> {
+    const url = `${this.nominatimUrl}/search?${new URLSearchParams({
+      q: cityText,
+      format: "jsonv2",
+      limit: "1",
+      addressdetails: "1",
+      "accept-language": "en",
+    })}`;
+    const res = await fetchWithTimeout(url, { headers: { "User-Agent": OSM_USER_AGENT } });
+    if (!res.ok) return null;
+    const [place] = await res.json();
+    if (!place) return null;
+
+    const address = place.address || {};
+    const name = place.name || address.city || address.town || address.village || cityText;
+    const region = address.state || address.region || "";
+    const country = address.country || "";
+    return {
+      cityLabel: [name, region, country].filter(Boolean).join(", "),
+      placeId: `osm:${place.osm_type}/${place.osm_id}`,
+      lat: parseFloat(place.lat),
+      lng: parseFloat(place.lon),
+      country,
+      region,
+    };
+  }
+
+  private async coordsFor(area: SearchArea): Promise<{ lat: number; lng: number } | null> {
+    if (typeof area.lat === "number" && typeof area.lng === "number") return { lat: area.lat, lng: area.lng };
+    const key = area.label.toLowerCase().trim();
+    let coords = this.areaCoords.get(key);
+    if (!coords) {
+      coords = this.resolveCity(area.label).then((resolved) => (resolved ? { lat: resolved.lat, lng: resolved.lng } : null));
+      // A failed lookup is retried next time rather than remembered.
+      coords.catch(() => this.areaCoords.delete(key));
+      this.areaCoords.set(key, coords);
+    }
+    return coords;
+  }
+
+  private async overpass(query: string): Promise<any[]> {
+    const res = await fetchWithTimeout(
+      this.overpassUrl,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded", "User-Agent": OSM_USER_AGENT },
+        body: new URLSearchParams({ data: query }).toString(),
+      },
+      15000,
+    );
+    if (!res.ok) {
+      console.error(`Overpass API error: ${res.status} ${res.statusText}`);
+      return [];
+    }
+    const data = await res.json();
+    return Array.isArray(data.elements) ? data.elements : [];
+  }
+
+  async searchPois(area: SearchArea, kind: PoiKind, limit: number): Promise<PlaceResult[]> {
+    const coords = await this.coordsFor(area);
+    if (!coords) return [];
+    const around = `(around:${OSM_SEARCH_RADIUS_M},${coords.lat},${coords.lng})`;
+    const query = `[out:json][timeout:12];(${OVERPASS_FILTERS[kind].map((f) => `${f}${around};`).join("")});out center tags 200;`;
+    const elements = await this.overpass(query);
+    return elements
+      .map(fromOsmElement)
+      .filter((p): p is PlaceResult => p !== null)
+      .sort((a, b) => b.userRatingCount - a.userRatingCount)
+      .slice(0, limit);
+  }
+
+  async getPlaceDetails(placeId: string): Promise<PlaceDetails | null> {
+    const match = placeId.match(/^osm:(node|way|relation)\/(\d+)$/);
+    if (!match) return null;
+    const [el] = await this.overpass(`[out:json][timeout:10];${match[1]}(${match[2]});out center tags;`);
+    const place = el ? fromOsmElement(el) : null;
+    if (!place) return null;
+    const tags = el.tags || {};
+    return {
+      ...place,
+      website: tags.website || tags["contact:website"] || undefined,
+      phone: tags.phone || tags["contact:phone"] || undefined,
+    };
+  }
+}
+
+/* -------------------- Fixture file -------------------- */
+
+interface FixtureCity {
+  /** Lowercased inputs that resolve to this city, e.g. ["paris", "paris, france"]. */
+  aliases: string[];
+  city: ResolvedCity;
+  /** openingHours are Google-style weekday lines, parsed on read. */
+  places: (Omit<PlaceDetails, "openingHours"> & { kinds: PoiKind[]; openingHours?: string[] })[];
+}
+
+function fromFixturePlace({ kinds, openingHours, ...place }: FixtureCity["places"][number]): PlaceDetails {
+  return { ...place, openingHours: openingHours ? parseWeekdayText(openingHours) : undefined };
+}
+
+/**
+ * Reads cities and places from a JSON file (see server/fixtures/places.json), for
+ * offline development and tests. Unknown cities resolve to null.
+ */
+export class FixturePlacesProvider implements PlacesProvider {
+  readonly name = "fixture";
+  private cities: FixtureCity[] | null = null;
+
+  constructor(private filePath: string) {}
+
+  private load(): FixtureCity[] {
+    if (!this.cities) {
+      const raw = JSON.parse(readFileSync(this.filePath, "utf-8"));
+      this.cities = Array.isArray(raw.cities) ? raw.cities : [];
+    }
+    return this.cities!;
+  }
+
+  private findCity(text: string): FixtureCity | undefined {
+    const key = text.toLowerCase().trim();
+    const firstPart = key.split(",")[0].trim();
+    return this.load().find(
+      (c) => c.aliases.includes(key) || c.aliases.includes(firstPart) || c.city.cityLabel.toLowerCase() === key,
+    );
+  }
+
+  async resolveCity(cityText: string): Promise<ResolvedCity | null> {
+    return this.findCity(cityText)?.city ?? null;
+  }
+
+  async searchPois(area: SearchArea, kind: PoiKind, limit: number): Promise<PlaceResult[]> {
+    const fixture = this.findCity(area.label);
+    if (!fixture) return [];
+    return fixture.places
+      .filter((p) => p.kinds.includes(kind))
+      .slice(0, limit)
+      .map((p) => {
+        const { website, phone, ...place } = fromFixturePlace(p);
+        return place;
+      });
+  }
+
+  async getPlaceDetails(placeId: string): Promise<PlaceDetails | null> {
+    for (const c of this.load()) {
+      const place = c.places.find((p) => p.placeId === placeId);
+      if (place) return fromFixturePlace(place);
+    }
+    return null;
+  }
+}
+
+/* -------------------- Selection -------------------- */
+
+const DEFAULT_FIXTURE_FILE = path.resolve(process.cwd(), "server", "fixtures", "places.json");
+
+function createProvider(): PlacesProvider {
+  const configured = process.env.PLACES_PROVIDER;
+  const googleKey = process.env.GOOGLE_PLACES_API_KEY;
+  const fixture = () => new FixturePlacesProvider(process.env.PLACES_FIXTURE_FILE || DEFAULT_FIXTURE_FILE);
+  const osm = () => new OsmPlacesProvider(process.env.OVERPASS_URL || undefined, process.env.NOMINATIM_URL || undefined);
+
+  if (configured === "fixture") return fixture();
+  if (configured === "osm") return osm();
+  if (configured === "google") {
+    if (googleKey) return new GooglePlacesProvider(googleKey);
+    console.error("PLACES_PROVIDER=google but GOOGLE_PLACES_API_KEY is not set; falling back to OpenStreetMap");
+    return osm();
+  }
+  if (process.env.NODE_ENV === "test") return fixture();
+  return googleKey ? new GooglePlacesProvider(googleKey) : osm();
+}
+
+let provider: PlacesProvider = createProvider();
+
+export function getPlacesProvider(): PlacesProvider {
+  return provider;
+}
+
+/** Swaps the provider behind every place lookup, e.g. to a FixturePlacesProvider in tests. */
+export function setPlacesProvider(next: PlacesProvider) {
+  provider = next;
+}
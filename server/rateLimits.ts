@@ -0,0 +1,132 @@
+import type { Request, RequestHandler } from "express";
+import { rateLimit, ipKeyGenerator } from "express-rate-limit";
+
+// Routes that call paid APIs (the LLM, Google Places, routing), grouped so
+// each group has its own quota.
+export type RateLimitGroup = "quiz" | "suggestions" | "enrichment" | "places";
+
+export interface RateLimit {
+  /** Requests per window for a signed-out caller, counted per IP (IPv6 per /56). */
+  anonymous: number;
+  /** Requests per window for a signed-in user, across all their devices. */
+  signedIn: number;
+}
+
+const DEFAULT_WINDOW_MINUTES = 15;
+
+// Enrichment and places calls run once per suggestion card, so they get more room.
+const DEFAULT_LIMITS: Record<RateLimitGroup, RateLimit> = {
+  quiz: { anonymous: 20, signedIn: 40 },
+  suggestions: { anonymous: 30, signedIn: 60 },
+  enrichment: { anonymous: 150, signedIn: 300 },
+  places: { anonymous: 150, signedIn: 300 },
+};
+
+// Sign-in and registration, against password guessing.
+export interface AuthRateLimit {
+  /** Attempts per window from one IP (IPv6 per /56), successful or not. */
+  perIp: number;
+  /** Failed attempts per window on one username, from anywhere. */
+  perUsername: number;
+}
+
+const DEFAULT_AUTH_LIMIT: AuthRateLimit = { perIp: 30, perUsername: 10 };
+
+// "20/40" -> [20, 40]; logs and ignores anything else.
+function pairFromEnv(name: string): [number, number] | null {
+  const value = process.env[name];
+  const match = value?.match(/^(\d+)\/(\d+)$/);
+  if (match) return [Number(match[1]), Number(match[2])];
+  if (value) console.error(`Ignoring ${name}="${value}" (expected e.g. "20/40")`);
+  return null;
+}
+
+/**
+ * RATE_LIMIT_QUIZ=20/40 (anonymous/signed-in) etc. override a group,
+ * RATE_LIMIT_AUTH=30/10 (per IP/per username) the auth limits;
+ * RATE_LIMIT_WINDOW_MINUTES the window; RATE_LIMITS=off turns them all off.
+ */
+function limitsFromEnv(): Record<RateLimitGroup, RateLimit> {
+  const limits = { ...DEFAULT_LIMITS };
+  for (const group of Object.keys(limits) as RateLimitGroup[]) {
+    const pair = pairFromEnv(`RATE_LIMIT_${group.toUpperCase()}`);
+    if (pair) limits[group] = { anonymous: pair[0], signedIn: pair[1] };
+  }
+  return limits;
+}
+
+function authLimitFromEnv(): AuthRateLimit {
+  const pair = pairFromEnv("RATE_LIMIT_AUTH");
+  return pair ? { perIp: pair[0], perUsername: pair[1] } : DEFAULT_AUTH_LIMIT;
+}
+
+const windowMinutes = Math.max(1, parseInt(process.env.RATE_LIMIT_WINDOW_MINUTES || "", 10) || DEFAULT_WINDOW_MINUTES);
+const limits = limitsFromEnv();
+const authLimit = authLimitFromEnv();
+const enabled = process.env.RATE_LIMITS !== "off";
+
+export function getRateLimitConfig() {
+  return { enabled, windowMinutes, limits, auth: authLimit };
+}
+
+function ipKey(req: Request): string {
+  // IPv4 clients of a dual-stack listener arrive as ::ffff:a.b.c.d, which would all share one /56.
+  const ip = (req.ip || "unknown").replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/, "");
+  return `ip:${ipKeyGenerator(ip)}`;
+}
+
+/** Who a request counts against: the signed-in user, otherwise the caller's IP (or its IPv6 /56). */
+export function clientKey(req: Request): string {
+  if (req.user) return `user:${req.user.id}`;
+  return ipKey(req);
+}
+
+function tooManyRequests(group: string, key: (req: Request) => string): RequestHandler {
+  return (req, res) => {
+    console.log(`RATE_LIMITED { group: "${group}", client: "${key(req)}", path: "${req.path}" }`);
+    res.status(429).json({ error: "Too many requests. Please wait a few minutes and try again." });
+  };
+}
+
+// Counters live in memory, per server process.
+export function createRateLimiter(group: RateLimitGroup): RequestHandler {
+  const { anonymous, signedIn } = limits[group];
+  return rateLimit({
+    windowMs: windowMinutes * 60 * 1000,
+    limit: (req) => (req.user ? signedIn : anonymous),
+    keyGenerator: (req) => `${group}|${clientKey(req)}`,
+    skip: () => !enabled,
+    standardHeaders: "draft-8",
+    legacyHeaders: false,
+    handler: tooManyRequests(group, clientKey),
+  });
+}
+
+const usernameOf = (req: Request) =>
+  typeof req.body?.username === "string" ? req.body.username.trim().toLowerCase() : "";
+
+/**
+ * For /api/auth/login and /api/auth/register: every attempt counts against the
+ * caller's IP, and failed ones also against the username tried, so guessing one
+ * account's password from many IPs is throttled too.
+ */
+export function createAuthRateLimiters(): [RequestHandler, RequestHandler] {
+  const windowMs = windowMinutes * 60 * 1000;
+  const common = { windowMs, skip: () => !enabled, standardHeaders: "draft-8", legacyHeaders: false } as const;
+  return [
+    rateLimit({
+      ...common,
+      limit: authLimit.perIp,
+      keyGenerator: (req) => `auth|${ipKey(req)}`,
+      handler: tooManyRequests("auth", ipKey),
+    }),
+    rateLimit({
+      ...common,
+      limit: authLimit.perUsername,
+      keyGenerator: (req) => `auth|username:${usernameOf(req)}`,
+      skip: (req) => !enabled || !usernameOf(req),
+      skipSuccessfulRequests: true,
+      handler: tooManyRequests("auth", (req) => `username:${usernameOf(req)}`),
+    }),
+  ];
+}
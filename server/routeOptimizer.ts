@@ -0,0 +1,149 @@
+export interface RoutePoint {
+  id: string;
+  lat: number;
+  lng: number;
+}
+
+export interface RouteLeg {
+  fromId: string | null;
+  toId: string;
+  distanceKm: number;
+}
+
+export interface OptimizedRoute {
+  order: string[];
+  legs: RouteLeg[];
+  totalKm: number;
+}
+
+export function haversineKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const R = 6371;
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLng = (lng2 - lng1) * Math.PI / 180;
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * Math.sin(dLng / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function distanceMatrix(points: { lat: number; lng: number }[]): number[][] {
+  return points.map((a) => points.map((b) => haversineKm(a.lat, a.lng, b.lat, b.lng)));
+}
+
+function pathLength(path: number[], dist: number[][]): number {
+  let total = 0;
+  for (let i = 1; i < path.length; i++) total += dist[path[i - 1]][path[i]];
+  return total;
+}
+
+function nearestNeighbour(start: number, nodes: number[], dist: number[][]): number[] {
+  const path = [start];
+  const remaining = new Set(nodes.filter((n) => n !== start));
+  let current = start;
+  while (remaining.size > 0) {
+    let best = -1;
+    let bestDist = Infinity;
+    for (const n of Array.from(remaining)) {
+      if (dist[current][n] < bestDist) {
+        bestDist = dist[current][n];
+        best = n;
+      }
+    }
+    path.push(best);
+    remaining.delete(best);
+    current = best;
+  }
+  return path;
+}
+
+// 2-opt for an open path whose first node stays fixed: reversing path[i..k]
+// only changes the edge into i and the edge out of k (if there is one).
+function twoOpt(path: number[], dist: number[][]): number[] {
+  const p = [...path];
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 1; i < p.length - 1; i++) {
+      for (let k = i + 1; k < p.length; k++) {
+        const before = dist[p[i - 1]][p[i]] + (k + 1 < p.length ? dist[p[k]][p[k + 1]] : 0);
+        const after = dist[p[i - 1]][p[k]] + (k + 1 < p.length ? dist[p[i]][p[k + 1]] : 0);
+        if (after < before - 1e-9) {
+          const reversed = p.slice(i, k + 1).reverse();
+          p.splice(i, reversed.length, ...reversed);
+          improved = true;
+        }
+      }
+    }
+  }
+  return p;
+}
+
+function buildRoute(path: number[], ids: (string | null)[], dist: number[][]): OptimizedRoute {
+  const legs: RouteLeg[] = [];
+  for (let i = 1; i < path.length; i++) {
+    legs.push({
+      fromId: ids[path[i - 1]],
+      toId: ids[path[i]] as string,
+      distanceKm: dist[path[i - 1]][path[i]],
+    });
+  }
+  return {
+    order: path.map((n) => ids[n]).filter((id): id is string => id !== null),
+    legs,
+    totalKm: legs.reduce((sum, l) => sum + l.distanceKm, 0),
+  };
+}
+
+// Trying every first stop costs about n^4; above this many points only the
+// point farthest from the centre (a natural end of the route) is tried.
+const ALL_STARTS_MAX_POINTS = 20;
+
+function farthestFromCentre(points: RoutePoint[]): number {
+  const lat = points.reduce((sum, p) => sum + p.lat, 0) / points.length;
+  const lng = points.reduce((sum, p) => sum + p.lng, 0) / points.length;
+  let best = 0;
+  points.forEach((p, i) => {
+    if (haversineKm(lat, lng, p.lat, p.lng) > haversineKm(lat, lng, points[best].lat, points[best].lng)) best = i;
+  });
+  return best;
+}
+
+/**
+ * Orders points to minimise straight-line travel. With a start (the hotel) the
+ * route begins there; otherwise every point is tried as the first stop (for up
+ * to ALL_STARTS_MAX_POINTS points). Nearest-neighbour seeds the route and 2-opt
+ * removes crossings.
+ */
+export function optimizeVisitOrder(
+  points: RoutePoint[],
+  start?: { lat: number; lng: number } | null,
+): OptimizedRoute {
+  if (points.length === 0) return { order: [], legs: [], totalKm: 0 };
+
+  if (start) {
+    const ids: (string | null)[] = [null, ...points.map((p) => p.id)];
+    const dist = distanceMatrix([start, ...points]);
+    const nodes = ids.map((_, i) => i);
+    const path = twoOpt(nearestNeighbour(0, nodes, dist), dist);
+    return buildRoute(path, ids, dist);
+  }
+
+  const ids = points.map((p) => p.id);
+  const dist = distanceMatrix(points);
+  const nodes = ids.map((_, i) => i);
+  const starts = nodes.length <= ALL_STARTS_MAX_POINTS ? nodes : [farthestFromCentre(points)];
+  let best: number[] | null = null;
+  for (const s of starts) {
+    const path = twoOpt(nearestNeighbour(s, nodes, dist), dist);
+    if (!best || pathLength(path, dist) < pathLength(best, dist)) best = path;
+  }
+  return buildRoute(best!, ids, dist);
+}
+
+/** Straight-line length of the route when visiting points in the given order. */
+export function routeLengthKm(points: RoutePoint[], start?: { lat: number; lng: number } | null): number {
+  const seq = start ? [start, ...points] : points;
+  let total = 0;
+  for (let i = 1; i < seq.length; i++) {
+    total += haversineKm(seq[i - 1].lat, seq[i - 1].lng, seq[i].lat, seq[i].lng);
+  }
+  return total;
+}
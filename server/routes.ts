@@ -1,14 +1,53 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
+import { randomBytes } from "crypto";
 import { storage } from "./storage";
-import { insertTripSchema, insertTripSpotSchema, quizQuestionSchema, suggestionSchema } from "@shared/schema";
+import { registerAuthRoutes, requireAdmin, requireAuth } from "./auth";
+import { createCache, getCacheStats, startCacheSweeper } from "./cache";
+import {
+  insertTripSchema,
+  insertTripSpotSchema,
+  quizQuestionSchema,
+  suggestionSchema,
+  timeSlotSchema,
+  reorderDaySpotsSchema,
+  moveTripSpotSchema,
+  submitQuizAttemptSchema,
+  difficultySchema,
+  suggestionFiltersSchema,
+  PLACE_CATEGORIES,
+  travelerProfileSchema,
+  sessionDraftSchema,
+  openingHoursSchema,
+  createTripShareSchema,
+  addTripMemberSchema,
+  syncTripSpotsSchema,
+  optimizeRouteSchema,
+  type SyncTripSpot,
+  type TriviaQuestion,
+  MAX_TRIP_DAYS,
+  MAX_TRIP_SPOTS,
+  MAX_ROUTE_SPOTS,
+  travelTimesSchema,
+  type PlaceCategory,
+  type SharedTrip,
+  type TripShare,
+  type SuggestionFilters,
+  type TravelerInterest,
+  type TravelerProfile,
+} from "@shared/schema";
 import { z } from "zod";
-import OpenAI from "openai";
-
-const openai = new OpenAI({
-  apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
-  baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
-});
+import { completeLlm, getLlmProvider } from "./llm";
+import { AiBudgetExceededError, getAiUsageReport } from "./aiUsage";
+import { clientKey, createRateLimiter, getRateLimitConfig } from "./rateLimits";
+import { getPlacesProvider, type PlaceResult, type PoiKind, type ResolvedCity, type SearchArea } from "./places";
+import { haversineKm, optimizeVisitOrder, routeLengthKm, type RoutePoint } from "./routeOptimizer";
+import { getRoutingProvider, type TravelLeg } from "./routing";
+import { EXPORT_FORMATS, renderTripExport, tripFileSlug, type ExportFormat } from "./tripExport";
+import { BOOKLET_FORMATS, buildBooklet, renderBookletHtml, renderBookletPdf, type BookletFormat } from "./tripBooklet";
+import { rankPlaces } from "./placeRanking";
+import { broadcastSpotsChange, removeTripViewer } from "./tripSync";
+import { estimateVisitMinutes } from "@shared/itineraryChecks";
 
 function safeJsonParse(text: string): any {
   try {
@@ -98,19 +137,10 @@ function validateSuggestions(suggestions: any[], excludeTitles: string[] = [], e
   });
 }
 
-interface ResolvedCity {
-  cityLabel: string;
-  placeId: string;
-  lat: number;
-  lng: number;
-  country: string;
-  region: string;
-}
-
 interface CityContextPOI {
   placeId: string;
   name: string;
-  types: string[];
+  category: string;
   rating: number;
   userRatingsTotal: number;
 }
@@ -121,74 +151,25 @@ interface CityContext {
   pois: CityContextPOI[];
 }
 
-const cityResolveCache = new Map<string, { data: ResolvedCity; ts: number }>();
-const cityContextCache = new Map<string, { data: CityContext; ts: number }>();
 const CITY_CACHE_TTL = 24 * 60 * 60 * 1000;
+const cityResolveCache = createCache<ResolvedCity>("city-resolve", CITY_CACHE_TTL);
+const cityContextCache = createCache<CityContext>("city-context", CITY_CACHE_TTL);
 
-const triviaPoolCache = new Map<string, { questions: any[]; ts: number }>();
 const TRIVIA_POOL_TTL = 24 * 60 * 60 * 1000;
+const triviaPoolCache = createCache<any[]>("trivia-pool", TRIVIA_POOL_TTL);
 
-const enrichmentCache = new Map<string, { data: { description: string; funFact: string }; ts: number }>();
 const ENRICHMENT_CACHE_TTL = 30 * 24 * 60 * 60 * 1000;
+const enrichmentCache = createCache<{ description: string; funFact: string }>("poi-enrichment", ENRICHMENT_CACHE_TTL);
 
 async function resolveCity(cityText: string): Promise<ResolvedCity | null> {
   const cacheKey = cityText.toLowerCase().trim();
-  const cached = cityResolveCache.get(cacheKey);
-  if (cached && Date.now() - cached.ts < CITY_CACHE_TTL) return cached.data;
-
-  const apiKey = process.env.GOOGLE_PLACES_API_KEY;
-  if (!apiKey) return null;
+  const cached = await cityResolveCache.get(cacheKey);
+  if (cached) return cached;
 
   try {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 5000);
-    const res = await fetch("https://places.googleapis.com/v1/places:searchText", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "X-Goog-Api-Key": apiKey,
-        "X-Goog-FieldMask": "places.id,places.displayName,places.formattedAddress,places.location,places.addressComponents",
-      },
-      body: JSON.stringify({
-        textQuery: cityText,
-        pageSize: 1,
-        languageCode: "en",
-      }),
-      signal: controller.signal,
-    });
-    clearTimeout(timeout);
-
-    if (!res.ok) return null;
-    const data = await res.json();
-    if (!data.places || data.places.length === 0) return null;
-
-    const place = data.places[0];
-    const addr = place.formattedAddress || cityText;
-    const parts = addr.split(",").map((s: string) => s.trim());
-
-    let country = "";
-    let region = "";
-    if (place.addressComponents) {
-      for (const comp of place.addressComponents) {
-        if (comp.types?.includes("country")) country = comp.longText || comp.shortText || "";
-        if (comp.types?.includes("administrative_area_level_1")) region = comp.longText || comp.shortText || "";
-      }
-    }
-    if (!country && parts.length >= 2) country = parts[parts.length - 1];
-    if (!region && parts.length >= 3) region = parts[parts.length - 2];
-
-    const cityLabel = parts.length >= 2 ? parts.slice(0, Math.min(parts.length, 3)).join(", ") : addr;
-
-    const resolved: ResolvedCity = {
-      cityLabel,
-      placeId: place.id || "",
-      lat: place.location?.latitude || 0,
-      lng: place.location?.longitude || 0,
-      country,
-      region,
-    };
-
-    cityResolveCache.set(cacheKey, { data: resolved, ts: Date.now() });
+    const resolved = await getPlacesProvider().resolveCity(cityText);
+    if (!resolved) return null;
+    await cityResolveCache.set(cacheKey, resolved);
     return resolved;
   } catch (err) {
     console.error("resolveCity error:", err);
@@ -196,44 +177,20 @@ async function resolveCity(cityText: string): Promise<ResolvedCity | null> {
   }
 }
 
-async function getCityContext(placeId: string, cityLabel: string): Promise<CityContext> {
-  const cached = cityContextCache.get(placeId);
-  if (cached && Date.now() - cached.ts < CITY_CACHE_TTL) return cached.data;
-
-  const shortName = cityLabel.split(",")[0].trim();
-  const queries = [
-    `${shortName} top attractions landmarks`,
-    `${shortName} museums parks historical sites`,
-  ];
+// Pass the city's coordinates in `area` when known, so the places provider
+// doesn't have to look them up again.
+async function getCityContext(placeId: string, area: SearchArea): Promise<CityContext> {
+  const cityLabel = area.label;
+  const cached = await cityContextCache.get(placeId);
+  if (cached) return cached;
 
-  const apiKey = process.env.GOOGLE_PLACES_API_KEY;
-  if (!apiKey) return { cityLabel, placeId, pois: [] };
+  const kinds: PoiKind[] = ["attractions", "museums", "historic"];
+  const provider = getPlacesProvider();
 
   const results = await Promise.all(
-    queries.map(async (query) => {
+    kinds.map(async (kind) => {
       try {
-        const controller = new AbortController();
-        const timeout = setTimeout(() => controller.abort(), 5000);
-        const res = await fetch("https://places.googleapis.com/v1/places:searchText", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "X-Goog-Api-Key": apiKey,
-            "X-Goog-FieldMask": "places.id,places.displayName,places.types,places.rating,places.userRatingCount",
-          },
-          body: JSON.stringify({ textQuery: query, pageSize: 10, languageCode: "en" }),
-          signal: controller.signal,
-        });
-        clearTimeout(timeout);
-        if (!res.ok) return [];
-        const data = await res.json();
-        return (data.places || []).map((p: any) => ({
-          placeId: p.id || "",
-          name: p.displayName?.text || "",
-          types: p.types || [],
-          rating: p.rating || 0,
-          userRatingsTotal: p.userRatingCount || 0,
-        }));
+        return await provider.searchPois(area, kind, 10);
       } catch {
         return [];
       }
@@ -241,15 +198,21 @@ async function getCityContext(placeId: string, cityLabel: string): Promise<CityC
   );
 
   const deduped = new Map<string, CityContextPOI>();
-  for (const poi of results.flat()) {
-    if (poi.name && poi.name.length >= 3 && !deduped.has(poi.placeId)) {
-      deduped.set(poi.placeId, poi);
+  for (const place of results.flat()) {
+    if (place.title && place.title.length >= 3 && !deduped.has(place.placeId)) {
+      deduped.set(place.placeId, {
+        placeId: place.placeId,
+        name: place.title,
+        category: place.category,
+        rating: place.rating,
+        userRatingsTotal: place.userRatingCount,
+      });
     }
   }
 
   const pois = Array.from(deduped.values()).slice(0, 20);
   const ctx: CityContext = { cityLabel, placeId, pois };
-  cityContextCache.set(placeId, { data: ctx, ts: Date.now() });
+  if (pois.length > 0) await cityContextCache.set(placeId, ctx);
   return ctx;
 }
 
@@ -264,6 +227,199 @@ function generateQuestionId(cityPlaceId: string, difficulty: string, questionTex
   return Math.abs(hash).toString(36);
 }
 
+const DEVICE_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+// Seen questions follow the signed-in user across devices; anonymous players
+// are tracked by the X-Device-Id header the client generates once.
+function getSeenOwnerKey(req: Request): string | null {
+  if (req.user) return `user:${req.user.id}`;
+  const deviceId = req.get("X-Device-Id");
+  return deviceId && DEVICE_ID_PATTERN.test(deviceId) ? `device:${deviceId}` : null;
+}
+
+// Every seen-question history a signed-in caller's quizzes may have been
+// recorded under: the account's, and this device's from before signing in.
+function getSeenOwnerKeys(req: Request): string[] {
+  const deviceId = req.get("X-Device-Id");
+  return [
+    ...(req.user ? [`user:${req.user.id}`] : []),
+    ...(deviceId && DEVICE_ID_PATTERN.test(deviceId) ? [`device:${deviceId}`] : []),
+  ];
+}
+
+// Anonymous players, and profile lookups that fail, simply get unpersonalised results.
+async function getRequestProfile(req: Request): Promise<TravelerProfile | null> {
+  if (!req.user) return null;
+  try {
+    return (await storage.getTravelerProfile(req.user.id)) ?? null;
+  } catch (err) {
+    console.error("Traveler profile lookup error:", err);
+    return null;
+  }
+}
+
+const INTEREST_CATEGORIES: Record<TravelerInterest, PlaceCategory> = {
+  History: "Landmark",
+  Art: "Culture",
+  Architecture: "Landmark",
+  Food: "Food",
+  Nature: "Nature",
+  Nightlife: "Entertainment",
+  Shopping: "Shopping",
+  Music: "Entertainment",
+  Sports: "Entertainment",
+  "Local culture": "Culture",
+};
+
+// Banked questions carry no topic tags, so interests are matched on keywords.
+const INTEREST_KEYWORDS: Record<TravelerInterest, string[]> = {
+  History: ["century", "founded", "war", "king", "queen", "emperor", "empire", "ancient", "medieval", "history", "historic"],
+  Art: ["painting", "painter", "artist", "sculpture", "museum", "gallery", "mural", "art"],
+  Architecture: ["architect", "built", "tower", "cathedral", "facade", "dome", "bridge", "style", "designed"],
+  Food: ["dish", "food", "eat", "cuisine", "restaurant", "snack", "drink", "market", "bakery", "cafe"],
+  Nature: ["park", "garden", "river", "hill", "lake", "tree", "island", "mountain", "beach"],
+  Nightlife: ["bar", "club", "night", "cocktail", "pub", "cabaret"],
+  Shopping: ["shop", "market", "store", "boutique", "arcade", "department"],
+  Music: ["music", "opera", "composer", "concert", "song", "band", "jazz"],
+  Sports: ["stadium", "football", "team", "olympic", "race", "sport", "club"],
+  "Local culture": ["festival", "tradition", "custom", "locals", "celebrate", "dialect", "folk"],
+};
+
+function preferredCategories(profile: TravelerProfile | null): PlaceCategory[] {
+  return Array.from(new Set((profile?.interests || []).map(i => INTEREST_CATEGORIES[i])));
+}
+
+function triviaProfileNote(profile: TravelerProfile | null, requestCount: number): string {
+  if (!profile?.interests.length) return "";
+  return `\nThe traveler is especially interested in: ${profile.interests.join(", ")}. About ${Math.ceil(requestCount / 2)} of the questions should lean toward these interests; keep the rest varied.`;
+}
+
+function suggestionProfileNote(profile: TravelerProfile | null): string {
+  if (!profile) return "";
+  const lines: string[] = [];
+  if (profile.interests.length) lines.push(`- Favour places matching these interests: ${profile.interests.join(", ")}.`);
+  if (profile.dietary.length) lines.push(`- Any food suggestion must suit these dietary needs: ${profile.dietary.join(", ")}.`);
+  if (profile.mobility.includes("Step-free access")) lines.push("- Only suggest places with step-free access; skip towers, crypts and hilltop sites reached by stairs.");
+  if (profile.mobility.includes("Limited walking")) lines.push("- The traveler has limited walking; avoid large sites that need long walks or steep climbs.");
+  if (profile.mobility.includes("Stroller friendly")) lines.push("- The traveler has a stroller; prefer places with ramps or lifts.");
+  if (profile.budget) lines.push(`- Budget level: ${profile.budget}.`);
+  if (profile.pace) lines.push(`- Travel pace: ${profile.pace}.`);
+  return lines.length ? `\nTraveler profile:\n${lines.join("\n")}` : "";
+}
+
+function interestMatches(q: any, interests: TravelerInterest[]): boolean {
+  const text = `${q.question} ${q.funFact || ""}`.toLowerCase();
+  return interests.some(i => INTEREST_KEYWORDS[i].some(k => text.includes(k)));
+}
+
+// Moves interest-matching questions to the front, but only enough to fill a
+// bit over half the quiz so the rest stays varied.
+function leanTowardInterests(questions: any[], interests: TravelerInterest[], count: number): any[] {
+  if (interests.length === 0) return questions;
+  const quota = Math.ceil(count * 0.6);
+  const leading = questions.filter(q => interestMatches(q, interests)).slice(0, quota);
+  const leadingSet = new Set(leading);
+  return [...leading, ...questions.filter(q => !leadingSet.has(q))];
+}
+
+// Stub output is fixture text: serve it, but never bank or cache it, or it
+// would outlive the stub and be served as real content.
+function storesAiContent(): boolean {
+  return getLlmProvider().name !== "stub";
+}
+
+async function generateTrivia(prompt: string, poiNames: string[], cityLabel: string, client: string): Promise<any[]> {
+  const content = await completeLlm({ task: "trivia", prompt, maxTokens: 4000, subject: cityLabel, client });
+  let parsed = safeJsonParse(content);
+  if (!Array.isArray(parsed)) parsed = parsed?.questions || [];
+  return validateTriviaQuestions(parsed, poiNames);
+}
+
+// The trivia bank is an optimisation: if Postgres is unavailable the quiz
+// still works from the pool cache and the LLM.
+async function loadTriviaBank(cityPlaceId: string, difficulties: string[]): Promise<any[]> {
+  try {
+    const rows = (await Promise.all(difficulties.map(d => storage.getTriviaQuestions(cityPlaceId, d)))).flat();
+    return rows.map(r => ({
+      id: r.id,
+      question: r.question,
+      options: r.options,
+      correctIndex: r.correctIndex,
+      funFact: r.funFact || "",
+      accuracy: estimateAccuracy(r.difficulty, r.timesAnswered, r.timesCorrect),
+    }));
+  } catch (err) {
+    console.error("Trivia bank read error:", err);
+    return [];
+  }
+}
+
+async function saveToTriviaBank(cityPlaceId: string, difficulty: string, questions: any[]): Promise<void> {
+  try {
+    await storage.saveTriviaQuestions(questions.map(q => ({
+      id: generateQuestionId(cityPlaceId, difficulty, q.question),
+      cityPlaceId,
+      difficulty,
+      question: q.question,
+      options: q.options,
+      correctIndex: q.correctIndex,
+      funFact: q.funFact || null,
+    })));
+  } catch (err) {
+    console.error("Trivia bank write error:", err);
+  }
+}
+
+// Accuracy starts at what the generating prompt aimed for and moves towards
+// the observed rate as real answers come in.
+const ACCURACY_PRIOR: Record<string, number> = { standard: 0.7, challenge: 0.45 };
+const ACCURACY_PRIOR_WEIGHT = 5;
+const DEFAULT_TARGET_ACCURACY = 0.65;
+const ADAPTIVE_RESERVE_SIZE = 6;
+
+function estimateAccuracy(difficulty: string, timesAnswered = 0, timesCorrect = 0): number {
+  const prior = ACCURACY_PRIOR[difficulty] ?? ACCURACY_PRIOR.standard;
+  return (timesCorrect + prior * ACCURACY_PRIOR_WEIGHT) / (timesAnswered + ACCURACY_PRIOR_WEIGHT);
+}
+
+async function getTargetAccuracy(req: Request): Promise<number> {
+  if (!req.user) return DEFAULT_TARGET_ACCURACY;
+  try {
+    const { answered, correct } = await storage.getRecentAnswerStats(req.user.id, 40);
+    if (answered < 8) return DEFAULT_TARGET_ACCURACY;
+    return Math.min(0.9, Math.max(0.3, correct / answered));
+  } catch (err) {
+    console.error("Recent accuracy lookup error:", err);
+    return DEFAULT_TARGET_ACCURACY;
+  }
+}
+
+// Picks the questions closest to the target accuracy (served easiest first) and
+// keeps a few easier and harder ones in reserve for mid-quiz adjustments.
+function pickAdaptiveQuestions(pool: any[], targetAccuracy: number, count: number): { selected: any[]; reserve: any[] } {
+  const byDistance = [...pool].sort(
+    (a, b) => Math.abs(a.accuracy - targetAccuracy) - Math.abs(b.accuracy - targetAccuracy)
+  );
+  const selected = byDistance.slice(0, count).sort((a, b) => b.accuracy - a.accuracy);
+  const rest = byDistance.slice(count);
+  const half = ADAPTIVE_RESERVE_SIZE / 2;
+  const easier = rest.filter(q => q.accuracy >= targetAccuracy).slice(0, half);
+  const harder = rest.filter(q => q.accuracy < targetAccuracy).slice(0, half);
+  return { selected, reserve: [...easier, ...harder] };
+}
+
+function mergeTriviaQuestions(...lists: any[][]): any[] {
+  const seen = new Set<string>();
+  const merged: any[] = [];
+  for (const q of lists.flat()) {
+    const key = q.question.trim().toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    merged.push(q);
+  }
+  return merged;
+}
+
 function validateTriviaQuestions(questions: any[], poiNames: string[]): any[] {
   const poiNamesLower = poiNames.map(n => n.toLowerCase());
 
@@ -312,7 +468,15 @@ export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
-  app.post("/api/quiz/generate", async (req, res) => {
+  startCacheSweeper();
+
+  // Paid-API routes are throttled per user / IP (server/rateLimits.ts).
+  const quizLimiter = createRateLimiter("quiz");
+  const suggestionsLimiter = createRateLimiter("suggestions");
+  const enrichmentLimiter = createRateLimiter("enrichment");
+  const placesLimiter = createRateLimiter("places");
+
+  app.post("/api/quiz/generate", quizLimiter, async (req, res) => {
     try {
       const {
   city,
@@ -329,13 +493,22 @@ export async function registerRoutes(
         return res.status(400).json({ error: "City is required" });
       }
 
+      const isAdaptive = difficulty === "adaptive";
+      const targetAccuracy = isAdaptive ? await getTargetAccuracy(req) : null;
+      const profile = await getRequestProfile(req);
+      const interests = profile?.interests || [];
+      // Adaptive quizzes draw on both banks; new questions are generated at whichever level is closer.
+      const generationDifficulty: string = isAdaptive
+        ? (targetAccuracy! >= 0.6 ? "standard" : "challenge")
+        : difficulty;
+
       let cityLabel = providedLabel || city;
       let cityPlaceId = providedPlaceId || "";
       let poiNames: string[] = [];
       let poiContext = "";
 
       if (cityPlaceId) {
-        const context = await getCityContext(cityPlaceId, cityLabel);
+        const context = await getCityContext(cityPlaceId, { label: cityLabel });
         poiNames = context.pois.map(p => p.name);
         if (context.pois.length > 0) {
           poiContext = `\nREAL PLACES in ${cityLabel} (use these as question topics):\n${context.pois.map(p => `- ${p.name} (rating: ${p.rating}, reviews: ${p.userRatingsTotal})`).join("\n")}`;
@@ -345,7 +518,7 @@ export async function registerRoutes(
         if (resolved) {
           cityLabel = resolved.cityLabel;
           cityPlaceId = resolved.placeId;
-          const context = await getCityContext(resolved.placeId, cityLabel);
+          const context = await getCityContext(resolved.placeId, { label: cityLabel, lat: resolved.lat, lng: resolved.lng });
           poiNames = context.pois.map(p => p.name);
           if (context.pois.length > 0) {
             poiContext = `\nREAL PLACES in ${cityLabel} (use these as question topics):\n${context.pois.map(p => `- ${p.name} (rating: ${p.rating}, reviews: ${p.userRatingsTotal})`).join("\n")}`;
@@ -353,7 +526,17 @@ export async function registerRoutes(
         }
       }
 
-      const excludeSet = new Set(Array.isArray(excludeQuestionIds) ? excludeQuestionIds : []);
+      const seenOwnerKey = cityPlaceId ? getSeenOwnerKey(req) : null;
+      const seenQuestionIds = seenOwnerKey
+        ? await storage.getSeenQuestionIds(seenOwnerKey, cityPlaceId).catch((err) => {
+            console.error("Seen question lookup error:", err);
+            return [] as string[];
+          })
+        : [];
+      const excludeSet = new Set([
+        ...seenQuestionIds,
+        ...(Array.isArray(excludeQuestionIds) ? excludeQuestionIds : []),
+      ]);
       const requestCount = excludeSet.size > 10 ? Math.min(count * 2, 16) : count;
 
       const difficultyGuide: Record<string, string> = {
@@ -372,10 +555,11 @@ export async function registerRoutes(
       const prompt = `Generate exactly ${requestCount} trivia questions about ${cityLabel} for a travel quiz app.
 ${poiContext}
 
-Difficulty: ${difficulty}
-${difficultyGuide[difficulty] || difficultyGuide.standard}
+Difficulty: ${generationDifficulty}
+${difficultyGuide[generationDifficulty] || difficultyGuide.standard}
 ${excludeNote}
 ${poiRequirement}
+${triviaProfileNote(profile, requestCount)}
 
 CRITICAL RULES:
 - Each question MUST have exactly 4 unique answer options
@@ -401,73 +585,87 @@ Return ONLY a JSON array:
   }
 ]`;
 
-      const triviaCacheKey = `${cityPlaceId || city.toLowerCase()}|${difficulty}`;
-      const cachedTrivia = triviaPoolCache.get(triviaCacheKey);
+      // Interest-led batches are cached apart so they don't crowd out the general pool.
+      const interestKey = interests.length ? `|${[...interests].sort().join("+")}` : "";
+      const triviaCacheKey = `${cityPlaceId || city.toLowerCase()}|${generationDifficulty}${interestKey}`;
+      const questionIdOf = (q: any): string => q.id || generateQuestionId(cityPlaceId, generationDifficulty, q.question);
+      const isUnseen = (q: any) => !excludeSet.has(questionIdOf(q));
       let allQuestions: any[] = [];
-      let triviaSource = "openai";
-
-      console.log(`TRIVIA_GENERATE { city: "${city}", cityLabel: "${cityLabel}", cityPlaceId: "${cityPlaceId}", difficulty: "${difficulty}", cacheKey: "${triviaCacheKey}", hasCityPlaceId: ${!!providedPlaceId} }`);
-
-      if (cachedTrivia && Date.now() - cachedTrivia.ts < TRIVIA_POOL_TTL && cachedTrivia.questions.length > 0) {
-        allQuestions = cachedTrivia.questions;
-        triviaSource = "cache";
-      } else {
-        if (cachedTrivia && cachedTrivia.questions.length === 0) {
-          triviaPoolCache.delete(triviaCacheKey);
+      let triviaSource = getLlmProvider().name;
+
+      // Once the caller's or the server's AI budget is used up, the quiz is built
+      // from banked and cached questions (repeats included), then curated ones.
+      let budgetExhausted = false;
+      const generateWithinBudget = async (): Promise<any[]> => {
+        try {
+          return await generateTrivia(prompt, poiNames, cityLabel, clientKey(req));
+        } catch (err) {
+          if (!(err instanceof AiBudgetExceededError)) throw err;
+          console.log(`AI_BUDGET_EXCEEDED { task: "trivia", scope: "${err.scope}" }`);
+          budgetExhausted = true;
+          return [];
         }
-        const response = await openai.chat.completions.create({
-          model: "gpt-4o-mini",
-          messages: [{ role: "user", content: prompt }],
-          max_completion_tokens: 4000,
-        });
+      };
 
-        const content = response.choices[0]?.message?.content || "";
-        let parsed = safeJsonParse(content);
-        if (!Array.isArray(parsed)) parsed = parsed?.questions || [];
+      console.log(`TRIVIA_GENERATE { city: "${city}", cityLabel: "${cityLabel}", cityPlaceId: "${cityPlaceId}", difficulty: "${difficulty}", cacheKey: "${triviaCacheKey}", hasCityPlaceId: ${!!providedPlaceId} }`);
 
-        allQuestions = validateTriviaQuestions(parsed, poiNames);
+      const bankQuestions = cityPlaceId
+        ? await loadTriviaBank(cityPlaceId, isAdaptive ? ["standard", "challenge"] : [generationDifficulty])
+        : [];
+      const unseenBankCount = bankQuestions.filter(isUnseen).length;
 
-        if (allQuestions.length >= 4) {
-          triviaPoolCache.set(triviaCacheKey, { questions: allQuestions, ts: Date.now() });
+      if (unseenBankCount >= count) {
+        allQuestions = bankQuestions;
+        triviaSource = "bank";
+      } else {
+        const cachedTrivia = await triviaPoolCache.get(triviaCacheKey);
+        if (cachedTrivia && cachedTrivia.length > 0) {
+          allQuestions = cachedTrivia;
+          triviaSource = "cache";
+        } else {
+          if (cachedTrivia && cachedTrivia.length === 0) {
+            await triviaPoolCache.delete(triviaCacheKey);
+          }
+          allQuestions = await generateWithinBudget();
+          if (allQuestions.length >= 4 && storesAiContent()) {
+            await triviaPoolCache.set(triviaCacheKey, allQuestions);
+          }
+          if (cityPlaceId && storesAiContent()) await saveToTriviaBank(cityPlaceId, generationDifficulty, allQuestions);
         }
+        allQuestions = mergeTriviaQuestions(bankQuestions, allQuestions);
       }
 
       let questions = allQuestions;
 
       if (cityPlaceId) {
-        questions = questions.filter(q => {
-          const qId = generateQuestionId(cityPlaceId, difficulty, q.question);
-          return !excludeSet.has(qId);
-        });
+        questions = questions.filter(isUnseen);
       }
 
       if (questions.length < Math.min(count, 4) && triviaSource === "cache" && cityPlaceId) {
-        console.log(`TRIVIA_CACHE_EXHAUSTED: All cached questions excluded, regenerating from OpenAI`);
-        triviaPoolCache.delete(triviaCacheKey);
-        const response = await openai.chat.completions.create({
-          model: "gpt-4o-mini",
-          messages: [{ role: "user", content: prompt }],
-          max_completion_tokens: 4000,
-        });
-        const content = response.choices[0]?.message?.content || "";
-        let parsed = safeJsonParse(content);
-        if (!Array.isArray(parsed)) parsed = parsed?.questions || [];
-        const freshQuestions = validateTriviaQuestions(parsed, poiNames);
-        if (freshQuestions.length >= 4) {
-          triviaPoolCache.set(triviaCacheKey, { questions: freshQuestions, ts: Date.now() });
-        }
-        questions = freshQuestions.filter(q => {
-          const qId = generateQuestionId(cityPlaceId, difficulty, q.question);
-          return !excludeSet.has(qId);
-        });
-        if (questions.length === 0) {
-          questions = freshQuestions;
+        console.log(`TRIVIA_CACHE_EXHAUSTED: All cached and banked questions excluded, regenerating from the LLM`);
+        const freshQuestions = await generateWithinBudget();
+        if (!budgetExhausted) {
+          await triviaPoolCache.delete(triviaCacheKey);
+          if (storesAiContent()) {
+            if (freshQuestions.length >= 4) {
+              await triviaPoolCache.set(triviaCacheKey, freshQuestions);
+            }
+            await saveToTriviaBank(cityPlaceId, generationDifficulty, freshQuestions);
+          }
+          questions = freshQuestions.filter(isUnseen);
+          if (questions.length === 0) {
+            questions = freshQuestions;
+          }
+          triviaSource = getLlmProvider().name;
         }
-        triviaSource = "openai";
+      }
+
+      if (questions.length < Math.min(count, 4) && budgetExhausted) {
+        questions = allQuestions;
       }
 
       if (questions.length < Math.min(count, 4)) {
-        if (!cityPlaceId) {
+        if (!cityPlaceId || budgetExhausted) {
           const fallback = getFallbackQuestions(city);
           if (fallback.length > questions.length) {
             questions = fallback.map(shuffleOptions);
@@ -480,22 +678,43 @@ Return ONLY a JSON array:
         questions = questions.map(shuffleOptions);
       }
 
-      const final = questions.slice(0, count);
+      if (!isAdaptive) {
+        questions = leanTowardInterests(questions, interests, count);
+      }
 
-      const questionIds: string[] = [];
-      if (cityPlaceId) {
-        for (const q of final) {
-          questionIds.push(generateQuestionId(cityPlaceId, difficulty, q.question));
-        }
+      let final = questions.slice(0, count);
+      let reserve: any[] = [];
+      if (isAdaptive && cityPlaceId) {
+        const scored = questions.map(q => ({ ...q, accuracy: q.accuracy ?? estimateAccuracy(generationDifficulty) }));
+        ({ selected: final, reserve } = pickAdaptiveQuestions(scored, targetAccuracy!, count));
       }
 
+      const questionIds: string[] = cityPlaceId ? final.map(questionIdOf) : [];
+      const reserveQuestionIds: string[] = cityPlaceId ? reserve.map(questionIdOf) : [];
+      // Bank ids travel in questionIds; accuracy is only meaningful to adaptive quizzes.
+      const toClientQuestion = ({ id, accuracy, ...q }: any) => (isAdaptive && cityPlaceId ? { ...q, accuracy } : q);
+
       const poolExhausted = excludeSet.size > 30 && final.length < Math.min(count, 4);
 
-      console.log(`TRIVIA_RESULT { source: "${triviaSource}", questions: ${final.length}, cityLabel: "${cityLabel}", cityPlaceId: "${cityPlaceId}" }`);
+      if (cityPlaceId) {
+        storage.recordTriviaServed(questionIds).catch((err) => console.error("Trivia bank stats error:", err));
+      }
+
+      if (seenOwnerKey && cityPlaceId) {
+        try {
+          if (poolExhausted) await storage.clearSeenQuestions(seenOwnerKey, cityPlaceId);
+          await storage.markQuestionsSeen(seenOwnerKey, cityPlaceId, questionIds);
+        } catch (err) {
+          console.error("Seen question tracking error:", err);
+        }
+      }
+
+      console.log(`TRIVIA_RESULT { source: "${triviaSource}", questions: ${final.length}, cityLabel: "${cityLabel}", cityPlaceId: "${cityPlaceId}", seen: ${excludeSet.size}, poolExhausted: ${poolExhausted}${isAdaptive ? `, targetAccuracy: ${targetAccuracy!.toFixed(2)}, reserve: ${reserve.length}` : ""} }`);
 
       res.json({
-        questions: final,
+        questions: final.map(toClientQuestion),
         questionIds,
+        ...(isAdaptive ? { reserveQuestions: reserve.map(toClientQuestion), reserveQuestionIds, targetAccuracy } : {}),
         cityLabel,
         cityPlaceId: cityPlaceId || undefined,
         poolExhausted,
@@ -524,7 +743,7 @@ Return ONLY a JSON array:
     }
   });
 
-app.post("/api/suggestions/generate", async (req, res) => {
+app.post("/api/suggestions/generate", suggestionsLimiter, async (req, res) => {
   try {
     const { city, hotelLocation, exclude = [], excludePlaceIds = [] } = req.body;
 
@@ -532,6 +751,12 @@ app.post("/api/suggestions/generate", async (req, res) => {
       return res.status(400).json({ error: "City is required" });
     }
 
+    const parsedFilters = suggestionFiltersSchema.safeParse(req.body.filters ?? {});
+    if (!parsedFilters.success) {
+      return res.status(400).json({ error: "Invalid filters" });
+    }
+    const filters = parsedFilters.data;
+
     const excludeTitles = Array.isArray(exclude) ? exclude : [];
     const excludePids = Array.isArray(excludePlaceIds) ? excludePlaceIds : [];
 
@@ -543,99 +768,41 @@ app.post("/api/suggestions/generate", async (req, res) => {
       }
     }
 
-    const excludeText =
-      excludeTitles.length > 0
-        ? `Do NOT include any of these places: ${excludeTitles.join(", ")}.`
-        : "Avoid repeating obvious duplicates or places already shown.";
-
-    const prompt = `
-You are a travel discovery expert.
-
-Generate 8 unique suggestions for ${city}.
-${excludeText}
-
-Requirements:
-- Mix categories across food, culture, nightlife, nature, views, neighborhoods, and hidden gems.
-- Avoid only listing the most obvious tourist attractions unless truly worth including.
-- Prefer variety and freshness.
-- Each suggestion must include:
-  - title
-  - category
-  - description
-  - address (if known, otherwise empty string)
-- Return ONLY valid JSON in this exact shape:
-
-{
-  "suggestions": [
-    {
-      "title": "string",
-      "category": "string",
-      "description": "string",
-      "address": "string"
+    const profile = await getRequestProfile(req);
+    const poolSuggestions = await getPoolSuggestions(city, hotelCoords, excludeTitles, excludePids, filters, profile);
+    let aiSuggestions: any[] = [];
+    // AI places have no ratings or review counts, so rating-based filters can't be honoured.
+    const canFillWithAi = filters.minRating === undefined && !filters.hiddenGems;
+    if (poolSuggestions.length < SUGGESTION_COUNT && canFillWithAi) {
+      try {
+        aiSuggestions = await generateAiSuggestions(
+          city,
+          hotelCoords,
+          SUGGESTION_COUNT - poolSuggestions.length,
+          [...excludeTitles, ...poolSuggestions.map((s) => s.title)],
+          excludePids,
+          filters,
+          profile,
+          clientKey(req)
+        );
+      } catch (aiError) {
+        if (aiError instanceof AiBudgetExceededError) console.log(`AI_BUDGET_EXCEEDED { task: "suggestions", scope: "${aiError.scope}" }`);
+        else console.error("AI suggestion fill error:", aiError);
+      }
     }
-  ]
-}
-    `.trim();
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [{ role: "user", content: prompt }],
-      max_completion_tokens: 1800,
-    });
-
-    const content = response.choices[0]?.message?.content || "";
-    const parsed = safeJsonParse(content);
-    const aiSuggestions = Array.isArray(parsed?.suggestions) ? parsed.suggestions : [];
-
-    if (!aiSuggestions.length) {
-      throw new Error("AI returned no suggestions");
+    const suggestions = [...poolSuggestions, ...aiSuggestions];
+    if (suggestions.length === 0) {
+      if (hasActiveFilters(filters)) {
+        return res.json({ suggestions: [] });
+      }
+      throw new Error("No suggestions from places pool or AI");
     }
 
-    const normalized = aiSuggestions.map((s: any) => ({
-      title: String(s.title || "").trim(),
-      category: String(s.category || "Other").trim() || "Other",
-      description: String(s.description || "").trim(),
-      address: String(s.address || "").trim(),
-      placeId: null,
-      lat: null,
-      lng: null,
-      enriched: false,
-    }));
-
-    const filtered = validateSuggestions(normalized, excludeTitles, excludePids);
-
-    let enriched = filtered;
-
-    try {
-      enriched = await Promise.all(
-        filtered.map(async (s: any) => {
-          const queryParts = [s.title, s.address, city].filter(Boolean);
-          const geo = await geocodeCached(queryParts.join(", "));
-
-          let distanceKm: number | null = null;
-          if (hotelCoords && geo) {
-            distanceKm = haversineKm(
-              hotelCoords.lat,
-              hotelCoords.lng,
-              geo.lat,
-              geo.lng
-            );
-          }
-
-          return {
-            ...s,
-            lat: geo?.lat ?? null,
-            lng: geo?.lng ?? null,
-            distanceKm,
-          };
-        })
-      );
-    } catch (enrichError) {
-      console.warn("Suggestion enrichment failed:", enrichError);
-    }
+    console.log(`SUGGESTIONS_RESULT { city: "${city}", pool: ${poolSuggestions.length}, ai: ${aiSuggestions.length}, provider: "${getPlacesProvider().name}" }`);
 
     return res.json({
-      suggestions: enriched.slice(0, 8),
+      suggestions: suggestions.slice(0, SUGGESTION_COUNT),
     });
   } catch (error: any) {
     console.error("Suggestions generation error:", error);
@@ -647,12 +814,12 @@ Requirements:
     const filtered = validateSuggestions(fallback, excludeTitles, excludePids);
 
     return res.json({
-      suggestions: filtered.slice(0, 8),
+      suggestions: filtered.slice(0, SUGGESTION_COUNT).map((s: any) => ({ ...s, source: "curated" })),
     });
   }
 });
 
-  app.post("/api/suggestions/enrich-poi", async (req, res) => {
+  app.post("/api/suggestions/enrich-poi", enrichmentLimiter, async (req, res) => {
     try {
       const { city, name, category, address, placeId } = req.body;
       if (!name || !city) {
@@ -660,13 +827,13 @@ Requirements:
       }
 
       if (placeId) {
-        const cached = enrichmentCache.get(placeId);
-        if (cached && Date.now() - cached.ts < ENRICHMENT_CACHE_TTL) {
+        const cached = await enrichmentCache.get(placeId);
+        if (cached) {
           return res.json({
             name,
             placeId,
-            description: cached.data.description,
-            funFact: cached.data.funFact,
+            description: cached.description,
+            funFact: cached.funFact,
           });
         }
       }
@@ -681,25 +848,20 @@ STRICT: No marketing words like "popular", "must-visit", "perfect for", "great p
 Return ONLY JSON:
 {"description":"...","funFact":"..."}`;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o-mini",
-        messages: [{ role: "user", content: prompt }],
-        max_completion_tokens: 500,
-      });
-
-      const content = response.choices[0]?.message?.content || "";
+      const content = await completeLlm({ task: "enrichment", prompt, maxTokens: 500, subject: name, client: clientKey(req) });
       const parsed = safeJsonParse(content);
 
       const description = parsed?.description || `A ${(category || "landmark").toLowerCase()} in ${city}.`;
       const funFact = parsed?.funFact && isValidFunFact(parsed.funFact) ? parsed.funFact : "";
 
-      if (placeId) {
-        enrichmentCache.set(placeId, { data: { description, funFact }, ts: Date.now() });
+      if (placeId && storesAiContent()) {
+        await enrichmentCache.set(placeId, { description, funFact });
       }
 
       res.json({ name, placeId, description, funFact });
     } catch (error: any) {
-      console.error("POI enrichment error:", error);
+      if (error instanceof AiBudgetExceededError) console.log(`AI_BUDGET_EXCEEDED { task: "enrichment", scope: "${error.scope}" }`);
+      else console.error("POI enrichment error:", error);
       const { name, city, category } = req.body || {};
       res.json({
         name: name || "",
@@ -710,9 +872,92 @@ Return ONLY JSON:
     }
   });
 
-  app.get("/api/trips", async (_req, res) => {
+  registerAuthRoutes(app);
+
+  // Today's AI token usage against the budgets, plus rate limit and cache settings.
+  app.get("/api/admin/usage", requireAdmin, async (_req, res) => {
+    try {
+      res.json({
+        ai: await getAiUsageReport(),
+        llmProvider: getLlmProvider().name,
+        rateLimits: getRateLimitConfig(),
+        cache: getCacheStats(),
+      });
+    } catch (error) {
+      console.error("Admin usage error:", error);
+      res.status(500).json({ error: "Failed to fetch usage" });
+    }
+  });
+
+  app.use("/api/profile", requireAuth);
+
+  app.get("/api/profile", async (req, res) => {
+    try {
+      const profile = await storage.getTravelerProfile(req.user!.id);
+      res.json(profile ?? travelerProfileSchema.parse({}));
+    } catch (error) {
+      console.error("Get profile error:", error);
+      res.status(500).json({ error: "Failed to fetch profile" });
+    }
+  });
+
+  app.put("/api/profile", async (req, res) => {
+    const parsed = travelerProfileSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid profile" });
+    }
+    try {
+      const profile = await storage.saveTravelerProfile(req.user!.id, parsed.data);
+      res.json(profile);
+    } catch (error) {
+      console.error("Save profile error:", error);
+      res.status(500).json({ error: "Failed to save profile" });
+    }
+  });
+
+  // The signed-in user's unfinished trip session, autosaved by the client.
+  app.use("/api/session-draft", requireAuth);
+
+  app.get("/api/session-draft", async (req, res) => {
+    try {
+      const draft = await storage.getSessionDraft(req.user!.id);
+      res.json(draft ?? null);
+    } catch (error) {
+      console.error("Get session draft error:", error);
+      res.status(500).json({ error: "Failed to fetch session draft" });
+    }
+  });
+
+  app.put("/api/session-draft", async (req, res) => {
+    const parsed = sessionDraftSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid session draft" });
+    }
+    try {
+      await storage.saveSessionDraft(req.user!.id, parsed.data);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Save session draft error:", error);
+      res.status(500).json({ error: "Failed to save session draft" });
+    }
+  });
+
+  app.delete("/api/session-draft", async (req, res) => {
+    try {
+      await storage.deleteSessionDraft(req.user!.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Delete session draft error:", error);
+      res.status(500).json({ error: "Failed to delete session draft" });
+    }
+  });
+
+  // Every trip route below is scoped to the signed-in user.
+  app.use("/api/trips", requireAuth);
+
+  app.get("/api/trips", async (req, res) => {
     try {
-      const trips = await storage.getTrips();
+      const trips = await storage.getTrips(req.user!.id);
       res.json(trips);
     } catch (error) {
       console.error("Error fetching trips:", error);
@@ -723,31 +968,96 @@ Return ONLY JSON:
   app.get("/api/trips/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const trip = await storage.getTrip(id);
-      if (!trip) return res.status(404).json({ error: "Trip not found" });
+      const access = await storage.getTripAccess(id, req.user!.id);
+      if (!access) return res.status(404).json({ error: "Trip not found" });
 
       const spots = await storage.getTripSpots(id);
-      res.json({ ...trip, spots });
+      res.json({ ...access.trip, spots, role: access.role });
     } catch (error) {
       console.error("Error fetching trip:", error);
       res.status(500).json({ error: "Failed to fetch trip" });
     }
   });
 
+  app.get("/api/trips/:id/export", async (req, res) => {
+    try {
+      const format = req.query.format;
+      if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+        return res.status(400).json({ error: `format must be one of: ${EXPORT_FORMATS.join(", ")}` });
+      }
+
+      const id = parseInt(req.params.id);
+      const access = await storage.getTripAccess(id, req.user!.id);
+      if (!access) return res.status(404).json({ error: "Trip not found" });
+
+      const { trip } = access;
+      const spots = await storage.getTripSpots(id);
+      const rendered = renderTripExport(trip, spots, format as ExportFormat);
+      res.setHeader("Content-Type", rendered.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${rendered.filename}"`);
+      res.send(rendered.body);
+    } catch (error) {
+      console.error("Error exporting trip:", error);
+      res.status(500).json({ error: "Failed to export trip" });
+    }
+  });
+
+  app.get("/api/trips/:id/booklet", async (req, res) => {
+    try {
+      const format = req.query.format ?? "html";
+      if (!BOOKLET_FORMATS.includes(format as BookletFormat)) {
+        return res.status(400).json({ error: `format must be one of: ${BOOKLET_FORMATS.join(", ")}` });
+      }
+
+      const id = parseInt(req.params.id);
+      const access = await storage.getTripAccess(id, req.user!.id);
+      if (!access) return res.status(404).json({ error: "Trip not found" });
+
+      const { trip } = access;
+      const spots = await storage.getTripSpots(id);
+      const attempts = req.query.quiz === "1" ? await storage.getQuizAttempts(id) : [];
+      const booklet = buildBooklet(trip, spots, attempts);
+
+      if (format === "pdf") {
+        const pdf = await renderBookletPdf(booklet);
+        res.setHeader("Content-Type", "application/pdf");
+        res.setHeader("Content-Disposition", `attachment; filename="${tripFileSlug(trip)}-booklet.pdf"`);
+        return res.send(pdf);
+      }
+      res.setHeader("Content-Type", "text/html; charset=utf-8");
+      res.send(renderBookletHtml(booklet));
+    } catch (error) {
+      console.error("Error rendering trip booklet:", error);
+      res.status(500).json({ error: "Failed to render trip booklet" });
+    }
+  });
+
   app.post("/api/trips", async (req, res) => {
   try {
     const { spots, ...tripData } = req.body;
+    if (Array.isArray(spots) && spots.length > MAX_TRIP_SPOTS) {
+      return res.status(400).json({ error: TOO_MANY_SPOTS_ERROR });
+    }
+    if (Array.isArray(spots) && hasInvalidDayIndex(spots)) {
+      return res.status(400).json({ error: DAY_INDEX_ERROR });
+    }
 
+    const newSpots = Array.isArray(spots)
+      ? spots.filter((s: any) => typeof s?.title === "string" && s.title.trim()).map(spotFromInput)
+      : [];
     const trip = await storage.createTrip({
+      userId: req.user!.id,
       city: tripData.city,
       cityLabel: tripData.cityLabel || null,
       cityPlaceId: tripData.cityPlaceId || null,
       hotelLocation: tripData.hotelLocation || null,
       mode: tripData.mode || "quiz",
-      difficulty: tripData.difficulty || "standard",
+      difficulty: difficultySchema.safeParse(tripData.difficulty).data ?? "standard",
       score: tripData.score ?? null,
       totalQuestions: tripData.totalQuestions ?? null,
-    });
+      dayCount: normalizeDayCount(tripData.dayCount),
+      startDate: normalizeStartDate(tripData.startDate),
+    }, newSpots);
 
     res.json(trip);
   } catch (error) {
@@ -756,44 +1066,101 @@ Return ONLY JSON:
   }
 });
 
+  // Replaces the trip's spot list with the client's ordered list.
+  app.put("/api/trips/:id/spots", async (req, res) => {
+    try {
+      const tripId = parseInt(req.params.id);
+      const access = await storage.getTripAccess(tripId, req.user!.id);
+      if (!access) return res.status(404).json({ error: "Trip not found" });
+      if (access.role === "viewer") return res.status(403).json({ error: "You can view this trip but not edit it" });
+      const { trip } = access;
+
+      const parsed = syncTripSpotsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const tooMany = parsed.error.errors.some((e) => e.code === "too_big" && e.path.length === 1);
+        return res.status(400).json({ error: tooMany ? TOO_MANY_SPOTS_ERROR : "A spots array with a title for every spot is required" });
+      }
+      if (hasInvalidDayIndex(parsed.data.spots)) {
+        return res.status(400).json({ error: DAY_INDEX_ERROR });
+      }
+
+      const spots = parsed.data.spots.map(spotFromInput);
+      const result = await storage.syncTripSpots(tripId, spots, parsed.data.baseVersion);
+      if (result === "conflict") {
+        const snapshot = await storage.getTripSpotsSnapshot(tripId);
+        return res.status(409).json({ error: SPOTS_CONFLICT_ERROR, ...snapshot });
+      }
+      const lastDay = Math.max(0, ...spots.map((s) => s.dayIndex));
+      if (lastDay + 1 > trip.dayCount) {
+        await storage.updateTrip(tripId, { dayCount: normalizeDayCount(lastDay + 1) });
+      }
+
+      const snapshot = await storage.getTripSpotsSnapshot(tripId);
+      broadcastSpotsChange(tripId, "updated", req.user!, snapshot);
+      res.json(snapshot);
+    } catch (error) {
+      console.error("Error syncing spots:", error);
+      res.status(500).json({ error: "Failed to save spots" });
+    }
+  });
+
   app.post("/api/trips/:id/spots", async (req, res) => {
     try {
       const tripId = parseInt(req.params.id);
-      const trip = await storage.getTrip(tripId);
-      if (!trip) return res.status(404).json({ error: "Trip not found" });
+      const access = await storage.getTripAccess(tripId, req.user!.id);
+      if (!access) return res.status(404).json({ error: "Trip not found" });
+      if (access.role === "viewer") return res.status(403).json({ error: "You can view this trip but not edit it" });
 
-      const { spots } = req.body;
+      const { spots, baseVersion } = req.body;
       if (!Array.isArray(spots) || spots.length === 0) {
         return res.status(400).json({ error: "Spots array is required" });
       }
+      if (spots.length > MAX_TRIP_SPOTS) {
+        return res.status(400).json({ error: TOO_MANY_SPOTS_ERROR });
+      }
+      if (hasInvalidDayIndex(spots)) {
+        return res.status(400).json({ error: DAY_INDEX_ERROR });
+      }
 
       const existingSpots = await storage.getTripSpots(tripId);
       const existingTitles = new Set(existingSpots.map((s) => s.title.toLowerCase().trim()));
-      const maxOrder = existingSpots.reduce((max, s) => Math.max(max, s.sortOrder), -1);
+      const nextOrderByDay = new Map<number, number>();
+      for (const s of existingSpots) {
+        nextOrderByDay.set(s.dayIndex, Math.max(nextOrderByDay.get(s.dayIndex) ?? 0, s.sortOrder + 1));
+      }
 
       const newSpots = spots
-        .filter((s: any) => !existingTitles.has(s.title?.toLowerCase().trim()))
-        .map((s: any, idx: number) => ({
-          tripId,
-          title: s.title,
-          description: s.description || "",
-          category: s.category || "Other",
-          imageUrl: s.imageUrl || null,
-          funFact: s.funFact || null,
-          address: s.address || null,
-          placeId: s.placeId || null,
-          lat: s.lat ?? null,
-          lng: s.lng ?? null,
-          sortOrder: maxOrder + 1 + idx,
-        }));
+        .filter((s: any) => typeof s?.title === "string" && !existingTitles.has(s.title.toLowerCase().trim()))
+        .map((s: any) => {
+          const { id, ...spot } = spotFromInput(s);
+          const sortOrder = nextOrderByDay.get(spot.dayIndex) ?? 0;
+          nextOrderByDay.set(spot.dayIndex, sortOrder + 1);
+          return { ...spot, tripId, sortOrder };
+        });
+
+      if (existingSpots.length + newSpots.length > MAX_TRIP_SPOTS) {
+        return res.status(400).json({ error: TOO_MANY_SPOTS_ERROR });
+      }
 
       if (newSpots.length === 0) {
-        return res.json({ added: 0, spots: existingSpots });
+        const snapshot = await storage.getTripSpotsSnapshot(tripId);
+        if (Number.isInteger(baseVersion) && baseVersion !== snapshot.version) {
+          return res.status(409).json({ error: SPOTS_CONFLICT_ERROR, ...snapshot });
+        }
+        return res.json({ added: 0, ...snapshot });
       }
 
-      const addedSpots = await storage.addTripSpots(newSpots);
-      const allSpots = await storage.getTripSpots(tripId);
-      res.json({ added: addedSpots.length, spots: allSpots });
+      const addedSpots = await storage.addTripSpots(
+        tripId,
+        newSpots,
+        Number.isInteger(baseVersion) ? baseVersion : undefined
+      );
+      const snapshot = await storage.getTripSpotsSnapshot(tripId);
+      if (addedSpots === "conflict") {
+        return res.status(409).json({ error: SPOTS_CONFLICT_ERROR, ...snapshot });
+      }
+      broadcastSpotsChange(tripId, "added", req.user!, snapshot);
+      res.json({ added: addedSpots.length, ...snapshot });
     } catch (error) {
       console.error("Error adding spots:", error);
       res.status(500).json({ error: "Failed to add spots" });
@@ -803,31 +1170,111 @@ Return ONLY JSON:
   app.patch("/api/trips/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const trip = await storage.getTrip(id);
-      if (!trip) return res.status(404).json({ error: "Trip not found" });
+      const access = await storage.getTripAccess(id, req.user!.id);
+      if (!access) return res.status(404).json({ error: "Trip not found" });
+      if (access.role === "viewer") return res.status(403).json({ error: "You can view this trip but not edit it" });
+
+      const { dayCount } = req.body;
+      if (dayCount !== undefined && !(Number.isInteger(dayCount) && dayCount >= 1 && dayCount <= MAX_TRIP_DAYS)) {
+        return res.status(400).json({ error: `dayCount must be a whole number from 1 to ${MAX_TRIP_DAYS}` });
+      }
 
       const updates: Record<string, any> = {};
       if (req.body.score !== undefined) updates.score = req.body.score;
       if (req.body.totalQuestions !== undefined) updates.totalQuestions = req.body.totalQuestions;
       if (req.body.hotelLocation !== undefined) updates.hotelLocation = req.body.hotelLocation;
+      if (dayCount !== undefined) updates.dayCount = dayCount;
+      if (req.body.startDate !== undefined) updates.startDate = normalizeStartDate(req.body.startDate);
 
       if (Object.keys(updates).length > 0) {
         await storage.updateTrip(id, updates);
       }
 
-      const updated = await storage.getTrip(id);
+      const updated = await storage.getTripById(id);
       const spots = await storage.getTripSpots(id);
-      res.json({ ...updated, spots });
+      res.json({ ...updated, spots, role: access.role });
     } catch (error) {
       console.error("Error updating trip:", error);
       res.status(500).json({ error: "Failed to update trip" });
     }
   });
 
-  app.delete("/api/trips/:id/spots/:spotId", async (req, res) => {
+  app.post("/api/trips/:id/spots/reorder", async (req, res) => {
     try {
+      const tripId = parseInt(req.params.id);
+      const access = await storage.getTripAccess(tripId, req.user!.id);
+      if (!access) return res.status(404).json({ error: "Trip not found" });
+      if (access.role === "viewer") return res.status(403).json({ error: "You can view this trip but not edit it" });
+      const { trip } = access;
+
+      const parsed = reorderDaySpotsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "dayIndex and spotIds are required" });
+      }
+
+      const { dayIndex, spotIds, baseVersion } = parsed.data;
+      const result = await storage.reorderDaySpots(tripId, dayIndex, spotIds, baseVersion);
+      if (result === "conflict") {
+        const snapshot = await storage.getTripSpotsSnapshot(tripId);
+        return res.status(409).json({ error: SPOTS_CONFLICT_ERROR, ...snapshot });
+      }
+      if (dayIndex + 1 > trip.dayCount) {
+        await storage.updateTrip(tripId, { dayCount: normalizeDayCount(dayIndex + 1) });
+      }
+
+      const snapshot = await storage.getTripSpotsSnapshot(tripId);
+      broadcastSpotsChange(tripId, "reordered", req.user!, snapshot);
+      res.json(snapshot);
+    } catch (error) {
+      console.error("Error reordering spots:", error);
+      res.status(500).json({ error: "Failed to reorder spots" });
+    }
+  });
+
+  app.patch("/api/trips/:id/spots/:spotId", async (req, res) => {
+    try {
+      const tripId = parseInt(req.params.id);
+      const spotId = parseInt(req.params.spotId);
+      const access = await storage.getTripAccess(tripId, req.user!.id);
+      if (!access) return res.status(404).json({ error: "Trip not found" });
+      if (access.role === "viewer") return res.status(403).json({ error: "You can view this trip but not edit it" });
+      const { trip } = access;
+
+      const parsed = moveTripSpotSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "A valid dayIndex is required" });
+      }
+
+      const { dayIndex, position, timeSlot, baseVersion } = parsed.data;
+      const moved = await storage.moveSpotToDay(tripId, spotId, dayIndex, position, timeSlot, baseVersion);
+      if (!moved) return res.status(404).json({ error: "Spot not found" });
+      if (moved === "conflict") {
+        const snapshot = await storage.getTripSpotsSnapshot(tripId);
+        return res.status(409).json({ error: SPOTS_CONFLICT_ERROR, ...snapshot });
+      }
+      if (dayIndex + 1 > trip.dayCount) {
+        await storage.updateTrip(tripId, { dayCount: normalizeDayCount(dayIndex + 1) });
+      }
+
+      const snapshot = await storage.getTripSpotsSnapshot(tripId);
+      broadcastSpotsChange(tripId, "moved", req.user!, snapshot);
+      res.json({ spot: moved, ...snapshot });
+    } catch (error) {
+      console.error("Error moving spot:", error);
+      res.status(500).json({ error: "Failed to move spot" });
+    }
+  });
+
+  app.delete("/api/trips/:id/spots/:spotId", async (req, res) => {
+    try {
+      const tripId = parseInt(req.params.id);
       const spotId = parseInt(req.params.spotId);
-      await storage.deleteTripSpot(spotId);
+      const access = await storage.getTripAccess(tripId, req.user!.id);
+      if (!access) return res.status(404).json({ error: "Trip not found" });
+      if (access.role === "viewer") return res.status(403).json({ error: "You can view this trip but not edit it" });
+
+      await storage.deleteTripSpot(tripId, spotId);
+      broadcastSpotsChange(tripId, "removed", req.user!, await storage.getTripSpotsSnapshot(tripId));
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting spot:", error);
@@ -835,10 +1282,84 @@ Return ONLY JSON:
     }
   });
 
+  app.get("/api/trips/:id/quiz-attempts", async (req, res) => {
+    try {
+      const tripId = parseInt(req.params.id);
+      const access = await storage.getTripAccess(tripId, req.user!.id);
+      if (!access) return res.status(404).json({ error: "Trip not found" });
+
+      const attempts = await storage.getQuizAttempts(tripId);
+      res.json(attempts);
+    } catch (error) {
+      console.error("Error fetching quiz attempts:", error);
+      res.status(500).json({ error: "Failed to fetch quiz attempts" });
+    }
+  });
+
+  app.post("/api/trips/:id/quiz-attempts", async (req, res) => {
+    try {
+      const tripId = parseInt(req.params.id);
+      const access = await storage.getTripAccess(tripId, req.user!.id);
+      if (!access) return res.status(404).json({ error: "Trip not found" });
+      if (access.role === "viewer") return res.status(403).json({ error: "You can view this trip but not edit it" });
+      const { trip } = access;
+
+      const parsed = submitQuizAttemptSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "questions and answers are required" });
+      }
+
+      const { difficulty, cityPlaceId, cityLabel, questions, questionIds = [], answers } = parsed.data;
+      // Bank questions are graded against the bank, whatever the client sent;
+      // ids the bank doesn't know are dropped. Only questions without an id
+      // (curated fallbacks) keep the client's correctIndex.
+      const bank = new Map((await storage.getTriviaQuestionsByIds(questionIds.filter(Boolean))).map((q) => [q.id, q]));
+      const answerRows = questions.map((sent, position) => {
+        const selectedIndex = answers[position] ?? null;
+        const banked = bank.get(questionIds[position]);
+        if (!banked) {
+          return {
+            position,
+            questionId: null,
+            question: sent.question,
+            options: sent.options,
+            correctIndex: sent.correctIndex,
+            selectedIndex,
+            isCorrect: selectedIndex === sent.correctIndex,
+            funFact: sent.funFact || null,
+          };
+        }
+        return { position, ...gradeBankAnswer(banked, sent.options, selectedIndex) };
+      });
+      const score = answerRows.filter((a) => a.isCorrect).length;
+
+      const attempt = await storage.createQuizAttempt(
+        {
+          tripId,
+          userId: req.user!.id,
+          cityPlaceId: cityPlaceId || trip.cityPlaceId,
+          cityLabel: cityLabel || trip.cityLabel,
+          difficulty,
+          score,
+          totalQuestions: answerRows.length,
+        },
+        answerRows
+      );
+      await storage.updateTrip(tripId, { score, totalQuestions: answerRows.length });
+
+      recordBankAnswerStats(req, answerRows).catch((err) => console.error("Trivia bank stats error:", err));
+
+      res.status(201).json(attempt);
+    } catch (error) {
+      console.error("Error saving quiz attempt:", error);
+      res.status(500).json({ error: "Failed to save quiz attempt" });
+    }
+  });
+
   app.delete("/api/trips/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      await storage.deleteTrip(id);
+      await storage.deleteTrip(id, req.user!.id);
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting trip:", error);
@@ -846,9 +1367,274 @@ Return ONLY JSON:
     }
   });
 
+  app.get("/api/trips/:id/share", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const trip = await storage.getTrip(id, req.user!.id);
+      if (!trip) return res.status(404).json({ error: "Trip not found" });
+
+      res.json(await storage.getTripShares(id));
+    } catch (error) {
+      console.error("Error fetching trip shares:", error);
+      res.status(500).json({ error: "Failed to fetch share links" });
+    }
+  });
+
+  app.post("/api/trips/:id/share", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const trip = await storage.getTrip(id, req.user!.id);
+      if (!trip) return res.status(404).json({ error: "Trip not found" });
+
+      const parsed = createTripShareSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "expiresInDays must be a whole number of days between 1 and 365" });
+      }
+      const { expiresInDays } = parsed.data;
+      const share = await storage.createTripShare({
+        tripId: id,
+        token: randomBytes(24).toString("base64url"),
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+      });
+      res.status(201).json(share);
+    } catch (error) {
+      console.error("Error creating trip share:", error);
+      res.status(500).json({ error: "Failed to create share link" });
+    }
+  });
+
+  app.delete("/api/trips/:id/share/:shareId", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const trip = await storage.getTrip(id, req.user!.id);
+      if (!trip) return res.status(404).json({ error: "Trip not found" });
+
+      await storage.deleteTripShare(id, parseInt(req.params.shareId));
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking trip share:", error);
+      res.status(500).json({ error: "Failed to revoke share link" });
+    }
+  });
+
+  app.get("/api/trips/:id/members", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const access = await storage.getTripAccess(id, req.user!.id);
+      if (!access) return res.status(404).json({ error: "Trip not found" });
+
+      const owner = access.trip.userId ? await storage.getUser(access.trip.userId) : undefined;
+      const members = await storage.getTripMembers(id);
+      res.json({
+        owner: owner ? { id: owner.id, username: owner.username } : null,
+        members,
+        role: access.role,
+      });
+    } catch (error) {
+      console.error("Error fetching trip members:", error);
+      res.status(500).json({ error: "Failed to fetch trip members" });
+    }
+  });
+
+  app.post("/api/trips/:id/members", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const trip = await storage.getTrip(id, req.user!.id);
+      if (!trip) return res.status(404).json({ error: "Trip not found" });
+
+      const parsed = addTripMemberSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "username and a role of editor or viewer are required" });
+      }
+
+      const invitee = await storage.getUserByUsername(parsed.data.username.toLowerCase());
+      if (!invitee) return res.status(404).json({ error: "No user with that username" });
+      if (invitee.id === trip.userId) return res.status(400).json({ error: "You already own this trip" });
+
+      await storage.addTripMember(id, invitee.id, parsed.data.role);
+      res.status(201).json(await storage.getTripMembers(id));
+    } catch (error) {
+      console.error("Error adding trip member:", error);
+      res.status(500).json({ error: "Failed to add trip member" });
+    }
+  });
+
+  // The owner removes anyone; members can remove themselves to leave the trip.
+  app.delete("/api/trips/:id/members/:userId", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const memberId = parseInt(req.params.userId);
+      const access = await storage.getTripAccess(id, req.user!.id);
+      if (!access) return res.status(404).json({ error: "Trip not found" });
+      if (access.role !== "owner" && memberId !== req.user!.id) {
+        return res.status(403).json({ error: "Only the owner can remove other members" });
+      }
+
+      await storage.removeTripMember(id, memberId);
+      removeTripViewer(id, memberId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing trip member:", error);
+      res.status(500).json({ error: "Failed to remove trip member" });
+    }
+  });
+
+  // Public: anyone holding the token can read the trip.
+  app.get("/api/shared/:token", async (req, res) => {
+    try {
+      const share = await findActiveShare(req.params.token);
+      if (share === "expired") return res.status(410).json({ error: "This share link has expired" });
+      if (!share) return res.status(404).json({ error: "Shared trip not found" });
+
+      const trip = await storage.getTripById(share.tripId);
+      if (!trip) return res.status(404).json({ error: "Shared trip not found" });
+
+      const { userId, ...publicTrip } = trip;
+      const spots = await storage.getTripSpots(trip.id);
+      const shared: SharedTrip = { ...publicTrip, spots, shareExpiresAt: share.expiresAt };
+      res.json(shared);
+    } catch (error) {
+      console.error("Error fetching shared trip:", error);
+      res.status(500).json({ error: "Failed to fetch shared trip" });
+    }
+  });
+
+  app.post("/api/shared/:token/copy", requireAuth, async (req, res) => {
+    try {
+      const share = await findActiveShare(String(req.params.token));
+      if (share === "expired") return res.status(410).json({ error: "This share link has expired" });
+      if (!share) return res.status(404).json({ error: "Shared trip not found" });
+
+      const copy = await storage.cloneTrip(share.tripId, req.user!.id);
+      if (!copy) return res.status(404).json({ error: "Shared trip not found" });
+      res.status(201).json(copy);
+    } catch (error) {
+      console.error("Error copying shared trip:", error);
+      res.status(500).json({ error: "Failed to copy trip" });
+    }
+  });
+
+  app.post("/api/itinerary/optimize", placesLimiter, async (req, res) => {
+    try {
+      const parsed = optimizeRouteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid route request" });
+      }
+      const { city, hotelLocation, spots } = parsed.data;
+
+      const inputs: RouteSpotInput[] = spots.map((s) => ({
+        id: String(s.id),
+        title: s.title,
+        address: s.address || null,
+        lat: s.lat ?? null,
+        lng: s.lng ?? null,
+      }));
+
+      const route = await planRoute(city, hotelLocation || null, inputs);
+      res.json(route);
+    } catch (error) {
+      console.error("Route optimization error:", error);
+      res.status(500).json({ error: "Failed to optimize route" });
+    }
+  });
+
+  app.post("/api/itinerary/travel-times", placesLimiter, async (req, res) => {
+    try {
+      const parsed = travelTimesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid travel time request" });
+      }
+      const { city, spots } = parsed.data;
+
+      // Spots arrive in itinerary order; each day is timed on its own.
+      const spotsByDay = new Map<number, RouteSpotInput[]>();
+      for (const s of spots) {
+        const day = s.day ?? 0;
+        const list = spotsByDay.get(day) || [];
+        list.push({
+          id: String(s.id),
+          title: s.title,
+          address: s.address || null,
+          lat: s.lat ?? null,
+          lng: s.lng ?? null,
+        });
+        spotsByDay.set(day, list);
+      }
+
+      const routing = getRoutingProvider();
+      const days = [];
+      const unlocated: string[] = [];
+      for (const [day, daySpots] of Array.from(spotsByDay.entries()).sort((a, b) => a[0] - b[0])) {
+        const located = await locateSpots(city, daySpots);
+        unlocated.push(...located.unlocated);
+        const legs = await routing.estimateLegs(located.located);
+        days.push({ day, legs, totals: sumTravelLegs(legs) });
+      }
+
+      res.json({ provider: routing.name, days, unlocated });
+    } catch (error) {
+      console.error("Travel time error:", error);
+      res.status(500).json({ error: "Failed to estimate travel times" });
+    }
+  });
+
+  // Read-only: it only suggests an order (saving it goes through the spot
+  // routes), so viewers may use it too; placesLimiter bounds the cost.
+  app.post("/api/trips/:id/optimize", placesLimiter, async (req, res) => {
+    try {
+      const tripId = Number(req.params.id);
+      if (!Number.isInteger(tripId)) return res.status(400).json({ error: "Invalid trip id" });
+      const access = await storage.getTripAccess(tripId, req.user!.id);
+      if (!access) return res.status(404).json({ error: "Trip not found" });
+
+      const { trip } = access;
+      const dayIndex = Number.isInteger(req.body?.dayIndex) ? req.body.dayIndex : null;
+      const spots = (await storage.getTripSpots(tripId)).filter(
+        (s) => dayIndex === null || s.dayIndex === dayIndex
+      );
+      if (spots.length > MAX_ROUTE_SPOTS) {
+        return res.status(400).json({
+          error: `At most ${MAX_ROUTE_SPOTS} spots can be optimized at once; optimize one day at a time`,
+        });
+      }
+
+      const route = await planRoute(
+        trip.cityLabel || trip.city,
+        trip.hotelLocation,
+        spots.map((s) => ({ id: String(s.id), title: s.title, address: s.address, lat: s.lat, lng: s.lng }))
+      );
+
+      res.json({
+        ...route,
+        dayIndex,
+        order: route.order.map(Number),
+        legs: route.legs.map((l) => ({ ...l, fromId: l.fromId === null ? null : Number(l.fromId), toId: Number(l.toId) })),
+        unlocated: route.unlocated.map(Number),
+      });
+    } catch (error) {
+      console.error("Trip route optimization error:", error);
+      res.status(500).json({ error: "Failed to optimize route" });
+    }
+  });
+
+  app.get("/api/places/details", placesLimiter, async (req, res) => {
+    try {
+      const placeId = req.query.placeId;
+      if (!placeId || typeof placeId !== "string") {
+        return res.status(400).json({ error: "placeId is required" });
+      }
+      const details = await getPlacesProvider().getPlaceDetails(placeId);
+      if (!details) return res.status(404).json({ error: "Place not found" });
+      res.json(details);
+    } catch (error) {
+      console.error("Place details error:", error);
+      res.status(500).json({ error: "Failed to fetch place details" });
+    }
+  });
+
   const geocodeCache = new Map<string, { lat: number; lng: number } | null>();
 
-  app.post("/api/geocode", async (req, res) => {
+  app.post("/api/geocode", placesLimiter, async (req, res) => {
     try {
       const { address } = req.body;
       if (!address || typeof address !== "string") {
@@ -978,32 +1764,171 @@ interface PlacePOI {
   userRatingCount?: number;
 }
 
-interface GooglePlaceResult {
-  title: string;
-  lat: number;
-  lng: number;
-  category: string;
-  address?: string;
-  placeId: string;
-  rating: number;
-  userRatingCount: number;
-}
-
 const GENERIC_NAMES = new Set([
   "city center", "main park", "central park", "downtown", "town square",
   "main street", "high street", "market", "the park", "the mall",
   "church", "old town", "bus station", "train station", "airport",
 ]);
 
-const poolCache = new Map<string, { places: GooglePlaceResult[]; ts: number }>();
 const POOL_CACHE_TTL = 60 * 60 * 1000;
+const poolCache = createCache<PlaceResult[]>("places-pool", POOL_CACHE_TTL);
+
+function normalizeDayCount(value: unknown): number {
+  const n = typeof value === "number" ? Math.floor(value) : parseInt(String(value ?? ""), 10);
+  if (!Number.isFinite(n) || n < 1) return 1;
+  return Math.min(n, MAX_TRIP_DAYS);
+}
+
+const MAX_VISIT_MINUTES = 12 * 60;
+
+function normalizeVisitMinutes(value: unknown): number | null {
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) return null;
+  return Math.min(Math.round(value), MAX_VISIT_MINUTES);
+}
+
+// Stored as a plain YYYY-MM-DD string; anything else clears the date.
+function normalizeStartDate(value: unknown): string | null {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  return Number.isNaN(Date.parse(value)) ? null : value;
+}
+
+const SPOTS_CONFLICT_ERROR = "Someone else changed this trip's spots at the same time";
+const TOO_MANY_SPOTS_ERROR = `A trip can have at most ${MAX_TRIP_SPOTS} spots`;
+const DAY_INDEX_ERROR = `dayIndex must be a whole number from 0 to ${MAX_TRIP_DAYS - 1}`;
+
+// Clamping a spot onto another day would silently merge the user's days, so
+// numeric dayIndex values outside the trip's range are refused instead.
+function hasInvalidDayIndex(spots: any[]): boolean {
+  return spots.some(
+    (s) => typeof s?.dayIndex === "number" && !(Number.isInteger(s.dayIndex) && s.dayIndex >= 0 && s.dayIndex < MAX_TRIP_DAYS)
+  );
+}
+
+// Spot fields from a client payload. Malformed optional fields are dropped
+// rather than rejected, since older clients send loosely typed spots.
+function spotFromInput(s: any): SyncTripSpot & { dayIndex: number } {
+  const slot = timeSlotSchema.safeParse(s.timeSlot);
+  const hours = openingHoursSchema.safeParse(s.openingHours);
+  return {
+    id: Number.isInteger(s.id) ? s.id : undefined,
+    title: String(s.title).trim(),
+    description: s.description || "",
+    category: s.category || "Other",
+    imageUrl: s.imageUrl || null,
+    funFact: s.funFact || null,
+    address: s.address || null,
+    placeId: s.placeId || null,
+    lat: typeof s.lat === "number" ? s.lat : null,
+    lng: typeof s.lng === "number" ? s.lng : null,
+    dayIndex: Number.isInteger(s.dayIndex) ? s.dayIndex : 0,
+    timeSlot: slot.success ? slot.data : null,
+    openingHours: hours.success ? hours.data : null,
+    visitMinutes: normalizeVisitMinutes(s.visitMinutes),
+  };
+}
+
+/**
+ * Grades an answer to a bank question against the stored correct option.
+ * Served options can be shuffled differently from the bank's, so the answer is
+ * matched by option text; options that aren't the bank's own count as unanswered.
+ */
+function gradeBankAnswer(banked: TriviaQuestion, sentOptions: string[], selectedIndex: number | null) {
+  const sameOptions =
+    sentOptions.length === banked.options.length && banked.options.every((o) => sentOptions.includes(o));
+  const options = sameOptions ? sentOptions : banked.options;
+  const correctIndex = options.indexOf(banked.options[banked.correctIndex]);
+  const selected = sameOptions ? selectedIndex : null;
+  return {
+    questionId: banked.id,
+    question: banked.question,
+    options,
+    correctIndex,
+    selectedIndex: selected,
+    isCorrect: selected === correctIndex,
+    funFact: banked.funFact,
+  };
+}
+
+/**
+ * Adds an attempt's bank answers (already graded by gradeBankAnswer) to the
+ * questions' accuracy stats, which steer adaptive quizzes for everyone. Only
+ * questions served to this user or device count, each once per serving, so
+ * replayed or forged attempts can't skew them.
+ */
+async function recordBankAnswerStats(
+  req: Request,
+  answers: { questionId: string | null; selectedIndex: number | null; isCorrect: boolean }[],
+): Promise<void> {
+  const answered = new Map<string, boolean>();
+  for (const a of answers) {
+    if (a.questionId && a.selectedIndex !== null && !answered.has(a.questionId)) answered.set(a.questionId, a.isCorrect);
+  }
+  if (answered.size === 0) return;
+
+  const served = await storage.claimSeenQuestionAnswers(getSeenOwnerKeys(req), Array.from(answered.keys()));
+  await storage.recordTriviaAnswers(served.map((questionId) => ({ questionId, isCorrect: answered.get(questionId)! })));
+}
+
+// "expired" is kept apart from unknown tokens so the viewer can say so.
+async function findActiveShare(token: string): Promise<TripShare | "expired" | null> {
+  const share = await storage.getTripShareByToken(token);
+  if (!share) return null;
+  if (share.expiresAt && share.expiresAt.getTime() <= Date.now()) return "expired";
+  return share;
+}
+
+interface RouteSpotInput {
+  id: string;
+  title: string;
+  address?: string | null;
+  lat?: number | null;
+  lng?: number | null;
+}
+
+async function locateSpots(city: string, spots: RouteSpotInput[]) {
+  const located: RoutePoint[] = [];
+  const unlocated: string[] = [];
+  // Sequential on purpose: Nominatim allows roughly one request per second.
+  for (const s of spots) {
+    if (typeof s.lat === "number" && typeof s.lng === "number") {
+      located.push({ id: s.id, lat: s.lat, lng: s.lng });
+      continue;
+    }
+    const geo = await geocodeCached([s.title, s.address, city].filter(Boolean).join(", "));
+    if (geo) located.push({ id: s.id, lat: geo.lat, lng: geo.lng });
+    else unlocated.push(s.id);
+  }
+  return { located, unlocated };
+}
 
-function haversineKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
-  const R = 6371;
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLng = (lng2 - lng1) * Math.PI / 180;
-  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * Math.sin(dLng / 2) ** 2;
-  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+function sumTravelLegs(legs: TravelLeg[]) {
+  return legs.reduce(
+    (totals, leg) => ({
+      distanceKm: totals.distanceKm + leg.distanceKm,
+      walkMinutes: totals.walkMinutes + leg.walkMinutes,
+      transitMinutes: totals.transitMinutes + leg.transitMinutes,
+      driveMinutes: totals.driveMinutes + leg.driveMinutes,
+    }),
+    { distanceKm: 0, walkMinutes: 0, transitMinutes: 0, driveMinutes: 0 },
+  );
+}
+
+async function planRoute(city: string, hotelLocation: string | null | undefined, spots: RouteSpotInput[]) {
+  let hotelCoords: { lat: number; lng: number } | null = null;
+  if (hotelLocation) {
+    hotelCoords = (await geocodeCached(`${hotelLocation}, ${city}`)) || (await geocodeCached(hotelLocation));
+  }
+
+  const { located, unlocated } = await locateSpots(city, spots);
+  const route = optimizeVisitOrder(located, hotelCoords);
+  return {
+    order: [...route.order, ...unlocated],
+    legs: route.legs,
+    totalKm: route.totalKm,
+    originalTotalKm: routeLengthKm(located, hotelCoords),
+    startsAtHotel: !!hotelCoords,
+    unlocated,
+  };
 }
 
 const geocodeInternalCache = new Map<string, { lat: number; lng: number } | null>();
@@ -1039,100 +1964,213 @@ async function geocodeCached(address: string): Promise<{ lat: number; lng: numbe
   }
 }
 
-function mapGoogleCategory(types: string[]): string {
-  const typeSet = new Set(types);
-  if (typeSet.has("museum") || typeSet.has("art_gallery")) return "Culture";
-  if (typeSet.has("restaurant") || typeSet.has("cafe") || typeSet.has("bakery") || typeSet.has("bar") || typeSet.has("meal_takeaway")) return "Food";
-  if (typeSet.has("park") || typeSet.has("natural_feature") || typeSet.has("campground")) return "Nature";
-  if (typeSet.has("shopping_mall") || typeSet.has("store") || typeSet.has("clothing_store") || typeSet.has("department_store")) return "Shopping";
-  if (typeSet.has("amusement_park") || typeSet.has("stadium") || typeSet.has("movie_theater") || typeSet.has("night_club")) return "Entertainment";
-  if (typeSet.has("church") || typeSet.has("hindu_temple") || typeSet.has("mosque") || typeSet.has("synagogue") || typeSet.has("place_of_worship")) return "Landmark";
-  if (typeSet.has("tourist_attraction") || typeSet.has("point_of_interest") || typeSet.has("establishment")) return "Landmark";
-  return "Landmark";
-}
+const SUGGESTION_COUNT = 8;
+const ENRICHMENT_PLACEHOLDER = "Loading details\u2026";
+
+// Real POIs first: ranked by popularity, category variety and distance from the
+// hotel. Descriptions come from the enrichment cache or are left as a
+// placeholder for the client to fill via /api/suggestions/enrich-poi.
+async function getPoolSuggestions(
+  city: string,
+  hotelCoords: { lat: number; lng: number } | null,
+  excludeTitles: string[],
+  excludePids: string[],
+  filters: SuggestionFilters = {},
+  profile: TravelerProfile | null = null
+): Promise<any[]> {
+  const excludedTitles = new Set(excludeTitles.map((t) => t.toLowerCase().trim()));
+  const excludedIds = new Set(excludePids.filter(Boolean));
+  // Places without accessibility data are kept; only known barriers are dropped.
+  const needsStepFree = !!profile?.mobility.includes("Step-free access");
+  const fullPool = await fetchPlacesPool(city);
+  const pool = applySuggestionFilters(fullPool, filters).filter(
+    (p) =>
+      !excludedIds.has(p.placeId) &&
+      !excludedTitles.has(p.title.toLowerCase().trim()) &&
+      !(needsStepFree && p.wheelchairAccessible === false)
+  );
+  const source = getPlacesProvider().name;
 
-async function fetchGooglePlacesTextSearch(query: string): Promise<GooglePlaceResult[]> {
-  const apiKey = process.env.GOOGLE_PLACES_API_KEY;
-  if (!apiKey) return [];
+  const ranked = rankPlaces(pool, {
+    origin: hotelCoords,
+    maxDistanceKm: filters.maxDistanceKm,
+    preferredCategories: preferredCategories(profile),
+    limit: SUGGESTION_COUNT,
+  });
+  return Promise.all(
+    ranked.map(async ({ place, distanceKm }) => {
+      const cached = await enrichmentCache.get(place.placeId);
+      return {
+        title: place.title,
+        category: place.category,
+        description: cached?.description || ENRICHMENT_PLACEHOLDER,
+        funFact: cached?.funFact || "",
+        address: place.address || "",
+        placeId: place.placeId,
+        lat: place.lat,
+        lng: place.lng,
+        distanceKm,
+        rating: place.rating || undefined,
+        openingHours: place.openingHours,
+        visitMinutes: estimateVisitMinutes(place.category),
+        source,
+      };
+    })
+  );
+}
 
-  try {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 5000);
-    const res = await fetch("https://places.googleapis.com/v1/places:searchText", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "X-Goog-Api-Key": apiKey,
-        "X-Goog-FieldMask": "places.id,places.displayName,places.formattedAddress,places.location,places.rating,places.userRatingCount,places.types",
-      },
-      body: JSON.stringify({
-        textQuery: query,
-        pageSize: 20,
-        languageCode: "en",
-      }),
-      signal: controller.signal,
-    });
-    clearTimeout(timeout);
+const HIDDEN_GEM_MIN_RATING = 4.4;
 
-    if (!res.ok) {
-      console.error(`Google Places API error: ${res.status} ${res.statusText}`);
-      return [];
-    }
+function hasActiveFilters(filters: SuggestionFilters): boolean {
+  return !!(
+    filters.includeCategories?.length ||
+    filters.excludeCategories?.length ||
+    filters.minRating !== undefined ||
+    filters.maxDistanceKm !== undefined ||
+    filters.hiddenGems
+  );
+}
 
-    const data = await res.json();
-    if (!data.places || !Array.isArray(data.places)) return [];
+function matchesCategoryFilters(category: string, filters: SuggestionFilters): boolean {
+  if (filters.includeCategories?.length && !filters.includeCategories.includes(category as PlaceCategory)) return false;
+  if (filters.excludeCategories?.includes(category as PlaceCategory)) return false;
+  return true;
+}
 
-    return data.places
-      .filter((p: any) => {
-        const name = p.displayName?.text;
-        if (!name || name.length < 3) return false;
-        if (GENERIC_NAMES.has(name.toLowerCase().trim())) return false;
-        return true;
-      })
-      .map((p: any) => ({
-        title: p.displayName.text,
-        lat: p.location?.latitude || 0,
-        lng: p.location?.longitude || 0,
-        category: mapGoogleCategory(p.types || []),
-        address: p.formattedAddress || "",
-        placeId: p.id || "",
-        rating: p.rating || 0,
-        userRatingCount: p.userRatingCount || 0,
-      }));
-  } catch (error) {
-    console.error("Google Places Text Search error:", error);
-    return [];
+// Distance is left to rankPlaces, which already knows each place's distance
+// from the hotel. Hidden gems are judged against the whole pool: highly rated,
+// but with fewer reviews than the pool's median.
+function applySuggestionFilters(pool: PlaceResult[], filters: SuggestionFilters): PlaceResult[] {
+  let filtered = pool.filter((p) => matchesCategoryFilters(p.category, filters));
+  if (filters.minRating !== undefined) {
+    filtered = filtered.filter((p) => p.rating >= filters.minRating!);
+  }
+  if (filters.hiddenGems) {
+    const counts = pool.map((p) => p.userRatingCount).sort((a, b) => a - b);
+    const medianCount = counts[Math.floor(counts.length / 2)] ?? 0;
+    filtered = filtered.filter(
+      (p) => p.rating >= HIDDEN_GEM_MIN_RATING && p.userRatingCount > 0 && p.userRatingCount < medianCount
+    );
   }
+  return filtered;
 }
 
-async function fetchGooglePlacesPool(city: string): Promise<GooglePlaceResult[]> {
-  const cacheKey = city.toLowerCase().trim();
-  const cached = poolCache.get(cacheKey);
-  if (cached && Date.now() - cached.ts < POOL_CACHE_TTL) {
-    return cached.places;
+// Fills gaps the places pool could not cover with LLM-invented suggestions,
+// geocoded via Nominatim so they can still be mapped and routed.
+async function generateAiSuggestions(
+  city: string,
+  hotelCoords: { lat: number; lng: number } | null,
+  count: number,
+  excludeTitles: string[],
+  excludePids: string[],
+  filters: SuggestionFilters = {},
+  profile: TravelerProfile | null = null,
+  client?: string
+): Promise<any[]> {
+  const allowedCategories = PLACE_CATEGORIES.filter((c) => matchesCategoryFilters(c, filters));
+  const excludeText =
+    excludeTitles.length > 0
+      ? `Do NOT include any of these places: ${excludeTitles.join(", ")}.`
+      : "Avoid repeating obvious duplicates or places already shown.";
+
+  const prompt = `
+You are a travel discovery expert.
+
+Generate ${count} unique suggestions for ${city}.
+${excludeText}${suggestionProfileNote(profile)}
+
+Requirements:
+- Mix categories across food, culture, nightlife, nature, views, neighborhoods, and hidden gems.
+- category must be exactly one of: ${allowedCategories.join(", ")}.
+- Avoid only listing the most obvious tourist attractions unless truly worth including.
+- Prefer variety and freshness.
+- Each suggestion must include:
+  - title
+  - category
+  - description
+  - address (if known, otherwise empty string)
+- Return ONLY valid JSON in this exact shape:
+
+{
+  "suggestions": [
+    {
+      "title": "string",
+      "category": "string",
+      "description": "string",
+      "address": "string"
+    }
+  ]
+}
+  `.trim();
+
+  const content = await completeLlm({ task: "suggestions", prompt, maxTokens: 1800, subject: city, client });
+  const parsed = safeJsonParse(content);
+  const raw = Array.isArray(parsed?.suggestions) ? parsed.suggestions : [];
+
+  const normalized = raw.map((s: any) => ({
+    title: String(s.title || "").trim(),
+    category: String(s.category || "Other").trim() || "Other",
+    description: String(s.description || "").trim(),
+    address: String(s.address || "").trim(),
+    placeId: null,
+    lat: null,
+    lng: null,
+    enriched: false,
+    source: "ai",
+  }));
+
+  const filtered = validateSuggestions(normalized, excludeTitles, excludePids)
+    .filter((s: any) => matchesCategoryFilters(s.category, filters))
+    .slice(0, count);
+
+  const located: any[] = [];
+  // Sequential on purpose: Nominatim allows roughly one request per second.
+  for (const s of filtered) {
+    const geo = await geocodeCached([s.title, s.address, city].filter(Boolean).join(", "));
+    const distanceKm = hotelCoords && geo ? haversineKm(hotelCoords.lat, hotelCoords.lng, geo.lat, geo.lng) : null;
+    if (hotelCoords && filters.maxDistanceKm !== undefined && (distanceKm === null || distanceKm > filters.maxDistanceKm)) {
+      continue;
+    }
+    located.push({
+      ...s,
+      lat: geo?.lat ?? null,
+      lng: geo?.lng ?? null,
+      distanceKm,
+      visitMinutes: estimateVisitMinutes(s.category),
+    });
   }
+  return located;
+}
 
-  const queries = [
-    `top attractions in ${city}`,
-    `best landmarks in ${city}`,
-    `best museums in ${city}`,
-    `best parks and gardens in ${city}`,
-    `best restaurants in ${city}`,
-    `best viewpoints in ${city}`,
-  ];
+async function fetchPlacesPool(city: string): Promise<PlaceResult[]> {
+  const cacheKey = city.toLowerCase().trim();
+  const cached = await poolCache.get(cacheKey);
+  if (cached) return cached;
 
-  const results = await Promise.all(queries.map((q) => fetchGooglePlacesTextSearch(q)));
-  const all = results.flat();
+  const kinds: PoiKind[] = ["attractions", "landmarks", "museums", "parks", "restaurants", "viewpoints"];
+  const provider = getPlacesProvider();
+  const results = await Promise.all(
+    kinds.map(async (kind) => {
+      try {
+        return await provider.searchPois({ label: city }, kind, 20);
+      } catch (error) {
+        console.error(`Places search error (${provider.name}, ${kind}):`, error);
+        return [];
+      }
+    })
+  );
 
-  const deduped = new Map<string, GooglePlaceResult>();
-  for (const place of all) {
+  const deduped = new Map<string, PlaceResult>();
+  for (const place of results.flat()) {
+    if (!place.title || place.title.length < 3) continue;
+    if (GENERIC_NAMES.has(place.title.toLowerCase().trim())) continue;
     if (!deduped.has(place.placeId)) {
       deduped.set(place.placeId, place);
     }
   }
 
   const places = Array.from(deduped.values());
-  poolCache.set(cacheKey, { places, ts: Date.now() });
+  if (places.length > 0) await poolCache.set(cacheKey, places);
   return places;
 }
 
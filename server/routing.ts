@@ -0,0 +1,169 @@
+import { haversineKm, type RoutePoint } from "./routeOptimizer";
+
+export interface TravelLeg {
+  fromId: string;
+  toId: string;
+  distanceKm: number;
+  walkMinutes: number;
+  transitMinutes: number;
+  driveMinutes: number;
+}
+
+export interface RoutingProvider {
+  readonly name: string;
+  /** One leg per pair of consecutive points, in order. */
+  estimateLegs(points: RoutePoint[]): Promise<TravelLeg[]>;
+}
+
+const REQUEST_TIMEOUT = 5000;
+
+async function fetchWithTimeout(url: string, timeoutMs = REQUEST_TIMEOUT): Promise<Response> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { signal: controller.signal });
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/* -------------------- Speed-based estimate -------------------- */
+
+// Streets are rarely straight; scales a straight-line distance to a route distance.
+const DETOUR_FACTOR = 1.3;
+const WALK_KMH = 4.5;
+const DRIVE_KMH = 25;
+const DRIVE_OVERHEAD_MINUTES = 5;
+const TRANSIT_KMH = 18;
+// Walking to the stop plus the wait.
+const TRANSIT_OVERHEAD_MINUTES = 10;
+// Below this a ride isn't worth it, so transit time is the walking time.
+const TRANSIT_MIN_KM = 1;
+
+function minutesAt(km: number, kmh: number): number {
+  return (km / kmh) * 60;
+}
+
+function roundMinutes(minutes: number): number {
+  return Math.max(1, Math.round(minutes));
+}
+
+function estimateTransitMinutes(routeKm: number, walkMinutes: number): number {
+  if (routeKm < TRANSIT_MIN_KM) return walkMinutes;
+  return Math.min(walkMinutes, roundMinutes(minutesAt(routeKm, TRANSIT_KMH) + TRANSIT_OVERHEAD_MINUTES));
+}
+
+function estimateLeg(from: RoutePoint, to: RoutePoint): TravelLeg {
+  const distanceKm = haversineKm(from.lat, from.lng, to.lat, to.lng);
+  const routeKm = distanceKm * DETOUR_FACTOR;
+  const walkMinutes = roundMinutes(minutesAt(routeKm, WALK_KMH));
+  return {
+    fromId: from.id,
+    toId: to.id,
+    distanceKm,
+    walkMinutes,
+    transitMinutes: estimateTransitMinutes(routeKm, walkMinutes),
+    driveMinutes: roundMinutes(minutesAt(routeKm, DRIVE_KMH) + DRIVE_OVERHEAD_MINUTES),
+  };
+}
+
+export class HaversineRoutingProvider implements RoutingProvider {
+  readonly name = "haversine";
+
+  async estimateLegs(points: RoutePoint[]): Promise<TravelLeg[]> {
+    const legs: TravelLeg[] = [];
+    for (let i = 1; i < points.length; i++) legs.push(estimateLeg(points[i - 1], points[i]));
+    return legs;
+  }
+}
+
+/* -------------------- OSRM -------------------- */
+
+interface OsrmLeg {
+  distance: number;
+  duration: number;
+}
+
+/**
+ * Any OSRM-compatible `/route/v1` service. A self-hosted osrm-routed serves a
+ * single profile, so walking and driving can point at separate instances;
+ * a mode without a URL (and transit, which OSRM doesn't do) falls back to the
+ * speed-based estimate.
+ */
+export class OsrmRoutingProvider implements RoutingProvider {
+  readonly name = "osrm";
+
+  constructor(
+    private readonly driveUrl: string | undefined,
+    private readonly walkUrl: string | undefined,
+  ) {}
+
+  private async routeLegs(baseUrl: string, profile: string, points: RoutePoint[]): Promise<OsrmLeg[] | null> {
+    const coords = points.map((p) => `${p.lng},${p.lat}`).join(";");
+    const url = `${baseUrl.replace(/\/$/, "")}/route/v1/${profile}/${coords}?overview=false`;
+    try {
+      const res = await fetchWithTimeout(url);
+      if (!res.ok) {
+        console.error(`OSRM ${profile} route failed: ${res.status}`);
+        return null;
+      }
+      const data = await res.json();
+      const legs = data.routes?.[0]?.legs;
+      if (data.code !== "Ok" || !Array.isArray(legs) || legs.length !== points.length - 1) return null;
+      return legs;
+    } catch (error) {
+      console.error(`OSRM ${profile} route error:`, error);
+      return null;
+    }
+  }
+
+  async estimateLegs(points: RoutePoint[]): Promise<TravelLeg[]> {
+    if (points.length < 2) return [];
+    const [walkLegs, driveLegs] = await Promise.all([
+      this.walkUrl ? this.routeLegs(this.walkUrl, "foot", points) : null,
+      this.driveUrl ? this.routeLegs(this.driveUrl, "driving", points) : null,
+    ]);
+
+    return points.slice(1).map((to, i) => {
+      const fallback = estimateLeg(points[i], to);
+      const walk = walkLegs?.[i];
+      const drive = driveLegs?.[i];
+      const walkMinutes = walk ? roundMinutes(walk.duration / 60) : fallback.walkMinutes;
+      const routeKm = walk ? walk.distance / 1000 : fallback.distanceKm * DETOUR_FACTOR;
+      return {
+        ...fallback,
+        walkMinutes,
+        transitMinutes: estimateTransitMinutes(routeKm, walkMinutes),
+        driveMinutes: drive ? roundMinutes(drive.duration / 60 + DRIVE_OVERHEAD_MINUTES) : fallback.driveMinutes,
+      };
+    });
+  }
+}
+
+/* -------------------- Selection -------------------- */
+
+function createProvider(): RoutingProvider {
+  const configured = process.env.ROUTING_PROVIDER;
+  const driveUrl = process.env.OSRM_URL || undefined;
+  const walkUrl = process.env.OSRM_FOOT_URL || undefined;
+
+  if (configured === "haversine") return new HaversineRoutingProvider();
+  if (configured === "osrm") {
+    if (driveUrl || walkUrl) return new OsrmRoutingProvider(driveUrl, walkUrl);
+    console.error("ROUTING_PROVIDER=osrm but neither OSRM_URL nor OSRM_FOOT_URL is set; using speed-based estimates");
+    return new HaversineRoutingProvider();
+  }
+  if (process.env.NODE_ENV === "test") return new HaversineRoutingProvider();
+  return driveUrl || walkUrl ? new OsrmRoutingProvider(driveUrl, walkUrl) : new HaversineRoutingProvider();
+}
+
+let provider: RoutingProvider = createProvider();
+
+export function getRoutingProvider(): RoutingProvider {
+  return provider;
+}
+
+/** Swaps the provider behind travel-time estimates, e.g. to the Haversine one in tests. */
+export function setRoutingProvider(next: RoutingProvider) {
+  provider = next;
+}
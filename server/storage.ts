@@ -1,46 +1,261 @@
 import { db } from "./db";
-import { trips, tripSpots, type Trip, type InsertTrip, type TripSpot, type InsertTripSpot } from "@shared/schema";
-import { eq, desc, asc } from "drizzle-orm";
+import {
+  users,
+  trips,
+  tripSpots,
+  tripShares,
+  tripMembers,
+  quizAttempts,
+  quizAnswers,
+  seenQuestions,
+  triviaQuestions,
+  travelerProfiles,
+  sessionDrafts,
+  aiUsage,
+  type User,
+  type InsertUser,
+  type Trip,
+  type InsertTrip,
+  type TripSpot,
+  type InsertTripSpot,
+  type SyncTripSpot,
+  type TripShare,
+  type InsertTripShare,
+  type TripMemberRole,
+  type TripMemberWithUser,
+  type TripRole,
+  type TripWithRole,
+  type TimeSlot,
+  type InsertQuizAttempt,
+  type InsertQuizAnswer,
+  type QuizAttemptWithAnswers,
+  type TriviaQuestion,
+  type InsertTriviaQuestion,
+  type TravelerProfile,
+  type SessionDraft,
+  type AiUsage,
+} from "@shared/schema";
+import { eq, desc, asc, and, ne, or, inArray, isNotNull, isNull, sql } from "drizzle-orm";
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
 
 export interface IStorage {
-  getTrips(): Promise<Trip[]>;
-  getTrip(id: number): Promise<Trip | undefined>;
-  createTrip(trip: InsertTrip): Promise<Trip>;
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+  getTravelerProfile(userId: number): Promise<TravelerProfile | undefined>;
+  saveTravelerProfile(userId: number, profile: TravelerProfile): Promise<TravelerProfile>;
+  getSessionDraft(userId: number): Promise<SessionDraft | undefined>;
+  saveSessionDraft(userId: number, draft: SessionDraft): Promise<void>;
+  deleteSessionDraft(userId: number): Promise<void>;
+  getTrips(userId: number): Promise<TripWithRole[]>;
+  getTrip(id: number, userId: number): Promise<Trip | undefined>;
+  // Not scoped to an owner: only for routes that checked access another way (share tokens).
+  getTripById(id: number): Promise<Trip | undefined>;
+  getTripAccess(id: number, userId: number): Promise<{ trip: Trip; role: TripRole } | undefined>;
+  // Saves the trip with its first spots in one transaction.
+  createTrip(trip: InsertTrip, spots?: SyncTripSpot[]): Promise<Trip>;
   updateTrip(id: number, updates: Partial<InsertTrip>): Promise<void>;
-  deleteTrip(id: number): Promise<void>;
+  deleteTrip(id: number, userId: number): Promise<void>;
+  getTripMembers(tripId: number): Promise<TripMemberWithUser[]>;
+  addTripMember(tripId: number, userId: number, role: TripMemberRole): Promise<void>;
+  removeTripMember(tripId: number, userId: number): Promise<void>;
+  // Spot methods are keyed by trip; routes check access with getTripAccess first.
+  // Changes bump trips.spotsVersion; given a stale baseVersion they return "conflict"
+  // and change nothing.
   getTripSpots(tripId: number): Promise<TripSpot[]>;
+  getTripSpotsSnapshot(tripId: number): Promise<{ version: number; spots: TripSpot[] }>;
   addTripSpot(spot: InsertTripSpot): Promise<TripSpot>;
-  addTripSpots(spots: InsertTripSpot[]): Promise<TripSpot[]>;
-  deleteTripSpot(id: number): Promise<void>;
-  updateSpotOrder(id: number, sortOrder: number): Promise<void>;
+  addTripSpots(tripId: number, spots: InsertTripSpot[], baseVersion?: number): Promise<TripSpot[] | "conflict">;
+  deleteTripSpot(tripId: number, spotId: number): Promise<void>;
+  updateSpotOrder(tripId: number, spotId: number, sortOrder: number, dayIndex?: number): Promise<void>;
+  // Makes the stored list match `spots` (in visit order) in one transaction:
+  // matched spots are updated and reordered, new ones inserted, the rest deleted.
+  syncTripSpots(tripId: number, spots: SyncTripSpot[], baseVersion?: number): Promise<void | "conflict">;
+  reorderDaySpots(tripId: number, dayIndex: number, spotIds: number[], baseVersion?: number): Promise<void | "conflict">;
+  moveSpotToDay(
+    tripId: number,
+    spotId: number,
+    dayIndex: number,
+    position?: number,
+    timeSlot?: TimeSlot | null,
+    baseVersion?: number,
+  ): Promise<TripSpot | "conflict" | undefined>;
+  getTripShares(tripId: number): Promise<TripShare[]>;
+  getTripShareByToken(token: string): Promise<TripShare | undefined>;
+  createTripShare(share: InsertTripShare): Promise<TripShare>;
+  deleteTripShare(tripId: number, shareId: number): Promise<void>;
+  // Copies a trip and its spots to another owner; quiz results stay behind.
+  cloneTrip(sourceTripId: number, userId: number): Promise<Trip | undefined>;
+  createQuizAttempt(
+    attempt: InsertQuizAttempt,
+    answers: Omit<InsertQuizAnswer, "attemptId">[],
+  ): Promise<QuizAttemptWithAnswers>;
+  getQuizAttempts(tripId: number): Promise<QuizAttemptWithAnswers[]>;
+  getRecentAnswerStats(userId: number, limit: number): Promise<{ answered: number; correct: number }>;
+  getTriviaQuestions(cityPlaceId: string, difficulty: string): Promise<TriviaQuestion[]>;
+  getTriviaQuestionsByIds(ids: string[]): Promise<TriviaQuestion[]>;
+  saveTriviaQuestions(questions: InsertTriviaQuestion[]): Promise<void>;
+  recordTriviaServed(questionIds: string[]): Promise<void>;
+  recordTriviaAnswers(results: { questionId: string; isCorrect: boolean }[]): Promise<void>;
+  // Seen-question history is keyed by "user:<id>" or "device:<id>" plus cityPlaceId.
+  getSeenQuestionIds(ownerKey: string, cityPlaceId: string): Promise<string[]>;
+  markQuestionsSeen(ownerKey: string, cityPlaceId: string, questionIds: string[]): Promise<void>;
+  clearSeenQuestions(ownerKey: string, cityPlaceId: string): Promise<void>;
+  // Of questionIds, those served to one of ownerKeys and not answered since;
+  // marks them answered, so each serving counts towards the stats once.
+  claimSeenQuestionAnswers(ownerKeys: string[], questionIds: string[]): Promise<string[]>;
+  // Adds one AI call's tokens to the day's row for its client and task.
+  recordAiUsage(usage: Omit<AiUsage, "requests">): Promise<void>;
+  getAiUsage(day: string): Promise<AiUsage[]>;
 }
 
+// Matches the old client-side cap of 200 remembered questions per city.
+const SEEN_QUESTIONS_LIMIT = 200;
+
 export class DatabaseStorage implements IStorage {
-  async getTrips(): Promise<Trip[]> {
-    return db.select().from(trips).orderBy(desc(trips.createdAt));
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const [created] = await db.insert(users).values(user).returning();
+    return created;
+  }
+
+  async getTravelerProfile(userId: number): Promise<TravelerProfile | undefined> {
+    const [row] = await db.select().from(travelerProfiles).where(eq(travelerProfiles.userId, userId));
+    if (!row) return undefined;
+    const { userId: _userId, updatedAt: _updatedAt, ...profile } = row;
+    return { ...profile, budget: profile.budget ?? null, pace: profile.pace ?? null };
+  }
+
+  async saveTravelerProfile(userId: number, profile: TravelerProfile): Promise<TravelerProfile> {
+    const updatedAt = new Date();
+    await db
+      .insert(travelerProfiles)
+      .values({ userId, ...profile, updatedAt })
+      .onConflictDoUpdate({ target: travelerProfiles.userId, set: { ...profile, updatedAt } });
+    return profile;
+  }
+
+  async getSessionDraft(userId: number): Promise<SessionDraft | undefined> {
+    const [row] = await db.select().from(sessionDrafts).where(eq(sessionDrafts.userId, userId));
+    return row?.draft;
+  }
+
+  async saveSessionDraft(userId: number, draft: SessionDraft): Promise<void> {
+    const updatedAt = new Date();
+    await db
+      .insert(sessionDrafts)
+      .values({ userId, draft, updatedAt })
+      .onConflictDoUpdate({ target: sessionDrafts.userId, set: { draft, updatedAt } });
+  }
+
+  async deleteSessionDraft(userId: number): Promise<void> {
+    await db.delete(sessionDrafts).where(eq(sessionDrafts.userId, userId));
+  }
+
+  async getTrips(userId: number): Promise<TripWithRole[]> {
+    const owned = await db.select().from(trips).where(eq(trips.userId, userId));
+    const joined = await db
+      .select({ trip: trips, role: tripMembers.role })
+      .from(tripMembers)
+      .innerJoin(trips, eq(tripMembers.tripId, trips.id))
+      .where(eq(tripMembers.userId, userId));
+    return [
+      ...owned.map((trip) => ({ ...trip, role: "owner" as const })),
+      ...joined.map(({ trip, role }) => ({ ...trip, role })),
+    ].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getTrip(id: number, userId: number): Promise<Trip | undefined> {
+    const [trip] = await db.select().from(trips).where(and(eq(trips.id, id), eq(trips.userId, userId)));
+    return trip;
   }
 
-  async getTrip(id: number): Promise<Trip | undefined> {
+  async getTripById(id: number): Promise<Trip | undefined> {
     const [trip] = await db.select().from(trips).where(eq(trips.id, id));
     return trip;
   }
 
-  async createTrip(trip: InsertTrip): Promise<Trip> {
-    const [created] = await db.insert(trips).values(trip).returning();
-    return created;
+  async getTripAccess(id: number, userId: number): Promise<{ trip: Trip; role: TripRole } | undefined> {
+    const trip = await this.getTripById(id);
+    if (!trip) return undefined;
+    if (trip.userId === userId) return { trip, role: "owner" };
+    const [member] = await db
+      .select()
+      .from(tripMembers)
+      .where(and(eq(tripMembers.tripId, id), eq(tripMembers.userId, userId)));
+    return member ? { trip, role: member.role } : undefined;
+  }
+
+  async createTrip(trip: InsertTrip, spots: SyncTripSpot[] = []): Promise<Trip> {
+    return db.transaction(async (tx) => {
+      // Saving spots counts as the first spots change, as a sync would.
+      const [created] = await tx
+        .insert(trips)
+        .values({ ...trip, spotsVersion: spots.length > 0 ? 1 : 0 })
+        .returning();
+      if (spots.length > 0) {
+        const nextOrderByDay = new Map<number, number>();
+        await tx.insert(tripSpots).values(
+          spots.map(({ id, ...spot }) => {
+            const dayIndex = spot.dayIndex ?? 0;
+            const sortOrder = nextOrderByDay.get(dayIndex) ?? 0;
+            nextOrderByDay.set(dayIndex, sortOrder + 1);
+            return { ...spot, tripId: created.id, dayIndex, sortOrder };
+          }),
+        );
+      }
+      return created;
+    });
   }
 
   async updateTrip(id: number, updates: Partial<InsertTrip>): Promise<void> {
     await db.update(trips).set(updates).where(eq(trips.id, id));
   }
 
-  async deleteTrip(id: number): Promise<void> {
+  async deleteTrip(id: number, userId: number): Promise<void> {
+    const trip = await this.getTrip(id, userId);
+    if (!trip) return;
     await db.delete(tripSpots).where(eq(tripSpots.tripId, id));
     await db.delete(trips).where(eq(trips.id, id));
   }
 
+  async getTripMembers(tripId: number): Promise<TripMemberWithUser[]> {
+    const rows = await db
+      .select({ member: tripMembers, username: users.username })
+      .from(tripMembers)
+      .innerJoin(users, eq(tripMembers.userId, users.id))
+      .where(eq(tripMembers.tripId, tripId))
+      .orderBy(asc(tripMembers.createdAt));
+    return rows.map(({ member, username }) => ({ ...member, username }));
+  }
+
+  async addTripMember(tripId: number, userId: number, role: TripMemberRole): Promise<void> {
+    await db
+      .insert(tripMembers)
+      .values({ tripId, userId, role })
+      .onConflictDoUpdate({ target: [tripMembers.tripId, tripMembers.userId], set: { role } });
+  }
+
+  async removeTripMember(tripId: number, userId: number): Promise<void> {
+    await db.delete(tripMembers).where(and(eq(tripMembers.tripId, tripId), eq(tripMembers.userId, userId)));
+  }
+
   async getTripSpots(tripId: number): Promise<TripSpot[]> {
-    return db.select().from(tripSpots).where(eq(tripSpots.tripId, tripId)).orderBy(asc(tripSpots.sortOrder));
+    return db
+      .select()
+      .from(tripSpots)
+      .where(eq(tripSpots.tripId, tripId))
+      .orderBy(asc(tripSpots.dayIndex), asc(tripSpots.sortOrder));
   }
 
   async addTripSpot(spot: InsertTripSpot): Promise<TripSpot> {
@@ -48,18 +263,394 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
-  async addTripSpots(spots: InsertTripSpot[]): Promise<TripSpot[]> {
-    if (spots.length === 0) return [];
-    return db.insert(tripSpots).values(spots).returning();
+  // The version is read first, so a change landing in between makes it look
+  // older than the spots rather than newer.
+  async getTripSpotsSnapshot(tripId: number): Promise<{ version: number; spots: TripSpot[] }> {
+    const [trip] = await db.select({ version: trips.spotsVersion }).from(trips).where(eq(trips.id, tripId));
+    const spots = await this.getTripSpots(tripId);
+    return { version: trip?.version ?? 0, spots };
+  }
+
+  async addTripSpots(tripId: number, spots: InsertTripSpot[], baseVersion?: number): Promise<TripSpot[] | "conflict"> {
+    return db.transaction(async (tx) => {
+      if (!(await bumpSpotsVersion(tx, tripId, baseVersion))) return "conflict";
+      if (spots.length === 0) return [];
+      return tx.insert(tripSpots).values(spots).returning();
+    });
+  }
+
+  async deleteTripSpot(tripId: number, spotId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await bumpSpotsVersion(tx, tripId);
+      await tx.delete(tripSpots).where(and(eq(tripSpots.id, spotId), eq(tripSpots.tripId, tripId)));
+    });
+  }
+
+  async updateSpotOrder(tripId: number, spotId: number, sortOrder: number, dayIndex?: number): Promise<void> {
+    await writeSpotOrder(db, tripId, spotId, sortOrder, dayIndex);
+  }
+
+  async syncTripSpots(tripId: number, spots: SyncTripSpot[], baseVersion?: number): Promise<void | "conflict"> {
+    return db.transaction(async (tx) => {
+      if (!(await bumpSpotsVersion(tx, tripId, baseVersion))) return "conflict";
+
+      const existing = await tx.select().from(tripSpots).where(eq(tripSpots.tripId, tripId));
+      const unmatched = new Map(existing.map((s) => [s.id, s]));
+      const take = (match: (s: TripSpot) => boolean) => {
+        const found = Array.from(unmatched.values()).find(match);
+        if (found) unmatched.delete(found.id);
+        return found;
+      };
+      const titleKey = (title: string) => title.toLowerCase().trim();
+
+      // Explicit ids are claimed first so a repeated place can't take another item's row.
+      const matches = spots.map(({ id }) => (id !== undefined ? take((s) => s.id === id) : undefined));
+      spots.forEach((spot, i) => {
+        matches[i] ??=
+          (spot.placeId ? take((s) => s.placeId === spot.placeId) : undefined) ??
+          take((s) => titleKey(s.title) === titleKey(spot.title));
+      });
+
+      const nextOrderByDay = new Map<number, number>();
+      for (const [i, { id, ...spot }] of Array.from(spots.entries())) {
+        const dayIndex = spot.dayIndex ?? 0;
+        const sortOrder = nextOrderByDay.get(dayIndex) ?? 0;
+        nextOrderByDay.set(dayIndex, sortOrder + 1);
+
+        const current = matches[i];
+        if (!current) {
+          await tx.insert(tripSpots).values({ ...spot, tripId, dayIndex, sortOrder });
+          continue;
+        }
+        // Place identity and coordinates are kept when the client didn't send them.
+        await tx
+          .update(tripSpots)
+          .set({
+            ...spot,
+            placeId: spot.placeId ?? current.placeId,
+            lat: spot.lat ?? current.lat,
+            lng: spot.lng ?? current.lng,
+            address: spot.address ?? current.address,
+            openingHours: spot.openingHours ?? current.openingHours,
+          })
+          .where(eq(tripSpots.id, current.id));
+        await writeSpotOrder(tx, tripId, current.id, sortOrder, dayIndex);
+      }
+
+      if (unmatched.size > 0) {
+        await tx
+          .delete(tripSpots)
+          .where(and(eq(tripSpots.tripId, tripId), inArray(tripSpots.id, Array.from(unmatched.keys()))));
+      }
+    });
+  }
+
+  // Assigns the given spots to a day in the given order. Spots of the trip
+  // that are not listed keep their current day and position.
+  async reorderDaySpots(
+    tripId: number,
+    dayIndex: number,
+    spotIds: number[],
+    baseVersion?: number,
+  ): Promise<void | "conflict"> {
+    return db.transaction(async (tx) => {
+      if (!(await bumpSpotsVersion(tx, tripId, baseVersion))) return "conflict";
+      for (let i = 0; i < spotIds.length; i++) {
+        await tx
+          .update(tripSpots)
+          .set({ dayIndex, sortOrder: i })
+          .where(and(eq(tripSpots.id, spotIds[i]), eq(tripSpots.tripId, tripId)));
+      }
+    });
+  }
+
+  async moveSpotToDay(
+    tripId: number,
+    spotId: number,
+    dayIndex: number,
+    position?: number,
+    timeSlot?: TimeSlot | null,
+    baseVersion?: number,
+  ): Promise<TripSpot | "conflict" | undefined> {
+    return db.transaction(async (tx) => {
+      const [spot] = await tx
+        .select()
+        .from(tripSpots)
+        .where(and(eq(tripSpots.id, spotId), eq(tripSpots.tripId, tripId)));
+      if (!spot) return undefined;
+      if (!(await bumpSpotsVersion(tx, tripId, baseVersion))) return "conflict";
+
+      const daySpots = await tx
+        .select()
+        .from(tripSpots)
+        .where(and(eq(tripSpots.tripId, tripId), eq(tripSpots.dayIndex, dayIndex), ne(tripSpots.id, spotId)))
+        .orderBy(asc(tripSpots.sortOrder));
+
+      const ordered = daySpots.map((s) => s.id);
+      const insertAt = position === undefined ? ordered.length : Math.min(position, ordered.length);
+      ordered.splice(insertAt, 0, spotId);
+
+      for (let i = 0; i < ordered.length; i++) {
+        await tx.update(tripSpots).set({ sortOrder: i }).where(eq(tripSpots.id, ordered[i]));
+      }
+
+      const [moved] = await tx
+        .update(tripSpots)
+        .set({
+          dayIndex,
+          ...(timeSlot !== undefined ? { timeSlot } : {}),
+        })
+        .where(eq(tripSpots.id, spotId))
+        .returning();
+      return moved;
+    });
+  }
+
+  async getTripShares(tripId: number): Promise<TripShare[]> {
+    return db.select().from(tripShares).where(eq(tripShares.tripId, tripId)).orderBy(desc(tripShares.createdAt));
+  }
+
+  async getTripShareByToken(token: string): Promise<TripShare | undefined> {
+    const [share] = await db.select().from(tripShares).where(eq(tripShares.token, token));
+    return share;
+  }
+
+  async createTripShare(share: InsertTripShare): Promise<TripShare> {
+    const [created] = await db.insert(tripShares).values(share).returning();
+    return created;
+  }
+
+  async deleteTripShare(tripId: number, shareId: number): Promise<void> {
+    await db.delete(tripShares).where(and(eq(tripShares.id, shareId), eq(tripShares.tripId, tripId)));
+  }
+
+  async cloneTrip(sourceTripId: number, userId: number): Promise<Trip | undefined> {
+    return db.transaction(async (tx) => {
+      const [source] = await tx.select().from(trips).where(eq(trips.id, sourceTripId));
+      if (!source) return undefined;
+
+      const [copy] = await tx
+        .insert(trips)
+        .values({
+          userId,
+          city: source.city,
+          cityLabel: source.cityLabel,
+          cityPlaceId: source.cityPlaceId,
+          hotelLocation: source.hotelLocation,
+          mode: "planning",
+          difficulty: source.difficulty,
+          dayCount: source.dayCount,
+          startDate: source.startDate,
+        })
+        .returning();
+
+      const spots = await tx
+        .select()
+        .from(tripSpots)
+        .where(eq(tripSpots.tripId, sourceTripId))
+        .orderBy(asc(tripSpots.dayIndex), asc(tripSpots.sortOrder));
+      if (spots.length > 0) {
+        await tx.insert(tripSpots).values(spots.map(({ id, tripId, ...spot }) => ({ ...spot, tripId: copy.id })));
+      }
+      return copy;
+    });
+  }
+
+  async createQuizAttempt(
+    attempt: InsertQuizAttempt,
+    answers: Omit<InsertQuizAnswer, "attemptId">[],
+  ): Promise<QuizAttemptWithAnswers> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(quizAttempts).values(attempt).returning();
+      const savedAnswers =
+        answers.length > 0
+          ? await tx
+              .insert(quizAnswers)
+              .values(answers.map((a) => ({ ...a, attemptId: created.id })))
+              .returning()
+          : [];
+      return { ...created, answers: savedAnswers.sort((a, b) => a.position - b.position) };
+    });
+  }
+
+  async getQuizAttempts(tripId: number): Promise<QuizAttemptWithAnswers[]> {
+    const attempts = await db
+      .select()
+      .from(quizAttempts)
+      .where(eq(quizAttempts.tripId, tripId))
+      .orderBy(desc(quizAttempts.createdAt));
+    if (attempts.length === 0) return [];
+
+    const answers = await db
+      .select()
+      .from(quizAnswers)
+      .where(inArray(quizAnswers.attemptId, attempts.map((a) => a.id)))
+      .orderBy(asc(quizAnswers.position));
+
+    return attempts.map((a) => ({ ...a, answers: answers.filter((ans) => ans.attemptId === a.id) }));
+  }
+
+  async getRecentAnswerStats(userId: number, limit: number): Promise<{ answered: number; correct: number }> {
+    const rows = await db
+      .select({ isCorrect: quizAnswers.isCorrect })
+      .from(quizAnswers)
+      .innerJoin(quizAttempts, eq(quizAnswers.attemptId, quizAttempts.id))
+      .where(and(eq(quizAttempts.userId, userId), isNotNull(quizAnswers.selectedIndex)))
+      .orderBy(desc(quizAttempts.createdAt), desc(quizAnswers.position))
+      .limit(limit);
+    return { answered: rows.length, correct: rows.filter((r) => r.isCorrect).length };
+  }
+
+  async getTriviaQuestions(cityPlaceId: string, difficulty: string): Promise<TriviaQuestion[]> {
+    return db
+      .select()
+      .from(triviaQuestions)
+      .where(and(eq(triviaQuestions.cityPlaceId, cityPlaceId), eq(triviaQuestions.difficulty, difficulty)))
+      .orderBy(asc(triviaQuestions.timesServed), asc(triviaQuestions.createdAt));
+  }
+
+  async getTriviaQuestionsByIds(ids: string[]): Promise<TriviaQuestion[]> {
+    if (ids.length === 0) return [];
+    return db.select().from(triviaQuestions).where(inArray(triviaQuestions.id, Array.from(new Set(ids))));
+  }
+
+  async saveTriviaQuestions(questions: InsertTriviaQuestion[]): Promise<void> {
+    if (questions.length === 0) return;
+    await db.insert(triviaQuestions).values(questions).onConflictDoNothing();
+  }
+
+  async recordTriviaServed(questionIds: string[]): Promise<void> {
+    if (questionIds.length === 0) return;
+    await db
+      .update(triviaQuestions)
+      .set({ timesServed: sql`${triviaQuestions.timesServed} + 1` })
+      .where(inArray(triviaQuestions.id, Array.from(new Set(questionIds))));
+  }
+
+  async recordTriviaAnswers(results: { questionId: string; isCorrect: boolean }[]): Promise<void> {
+    if (results.length === 0) return;
+    await db.transaction(async (tx) => {
+      for (const { questionId, isCorrect } of results) {
+        await tx
+          .update(triviaQuestions)
+          .set({
+            timesAnswered: sql`${triviaQuestions.timesAnswered} + 1`,
+            timesCorrect: sql`${triviaQuestions.timesCorrect} + ${isCorrect ? 1 : 0}`,
+          })
+          .where(eq(triviaQuestions.id, questionId));
+      }
+    });
+  }
+
+  async getSeenQuestionIds(ownerKey: string, cityPlaceId: string): Promise<string[]> {
+    const rows = await db
+      .select({ questionId: seenQuestions.questionId })
+      .from(seenQuestions)
+      .where(and(eq(seenQuestions.ownerKey, ownerKey), eq(seenQuestions.cityPlaceId, cityPlaceId)))
+      .orderBy(desc(seenQuestions.seenAt));
+    return rows.map((r) => r.questionId);
+  }
+
+  async markQuestionsSeen(ownerKey: string, cityPlaceId: string, questionIds: string[]): Promise<void> {
+    if (questionIds.length === 0) return;
+    const seenAt = new Date();
+    await db.transaction(async (tx) => {
+      await tx
+        .insert(seenQuestions)
+        .values(Array.from(new Set(questionIds)).map((questionId) => ({ ownerKey, cityPlaceId, questionId, seenAt })))
+        .onConflictDoUpdate({
+          target: [seenQuestions.ownerKey, seenQuestions.cityPlaceId, seenQuestions.questionId],
+          set: { seenAt, answeredAt: null },
+        });
+
+      const stale = await tx
+        .select({ questionId: seenQuestions.questionId })
+        .from(seenQuestions)
+        .where(and(eq(seenQuestions.ownerKey, ownerKey), eq(seenQuestions.cityPlaceId, cityPlaceId)))
+        .orderBy(desc(seenQuestions.seenAt))
+        .offset(SEEN_QUESTIONS_LIMIT);
+      if (stale.length > 0) {
+        await tx
+          .delete(seenQuestions)
+          .where(
+            and(
+              eq(seenQuestions.ownerKey, ownerKey),
+              eq(seenQuestions.cityPlaceId, cityPlaceId),
+              inArray(seenQuestions.questionId, stale.map((r) => r.questionId)),
+            ),
+          );
+      }
+    });
+  }
+
+  async clearSeenQuestions(ownerKey: string, cityPlaceId: string): Promise<void> {
+    await db
+      .delete(seenQuestions)
+      .where(and(eq(seenQuestions.ownerKey, ownerKey), eq(seenQuestions.cityPlaceId, cityPlaceId)));
   }
 
-  async deleteTripSpot(id: number): Promise<void> {
-    await db.delete(tripSpots).where(eq(tripSpots.id, id));
+  async claimSeenQuestionAnswers(ownerKeys: string[], questionIds: string[]): Promise<string[]> {
+    if (ownerKeys.length === 0 || questionIds.length === 0) return [];
+    const rows = await db
+      .update(seenQuestions)
+      .set({ answeredAt: new Date() })
+      .where(
+        and(
+          inArray(seenQuestions.ownerKey, ownerKeys),
+          inArray(seenQuestions.questionId, Array.from(new Set(questionIds))),
+          isNull(seenQuestions.answeredAt),
+        ),
+      )
+      .returning({ questionId: seenQuestions.questionId });
+    return Array.from(new Set(rows.map((r) => r.questionId)));
   }
 
-  async updateSpotOrder(id: number, sortOrder: number): Promise<void> {
-    await db.update(tripSpots).set({ sortOrder }).where(eq(tripSpots.id, id));
+  async recordAiUsage(usage: Omit<AiUsage, "requests">): Promise<void> {
+    await db
+      .insert(aiUsage)
+      .values({ ...usage, requests: 1 })
+      .onConflictDoUpdate({
+        target: [aiUsage.day, aiUsage.clientKey, aiUsage.task],
+        set: {
+          requests: sql`${aiUsage.requests} + 1`,
+          promptTokens: sql`${aiUsage.promptTokens} + ${usage.promptTokens}`,
+          completionTokens: sql`${aiUsage.completionTokens} + ${usage.completionTokens}`,
+        },
+      });
   }
+
+  async getAiUsage(day: string): Promise<AiUsage[]> {
+    return db.select().from(aiUsage).where(eq(aiUsage.day, day));
+  }
+}
+
+async function writeSpotOrder(
+  executor: typeof db | Tx,
+  tripId: number,
+  spotId: number,
+  sortOrder: number,
+  dayIndex?: number,
+) {
+  await executor
+    .update(tripSpots)
+    .set(dayIndex === undefined ? { sortOrder } : { sortOrder, dayIndex })
+    .where(and(eq(tripSpots.id, spotId), eq(tripSpots.tripId, tripId)));
+}
+
+// Bumps the trip's spots version inside a spot-changing transaction. Returns false,
+// without bumping, when the version has moved on from baseVersion. The row lock
+// holds concurrent changes back until this transaction commits.
+async function bumpSpotsVersion(tx: Tx, tripId: number, baseVersion?: number): Promise<boolean> {
+  const bumped = await tx
+    .update(trips)
+    .set({ spotsVersion: sql`${trips.spotsVersion} + 1` })
+    .where(
+      baseVersion === undefined
+        ? eq(trips.id, tripId)
+        : and(eq(trips.id, tripId), eq(trips.spotsVersion, baseVersion)),
+    )
+    .returning({ id: trips.id });
+  return bumped.length > 0;
 }
 
 export const storage = new DatabaseStorage();
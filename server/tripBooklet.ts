@@ -0,0 +1,296 @@
+import PDFDocument from "pdfkit";
+import { MAX_TRIP_DAYS, type Trip, type TripSpot, type QuizAttemptWithAnswers } from "@shared/schema";
+import {
+  estimateVisitMinutes,
+  formatHoursOnWeekday,
+  formatVisitDuration,
+  tripDayDate,
+} from "@shared/itineraryChecks";
+
+export const BOOKLET_FORMATS = ["html", "pdf"] as const;
+export type BookletFormat = (typeof BOOKLET_FORMATS)[number];
+
+interface BookletSpot {
+  number: number;
+  title: string;
+  category: string;
+  details: string[];
+  description: string;
+  funFact: string | null;
+  address: string | null;
+}
+
+interface BookletDay {
+  heading: string;
+  spots: BookletSpot[];
+}
+
+interface BookletQuestion {
+  question: string;
+  answer: string;
+  funFact: string | null;
+}
+
+export interface Booklet {
+  title: string;
+  subtitle: string;
+  days: BookletDay[];
+  questions: BookletQuestion[];
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric" });
+}
+
+function spotDetails(spot: TripSpot, date: Date | null): string[] {
+  const details = [
+    spot.timeSlot ? spot.timeSlot.charAt(0).toUpperCase() + spot.timeSlot.slice(1) : null,
+    `About ${formatVisitDuration(spot.visitMinutes ?? estimateVisitMinutes(spot.category))}`,
+  ];
+  const hours = date ? formatHoursOnWeekday(spot.openingHours, date.getDay()) : null;
+  if (hours) details.push(hours === "Closed" ? "Closed this day" : `Open ${hours}`);
+  return details.filter((d): d is string => !!d);
+}
+
+/**
+ * Lays out the trip for print: spots grouped by day in visit order and, when
+ * quiz attempts are passed, every distinct question answered on the trip.
+ */
+export function buildBooklet(trip: Trip, spots: TripSpot[], attempts: QuizAttemptWithAnswers[] = []): Booklet {
+  const lastSpotDay = spots.reduce((last, s) => Math.max(last, s.dayIndex), 0);
+  const dayCount = Math.min(Math.max(trip.dayCount, lastSpotDay + 1), MAX_TRIP_DAYS);
+  const days: BookletDay[] = [];
+  for (let day = 0; day < dayCount; day++) {
+    // Spots stored past the last day (before days were capped) go on it.
+    const daySpots = spots.filter((s) => Math.min(s.dayIndex, dayCount - 1) === day);
+    if (daySpots.length === 0) continue;
+    const date = tripDayDate(trip.startDate, day);
+    days.push({
+      heading: dayCount > 1 || date ? `Day ${day + 1}${date ? ` · ${formatDate(date)}` : ""}` : "Itinerary",
+      spots: daySpots.map((s, i) => ({
+        number: i + 1,
+        title: s.title,
+        category: s.category,
+        details: spotDetails(s, date),
+        description: s.description,
+        funFact: s.funFact,
+        address: s.address,
+      })),
+    });
+  }
+
+  const seen = new Set<string>();
+  const questions: BookletQuestion[] = [];
+  for (const attempt of attempts) {
+    for (const a of attempt.answers) {
+      const key = a.question.trim().toLowerCase();
+      if (seen.has(key)) continue;
+      seen.add(key);
+      questions.push({ question: a.question, answer: a.options[a.correctIndex] ?? "", funFact: a.funFact });
+    }
+  }
+
+  const city = trip.cityLabel || trip.city;
+  const start = tripDayDate(trip.startDate, 0);
+  const subtitle = [
+    start ? `From ${formatDate(start)}` : null,
+    `${trip.dayCount} day${trip.dayCount !== 1 ? "s" : ""}`,
+    `${spots.length} spot${spots.length !== 1 ? "s" : ""}`,
+    trip.hotelLocation ? `Staying at ${trip.hotelLocation}` : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  return { title: city, subtitle, days, questions };
+}
+
+/* -------------------- HTML -------------------- */
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+const BOOKLET_CSS = `
+  * { box-sizing: border-box; }
+  body { font-family: Georgia, "Times New Roman", serif; color: #1f2933; max-width: 720px; margin: 32px auto; padding: 0 24px; line-height: 1.45; }
+  header { border-bottom: 2px solid #1f2933; margin-bottom: 24px; padding-bottom: 12px; }
+  h1 { font-size: 30px; margin: 0 0 4px; }
+  h2 { font-size: 18px; margin: 28px 0 12px; text-transform: uppercase; letter-spacing: 0.06em; }
+  h3 { font-size: 16px; margin: 0; }
+  .subtitle { color: #52606d; font-size: 14px; margin: 0; }
+  .spot { display: flex; gap: 12px; padding: 12px 0; border-bottom: 1px solid #e4e7eb; break-inside: avoid; }
+  .number { flex: none; width: 28px; height: 28px; border-radius: 50%; background: #1f2933; color: #fff; font: bold 13px/28px sans-serif; text-align: center; }
+  .meta { color: #52606d; font-size: 12px; font-family: sans-serif; margin: 2px 0 6px; }
+  .address { font-size: 13px; color: #52606d; margin: 4px 0 0; }
+  .fact { font-size: 13px; background: #f5f7fa; border-left: 3px solid #9aa5b1; padding: 6px 10px; margin: 6px 0 0; }
+  p { margin: 0; }
+  ol.quiz { padding-left: 20px; }
+  ol.quiz li { margin-bottom: 10px; break-inside: avoid; }
+  .answer { font-size: 13px; margin-top: 2px; }
+  .quiz-section { break-before: page; }
+  footer { margin-top: 32px; color: #9aa5b1; font-size: 11px; font-family: sans-serif; }
+  @page { size: A4; margin: 16mm; }
+  @media print {
+    body { margin: 0; padding: 0; max-width: none; }
+    .fact { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  }
+`;
+
+export function renderBookletHtml(booklet: Booklet): string {
+  const days = booklet.days
+    .map(
+      (day) => `
+  <section>
+    <h2>${escapeHtml(day.heading)}</h2>
+${day.spots
+  .map(
+    (s) => `    <div class="spot">
+      <div class="number">${s.number}</div>
+      <div>
+        <h3>${escapeHtml(s.title)}</h3>
+        <p class="meta">${[s.category, ...s.details].map(escapeHtml).join(" · ")}</p>
+        <p>${escapeHtml(s.description)}</p>
+        ${s.funFact ? `<p class="fact"><strong>Fun fact:</strong> ${escapeHtml(s.funFact)}</p>` : ""}
+        ${s.address ? `<p class="address">${escapeHtml(s.address)}</p>` : ""}
+      </div>
+    </div>`,
+  )
+  .join("\n")}
+  </section>`,
+    )
+    .join("\n");
+
+  const quiz =
+    booklet.questions.length > 0
+      ? `
+  <section class="quiz-section">
+    <h2>Trivia from your quizzes</h2>
+    <ol class="quiz">
+${booklet.questions
+  .map(
+    (q) => `      <li>
+        <p>${escapeHtml(q.question)}</p>
+        <p class="answer"><strong>Answer:</strong> ${escapeHtml(q.answer)}</p>
+        ${q.funFact ? `<p class="fact">${escapeHtml(q.funFact)}</p>` : ""}
+      </li>`,
+  )
+  .join("\n")}
+    </ol>
+  </section>`
+      : "";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(booklet.title)} trip booklet</title>
+  <style>${BOOKLET_CSS}</style>
+</head>
+<body>
+  <header>
+    <h1>${escapeHtml(booklet.title)}</h1>
+    <p class="subtitle">${escapeHtml(booklet.subtitle)}</p>
+  </header>
+${days}
+${quiz}
+  <footer>Made with BrainTrip</footer>
+</body>
+</html>
+`;
+}
+
+/* -------------------- PDF -------------------- */
+
+const INK = "#1f2933";
+const MUTED = "#52606d";
+const RULE = "#e4e7eb";
+const TEXT_INDENT = 36;
+
+/**
+ * Renders the booklet with pdfkit's built-in fonts, so no browser is needed.
+ * Those fonts only cover Latin text.
+ */
+export function renderBookletPdf(booklet: Booklet): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: 50, info: { Title: `${booklet.title} trip booklet` } });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const left = doc.page.margins.left;
+    const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+    const textWidth = width - TEXT_INDENT;
+    const bottom = () => doc.page.height - doc.page.margins.bottom;
+
+    // Starts a new page when the block wouldn't fit on this one.
+    const keepTogether = (height: number) => {
+      if (doc.y + height > bottom()) doc.addPage();
+    };
+
+    doc.fillColor(INK).font("Helvetica-Bold").fontSize(26).text(booklet.title, left, doc.y, { width });
+    doc.fillColor(MUTED).font("Helvetica").fontSize(11).text(booklet.subtitle, { width });
+    doc.moveDown(0.5);
+    doc.moveTo(left, doc.y).lineTo(left + width, doc.y).lineWidth(1.5).strokeColor(INK).stroke();
+
+    for (const day of booklet.days) {
+      doc.moveDown(1.2);
+      keepTogether(80);
+      doc.fillColor(INK).font("Helvetica-Bold").fontSize(14).text(day.heading.toUpperCase(), left, doc.y, { width });
+      doc.moveDown(0.4);
+
+      for (const s of day.spots) {
+        const meta = [s.category, ...s.details].join(" · ");
+        const fact = s.funFact ? `Fun fact: ${s.funFact}` : null;
+        const height =
+          doc.font("Helvetica-Bold").fontSize(12).heightOfString(s.title, { width: textWidth }) +
+          doc.font("Helvetica").fontSize(9).heightOfString(meta, { width: textWidth }) +
+          doc.fontSize(10).heightOfString(s.description, { width: textWidth }) +
+          (fact ? doc.fontSize(9.5).heightOfString(fact, { width: textWidth }) + 6 : 0) +
+          (s.address ? doc.fontSize(9).heightOfString(s.address, { width: textWidth }) + 4 : 0) +
+          24;
+        keepTogether(height);
+
+        const top = doc.y + 6;
+        doc.circle(left + 11, top + 8, 11).fill(INK);
+        doc.fillColor("#ffffff").font("Helvetica-Bold").fontSize(10).text(String(s.number), left, top + 3.5, {
+          width: 22,
+          align: "center",
+        });
+
+        const x = left + TEXT_INDENT;
+        doc.fillColor(INK).font("Helvetica-Bold").fontSize(12).text(s.title, x, top, { width: textWidth });
+        doc.fillColor(MUTED).font("Helvetica").fontSize(9).text(meta, x, doc.y + 1, { width: textWidth });
+        doc.fillColor(INK).fontSize(10).text(s.description, x, doc.y + 4, { width: textWidth });
+        if (fact) doc.fillColor(MUTED).font("Helvetica-Oblique").fontSize(9.5).text(fact, x, doc.y + 4, { width: textWidth });
+        if (s.address) doc.fillColor(MUTED).font("Helvetica").fontSize(9).text(s.address, x, doc.y + 4, { width: textWidth });
+
+        doc.moveDown(0.6);
+        doc.moveTo(left, doc.y).lineTo(left + width, doc.y).lineWidth(0.5).strokeColor(RULE).stroke();
+      }
+    }
+
+    if (booklet.questions.length > 0) {
+      doc.addPage();
+      doc.fillColor(INK).font("Helvetica-Bold").fontSize(14).text("TRIVIA FROM YOUR QUIZZES", left, doc.y, { width });
+      doc.moveDown(0.6);
+      booklet.questions.forEach((q, i) => {
+        const question = `${i + 1}. ${q.question}`;
+        const answer = `Answer: ${q.answer}`;
+        keepTogether(
+          doc.font("Helvetica-Bold").fontSize(10.5).heightOfString(question, { width }) +
+            doc.font("Helvetica").fontSize(10).heightOfString(answer, { width }) +
+            (q.funFact ? doc.fontSize(9).heightOfString(q.funFact, { width }) : 0) +
+            16,
+        );
+        doc.fillColor(INK).font("Helvetica-Bold").fontSize(10.5).text(question, left, doc.y, { width });
+        doc.font("Helvetica").fontSize(10).text(answer, { width });
+        if (q.funFact) doc.fillColor(MUTED).font("Helvetica-Oblique").fontSize(9).text(q.funFact, { width });
+        doc.moveDown(0.8);
+      });
+    }
+
+    doc.end();
+  });
+}
@@ -0,0 +1,261 @@
+import type { Trip, TripSpot, TimeSlot } from "@shared/schema";
+import { TIME_SLOTS } from "@shared/schema";
+import { estimateVisitMinutes, slotStartMinutes, TRANSFER_MINUTES } from "@shared/itineraryChecks";
+
+export const EXPORT_FORMATS = ["ics", "gpx", "kml", "json"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface RenderedExport {
+  contentType: string;
+  filename: string;
+  body: string;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  ics: "text/calendar; charset=utf-8",
+  gpx: "application/gpx+xml; charset=utf-8",
+  kml: "application/vnd.google-earth.kml+xml; charset=utf-8",
+  json: "application/json; charset=utf-8",
+};
+
+function tripName(trip: Trip): string {
+  return `${trip.cityLabel || trip.city} trip`;
+}
+
+export function tripFileSlug(trip: Trip): string {
+  const slug = (trip.cityLabel || trip.city)
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug || "trip"}-${trip.id}`;
+}
+
+function spotNotes(spot: TripSpot): string[] {
+  return [spot.description, spot.funFact ? `Fun fact: ${spot.funFact}` : null, spot.address].filter(
+    (line): line is string => !!line,
+  );
+}
+
+/* -------------------- ICS -------------------- */
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+// Day 1 of the trip as a UTC midnight; trips without a start date begin on the day they were saved.
+function firstDay(trip: Trip): Date {
+  const m = trip.startDate?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (m) return new Date(Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])));
+  const created = new Date(trip.createdAt);
+  return new Date(Date.UTC(created.getUTCFullYear(), created.getUTCMonth(), created.getUTCDate()));
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+function icsDate(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+}
+
+// Floating local time: the spot's own time zone isn't known, so the calendar shows it as-is.
+function icsLocalDateTime(date: Date, minutes: number): string {
+  return `${icsDate(date)}T${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}00`;
+}
+
+function icsTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function icsText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// RFC 5545 caps content lines at 75 octets; continuation lines start with a space.
+function foldLine(line: string): string[] {
+  const lines: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    if (size + bytes > (lines.length === 0 ? 75 : 74)) {
+      lines.push(current);
+      current = "";
+      size = 0;
+    }
+    current += char;
+    size += bytes;
+  }
+  lines.push(current);
+  return lines.map((l, i) => (i === 0 ? l : ` ${l}`));
+}
+
+function toIcs(trip: Trip, spots: TripSpot[]): string {
+  const day1 = firstDay(trip);
+  const stamp = icsTimestamp(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//BrainTrip//Trip Export//EN",
+    "CALSCALE:GREGORIAN",
+    `X-WR-CALNAME:${icsText(tripName(trip))}`,
+  ];
+
+  // Timed spots in a slot follow each other from the slot's start, with a transfer in between.
+  const slotCursor = new Map<string, number>();
+  for (const spot of spots) {
+    const date = addDays(day1, spot.dayIndex);
+    const slot = TIME_SLOTS.includes(spot.timeSlot as TimeSlot) ? (spot.timeSlot as TimeSlot) : null;
+    lines.push("BEGIN:VEVENT", `UID:trip-${trip.id}-spot-${spot.id}@braintrip`, `DTSTAMP:${stamp}`);
+    if (slot) {
+      const key = `${spot.dayIndex}:${slot}`;
+      const start = slotCursor.get(key) ?? slotStartMinutes(slot);
+      const end = Math.min(start + (spot.visitMinutes ?? estimateVisitMinutes(spot.category)), 24 * 60 - 1);
+      slotCursor.set(key, end + TRANSFER_MINUTES);
+      lines.push(`DTSTART:${icsLocalDateTime(date, start)}`, `DTEND:${icsLocalDateTime(date, end)}`);
+    } else {
+      lines.push(`DTSTART;VALUE=DATE:${icsDate(date)}`, `DTEND;VALUE=DATE:${icsDate(addDays(date, 1))}`);
+    }
+    lines.push(`SUMMARY:${icsText(spot.title)}`);
+    lines.push(`DESCRIPTION:${icsText(spotNotes(spot).join("\n\n"))}`);
+    if (spot.address) lines.push(`LOCATION:${icsText(spot.address)}`);
+    if (spot.lat != null && spot.lng != null) lines.push(`GEO:${spot.lat};${spot.lng}`);
+    lines.push(`CATEGORIES:${icsText(spot.category)}`, "END:VEVENT");
+  }
+  lines.push("END:VCALENDAR");
+  return lines.flatMap(foldLine).join("\r\n") + "\r\n";
+}
+
+/* -------------------- GPX / KML -------------------- */
+
+function xmlText(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+type LocatedSpot = TripSpot & { lat: number; lng: number };
+
+function located(spots: TripSpot[]): LocatedSpot[] {
+  return spots.filter((s): s is LocatedSpot => s.lat != null && s.lng != null);
+}
+
+function byDay(spots: LocatedSpot[]): [number, LocatedSpot[]][] {
+  const days = new Map<number, LocatedSpot[]>();
+  for (const s of spots) days.set(s.dayIndex, [...(days.get(s.dayIndex) || []), s]);
+  return Array.from(days.entries()).sort((a, b) => a[0] - b[0]);
+}
+
+function toGpx(trip: Trip, spots: TripSpot[]): string {
+  const points = located(spots);
+  const wpts = points.map((s) =>
+    [
+      `  <wpt lat="${s.lat}" lon="${s.lng}">`,
+      `    <name>${xmlText(s.title)}</name>`,
+      s.funFact ? `    <cmt>${xmlText(s.funFact)}</cmt>` : null,
+      `    <desc>${xmlText(spotNotes(s).join("\n\n"))}</desc>`,
+      `    <type>${xmlText(s.category)}</type>`,
+      `  </wpt>`,
+    ]
+      .filter(Boolean)
+      .join("\n"),
+  );
+  // One route per day, in visiting order.
+  const routes = byDay(points).map(([day, daySpots]) =>
+    [
+      `  <rte>`,
+      `    <name>Day ${day + 1}</name>`,
+      ...daySpots.map((s) => `    <rtept lat="${s.lat}" lon="${s.lng}"><name>${xmlText(s.title)}</name></rtept>`),
+      `  </rte>`,
+    ].join("\n"),
+  );
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gpx version="1.1" creator="BrainTrip" xmlns="http://www.topografix.com/GPX/1/1">`,
+    `  <metadata><name>${xmlText(tripName(trip))}</name></metadata>`,
+    ...wpts,
+    ...routes,
+    `</gpx>`,
+    "",
+  ].join("\n");
+}
+
+function toKml(trip: Trip, spots: TripSpot[]): string {
+  const folders = byDay(located(spots)).map(([day, daySpots]) =>
+    [
+      `    <Folder>`,
+      `      <name>Day ${day + 1}</name>`,
+      ...daySpots.map((s, i) =>
+        [
+          `      <Placemark>`,
+          `        <name>${i + 1}. ${xmlText(s.title)}</name>`,
+          s.address ? `        <address>${xmlText(s.address)}</address>` : null,
+          `        <description>${xmlText(spotNotes(s).join("\n\n"))}</description>`,
+          `        <ExtendedData>`,
+          `          <Data name="category"><value>${xmlText(s.category)}</value></Data>`,
+          s.funFact ? `          <Data name="funFact"><value>${xmlText(s.funFact)}</value></Data>` : null,
+          `        </ExtendedData>`,
+          `        <Point><coordinates>${s.lng},${s.lat}</coordinates></Point>`,
+          `      </Placemark>`,
+        ]
+          .filter(Boolean)
+          .join("\n"),
+      ),
+      daySpots.length > 1
+        ? [
+            `      <Placemark>`,
+            `        <name>Day ${day + 1} route</name>`,
+            `        <LineString><coordinates>${daySpots.map((s) => `${s.lng},${s.lat}`).join(" ")}</coordinates></LineString>`,
+            `      </Placemark>`,
+          ].join("\n")
+        : null,
+      `    </Folder>`,
+    ]
+      .filter(Boolean)
+      .join("\n"),
+  );
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<kml xmlns="http://www.opengis.net/kml/2.2">`,
+    `  <Document>`,
+    `    <name>${xmlText(tripName(trip))}</name>`,
+    ...folders,
+    `  </Document>`,
+    `</kml>`,
+    "",
+  ].join("\n");
+}
+
+/* -------------------- JSON -------------------- */
+
+function toJson(trip: Trip, spots: TripSpot[]): string {
+  const { userId, ...tripFields } = trip;
+  const exported = {
+    ...tripFields,
+    spots: spots.map(({ tripId, ...spot }) => spot),
+  };
+  return JSON.stringify(exported, null, 2) + "\n";
+}
+
+const RENDERERS: Record<ExportFormat, (trip: Trip, spots: TripSpot[]) => string> = {
+  ics: toIcs,
+  gpx: toGpx,
+  kml: toKml,
+  json: toJson,
+};
+
+/**
+ * Renders a trip and its spots (already in day/visit order). GPX and KML only
+ * carry spots with coordinates.
+ */
+export function renderTripExport(trip: Trip, spots: TripSpot[], format: ExportFormat): RenderedExport {
+  return {
+    contentType: CONTENT_TYPES[format],
+    filename: `${tripFileSlug(trip)}.${format}`,
+    body: RENDERERS[format](trip, spots),
+  };
+}
@@ -0,0 +1,189 @@
+import type { IncomingMessage, Server } from "http";
+import type { RequestHandler, Request, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { storage } from "./storage";
+import { isAllowedOrigin } from "./origins";
+import {
+  tripSyncClientMessageSchema,
+  type PublicUser,
+  type TripSpot,
+  type TripSpotsChange,
+  type TripSyncServerMessage,
+  type TripViewer,
+} from "@shared/schema";
+
+export const TRIP_SYNC_PATH = "/ws/trips";
+
+// Dead connections (closed laptops, dropped mobile networks) are pinged out.
+const HEARTBEAT_MS = 30_000;
+
+interface SyncClient {
+  socket: WebSocket;
+  user: PublicUser;
+  tripIds: Set<number>;
+  alive: boolean;
+}
+
+const clients = new Set<SyncClient>();
+// tripId -> clients currently viewing it
+const rooms = new Map<number, Set<SyncClient>>();
+
+function send(client: SyncClient, message: TripSyncServerMessage) {
+  if (client.socket.readyState === WebSocket.OPEN) {
+    client.socket.send(JSON.stringify(message));
+  }
+}
+
+function broadcast(tripId: number, message: TripSyncServerMessage) {
+  for (const client of Array.from(rooms.get(tripId) || [])) send(client, message);
+}
+
+// One entry per person, however many tabs they have open.
+function viewersOf(tripId: number): TripViewer[] {
+  const viewers = new Map<number, TripViewer>();
+  for (const client of Array.from(rooms.get(tripId) || [])) {
+    viewers.set(client.user.id, { id: client.user.id, username: client.user.username });
+  }
+  return Array.from(viewers.values());
+}
+
+function broadcastPresence(tripId: number) {
+  broadcast(tripId, { type: "presence", tripId, viewers: viewersOf(tripId) });
+}
+
+function leave(client: SyncClient, tripId: number) {
+  const room = rooms.get(tripId);
+  if (!room?.delete(client)) return;
+  client.tripIds.delete(tripId);
+  if (room.size === 0) rooms.delete(tripId);
+  else broadcastPresence(tripId);
+}
+
+async function join(client: SyncClient, tripId: number) {
+  const access = await storage.getTripAccess(tripId, client.user.id);
+  if (!access) {
+    send(client, { type: "error", tripId, error: "Trip not found" });
+    return;
+  }
+  if (client.socket.readyState !== WebSocket.OPEN) return;
+  const room = rooms.get(tripId) || new Set<SyncClient>();
+  rooms.set(tripId, room);
+  room.add(client);
+  client.tripIds.add(tripId);
+  broadcastPresence(tripId);
+}
+
+// Runs the app's session middleware on the upgrade request and returns the signed-in user.
+function authenticate(req: IncomingMessage, sessionMiddleware: RequestHandler): Promise<PublicUser | null> {
+  return new Promise((resolve) => {
+    sessionMiddleware(req as Request, {} as Response, async () => {
+      try {
+        const userId = (req as Request).session?.passport?.user;
+        const user = typeof userId === "number" ? await storage.getUser(userId) : undefined;
+        resolve(user ? { id: user.id, username: user.username } : null);
+      } catch (err) {
+        console.error("Trip sync auth error:", err);
+        resolve(null);
+      }
+    });
+  });
+}
+
+/**
+ * Serves live trip updates on TRIP_SYNC_PATH. Clients send { type: "join", tripId }
+ * for the trip on screen and get presence lists plus every spot change made
+ * through the REST routes (see broadcastSpotsChange).
+ */
+export function attachTripSync(httpServer: Server, sessionMiddleware: RequestHandler) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on("upgrade", async (req, socket, head) => {
+    // Other upgrades (Vite HMR) are handled by their own listeners.
+    if (new URL(req.url || "/", "http://localhost").pathname !== TRIP_SYNC_PATH) return;
+
+    // Browsers send the session cookie with any site's upgrade request, and
+    // WebSockets aren't covered by CORS.
+    if (!isAllowedOrigin(req)) {
+      socket.write("HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    const user = await authenticate(req, sessionMiddleware);
+    if (!user) {
+      socket.write("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws, user));
+  });
+
+  wss.on("connection", (socket: WebSocket, user: PublicUser) => {
+    const client: SyncClient = { socket, user, tripIds: new Set(), alive: true };
+    clients.add(client);
+
+    socket.on("pong", () => {
+      client.alive = true;
+    });
+
+    socket.on("message", (data) => {
+      let parsed;
+      try {
+        parsed = tripSyncClientMessageSchema.safeParse(JSON.parse(data.toString()));
+      } catch {
+        return;
+      }
+      if (!parsed.success) return;
+
+      const message = parsed.data;
+      if (message.type === "join") {
+        join(client, message.tripId).catch((err) => console.error("Trip sync join error:", err));
+      } else {
+        leave(client, message.tripId);
+      }
+    });
+
+    socket.on("close", () => {
+      clients.delete(client);
+      for (const tripId of Array.from(client.tripIds)) leave(client, tripId);
+    });
+  });
+
+  const heartbeat = setInterval(() => {
+    for (const client of Array.from(clients)) {
+      if (!client.alive) {
+        client.socket.terminate();
+        continue;
+      }
+      client.alive = false;
+      client.socket.ping();
+    }
+  }, HEARTBEAT_MS);
+  wss.on("close", () => clearInterval(heartbeat));
+}
+
+/** Tells everyone viewing the trip that its spots changed, with the new list. */
+export function broadcastSpotsChange(
+  tripId: number,
+  change: TripSpotsChange,
+  by: PublicUser,
+  snapshot: { version: number; spots: TripSpot[] },
+) {
+  broadcast(tripId, {
+    type: "spots",
+    tripId,
+    change,
+    version: snapshot.version,
+    by: { id: by.id, username: by.username },
+    spots: snapshot.spots,
+  });
+}
+
+/** Drops a removed member from the trip's live channel. */
+export function removeTripViewer(tripId: number, userId: number) {
+  for (const client of Array.from(rooms.get(tripId) || [])) {
+    if (client.user.id !== userId) continue;
+    send(client, { type: "error", tripId, error: "You no longer have access to this trip" });
+    leave(client, tripId);
+  }
+}
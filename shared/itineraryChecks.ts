@@ -0,0 +1,172 @@
+import type { OpeningHours, TimeSlot, TravelPace } from "./schema";
+
+// Rough time on site per place category, used when nothing better is known.
+const VISIT_MINUTES_BY_CATEGORY: Record<string, number> = {
+  Culture: 120,
+  Landmark: 60,
+  Nature: 75,
+  Food: 75,
+  Shopping: 60,
+  Entertainment: 120,
+};
+export const DEFAULT_VISIT_MINUTES = 60;
+
+// Walking or transit between consecutive stops.
+export const TRANSFER_MINUTES = 20;
+
+// Sightseeing hours available per day, by the traveler's preferred pace.
+const DAY_CAPACITY_MINUTES: Record<TravelPace, number> = {
+  relaxed: 6 * 60,
+  balanced: 8 * 60,
+  packed: 10 * 60,
+};
+
+const SLOT_WINDOWS: Record<TimeSlot, { start: number; end: number }> = {
+  morning: { start: 9 * 60, end: 12 * 60 },
+  afternoon: { start: 12 * 60, end: 17 * 60 },
+  evening: { start: 17 * 60, end: 21 * 60 },
+};
+
+/** When a time slot starts, in minutes from midnight. */
+export function slotStartMinutes(slot: TimeSlot): number {
+  return SLOT_WINDOWS[slot].start;
+}
+
+export function estimateVisitMinutes(category: string): number {
+  return VISIT_MINUTES_BY_CATEGORY[category] ?? DEFAULT_VISIT_MINUTES;
+}
+
+export function dayCapacityMinutes(pace?: TravelPace | null): number {
+  return DAY_CAPACITY_MINUTES[pace || "balanced"];
+}
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+}
+
+// Open intervals on a weekday, in minutes from midnight. A period that closes
+// "earlier" than it opens runs past midnight and spills into the next day.
+function openIntervals(hours: OpeningHours, weekday: number): { start: number; end: number }[] {
+  const intervals: { start: number; end: number }[] = [];
+  for (const p of hours.periods) {
+    const open = toMinutes(p.open);
+    const close = toMinutes(p.close);
+    const overnight = close <= open;
+    if (p.day === weekday) intervals.push({ start: open, end: overnight ? 24 * 60 : close });
+    if (overnight && (p.day + 1) % 7 === weekday) intervals.push({ start: 0, end: close });
+  }
+  return intervals;
+}
+
+/**
+ * Whether the place opens at all that day (a late-night spill from the day
+ * before doesn't count); null when it has no hours on record.
+ */
+export function isOpenOnWeekday(hours: OpeningHours | null | undefined, weekday: number): boolean | null {
+  if (!hours || hours.periods.length === 0) return null;
+  return hours.periods.some((p) => p.day === weekday);
+}
+
+/** Whether any opening interval overlaps the time slot; null without hours. */
+export function isOpenDuringSlot(
+  hours: OpeningHours | null | undefined,
+  weekday: number,
+  slot: TimeSlot,
+): boolean | null {
+  if (!hours || hours.periods.length === 0) return null;
+  const window = SLOT_WINDOWS[slot];
+  return openIntervals(hours, weekday).some((i) => i.start < window.end && i.end > window.start);
+}
+
+/** e.g. "09:30–18:00" or "Closed"; null without hours. */
+export function formatHoursOnWeekday(hours: OpeningHours | null | undefined, weekday: number): string | null {
+  if (!hours || hours.periods.length === 0) return null;
+  const ranges = hours.periods.filter((p) => p.day === weekday).map((p) => `${p.open}–${p.close}`);
+  return ranges.length > 0 ? ranges.join(", ") : "Closed";
+}
+
+function parseStartDate(startDate: string | null | undefined): Date | null {
+  const m = startDate?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return m ? new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3])) : null;
+}
+
+/** Calendar date of a trip day, or null when the trip has no start date. */
+export function tripDayDate(startDate: string | null | undefined, dayIndex: number): Date | null {
+  const start = parseStartDate(startDate);
+  if (!start) return null;
+  return new Date(start.getFullYear(), start.getMonth(), start.getDate() + dayIndex);
+}
+
+export function formatVisitDuration(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  if (h === 0) return `${m}m`;
+  return m === 0 ? `${h}h` : `${h}h ${m}m`;
+}
+
+export interface CheckableSpot {
+  id: string | number;
+  title: string;
+  category: string;
+  timeSlot?: string | null;
+  openingHours?: OpeningHours | null;
+  visitMinutes?: number | null;
+}
+
+export type DayIssue =
+  | { kind: "closed"; spotId: string | number; title: string }
+  | { kind: "closed-slot"; spotId: string | number; title: string; slot: TimeSlot }
+  | { kind: "overpacked"; plannedMinutes: number; capacityMinutes: number };
+
+/**
+ * Visit time plus travel between stops: the estimated travel time when known,
+ * otherwise a flat transfer between each pair of stops.
+ */
+export function plannedDayMinutes(spots: CheckableSpot[], travelMinutes?: number | null): number {
+  const visits = spots.reduce((sum, s) => sum + (s.visitMinutes ?? estimateVisitMinutes(s.category)), 0);
+  return visits + (travelMinutes ?? Math.max(0, spots.length - 1) * TRANSFER_MINUTES);
+}
+
+/**
+ * Flags spots that are closed on the day's weekday (or during their time slot)
+ * and days whose planned time exceeds the capacity. Opening checks need a
+ * date; spots without hours on record are never flagged.
+ */
+export function checkItineraryDay(
+  spots: CheckableSpot[],
+  date: Date | null,
+  capacityMinutes: number = dayCapacityMinutes(),
+  travelMinutes?: number | null,
+): DayIssue[] {
+  const issues: DayIssue[] = [];
+  if (date) {
+    const weekday = date.getDay();
+    for (const s of spots) {
+      if (isOpenOnWeekday(s.openingHours, weekday) === false) {
+        issues.push({ kind: "closed", spotId: s.id, title: s.title });
+        continue;
+      }
+      const slot = s.timeSlot as TimeSlot | null | undefined;
+      if (slot && slot in SLOT_WINDOWS && isOpenDuringSlot(s.openingHours, weekday, slot) === false) {
+        issues.push({ kind: "closed-slot", spotId: s.id, title: s.title, slot });
+      }
+    }
+  }
+  const planned = plannedDayMinutes(spots, travelMinutes);
+  if (planned > capacityMinutes) {
+    issues.push({ kind: "overpacked", plannedMinutes: planned, capacityMinutes });
+  }
+  return issues;
+}
+
+export function describeDayIssue(issue: DayIssue): string {
+  switch (issue.kind) {
+    case "closed":
+      return `${issue.title} is closed that day`;
+    case "closed-slot":
+      return `${issue.title} isn't open in the ${issue.slot}`;
+    case "overpacked":
+      return `About ${formatVisitDuration(issue.plannedMinutes)} planned, more than the ${formatVisitDuration(issue.capacityMinutes)} you have`;
+  }
+}
@@ -1,10 +1,45 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, serial, integer, timestamp, jsonb, doublePrecision } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, serial, integer, timestamp, jsonb, json, doublePrecision, index, uniqueIndex, primaryKey, boolean } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  passwordHash: text("password_hash").notNull(),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+// Backing table for connect-pg-simple; declared here so `db:push` creates it.
+export const sessions = pgTable(
+  "sessions",
+  {
+    sid: varchar("sid").primaryKey(),
+    sess: json("sess").notNull(),
+    expire: timestamp("expire", { precision: 6 }).notNull(),
+  },
+  (table) => [index("IDX_sessions_expire").on(table.expire)],
+);
+
+// Shared key/value cache for external API and AI results (see server/cache.ts).
+export const cacheEntries = pgTable(
+  "cache_entries",
+  {
+    namespace: text("namespace").notNull(),
+    key: text("key").notNull(),
+    value: jsonb("value").notNull(),
+    expiresAt: timestamp("expires_at").notNull(),
+    createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.namespace, table.key] }),
+    index("IDX_cache_entries_expires_at").on(table.expiresAt),
+  ],
+);
+
 export const trips = pgTable("trips", {
   id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
   city: text("city").notNull(),
   cityLabel: text("city_label"),
   cityPlaceId: text("city_place_id"),
@@ -13,6 +48,12 @@ export const trips = pgTable("trips", {
   difficulty: text("difficulty").notNull().default("standard"),
   score: integer("score"),
   totalQuestions: integer("total_questions"),
+  dayCount: integer("day_count").notNull().default(1),
+  // ISO date (YYYY-MM-DD) of day 1; lets the itinerary check opening days.
+  startDate: text("start_date"),
+  // Bumped on every spot change. Reorders send back the version they started
+  // from, so a reorder made on a stale list is refused instead of applied.
+  spotsVersion: integer("spots_version").notNull().default(0),
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
 
@@ -28,7 +69,193 @@ export const tripSpots = pgTable("trip_spots", {
   placeId: text("place_id"),
   lat: doublePrecision("lat"),
   lng: doublePrecision("lng"),
+  dayIndex: integer("day_index").notNull().default(0),
+  timeSlot: text("time_slot"),
   sortOrder: integer("sort_order").notNull().default(0),
+  openingHours: jsonb("opening_hours").$type<OpeningHours>(),
+  visitMinutes: integer("visit_minutes"),
+});
+
+// Read-only links to a trip. Deleting the row revokes the link.
+export const tripShares = pgTable(
+  "trip_shares",
+  {
+    id: serial("id").primaryKey(),
+    tripId: integer("trip_id").notNull().references(() => trips.id, { onDelete: "cascade" }),
+    token: text("token").notNull().unique(),
+    expiresAt: timestamp("expires_at"),
+    createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => [index("IDX_trip_shares_trip").on(table.tripId)],
+);
+
+// People the owner invited to a trip. The owner is trips.user_id and has no row here.
+export const tripMembers = pgTable(
+  "trip_members",
+  {
+    id: serial("id").primaryKey(),
+    tripId: integer("trip_id").notNull().references(() => trips.id, { onDelete: "cascade" }),
+    userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    role: text("role").$type<TripMemberRole>().notNull().default("editor"),
+    createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => [
+    uniqueIndex("IDX_trip_members_trip_user").on(table.tripId, table.userId),
+    index("IDX_trip_members_user").on(table.userId),
+  ],
+);
+
+export const quizAttempts = pgTable("quiz_attempts", {
+  id: serial("id").primaryKey(),
+  tripId: integer("trip_id").notNull().references(() => trips.id, { onDelete: "cascade" }),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+  cityPlaceId: text("city_place_id"),
+  cityLabel: text("city_label"),
+  difficulty: text("difficulty").notNull().default("standard"),
+  score: integer("score").notNull(),
+  totalQuestions: integer("total_questions").notNull(),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+export const quizAnswers = pgTable("quiz_answers", {
+  id: serial("id").primaryKey(),
+  attemptId: integer("attempt_id").notNull().references(() => quizAttempts.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  questionId: text("question_id"),
+  question: text("question").notNull(),
+  options: jsonb("options").$type<string[]>().notNull(),
+  correctIndex: integer("correct_index").notNull(),
+  selectedIndex: integer("selected_index"),
+  isCorrect: boolean("is_correct").notNull(),
+  funFact: text("fun_fact"),
+});
+
+// Every validated generated trivia question, so /api/quiz/generate can reuse them
+// before calling the model. id is generateQuestionId(cityPlaceId, difficulty, question).
+export const triviaQuestions = pgTable(
+  "trivia_questions",
+  {
+    id: text("id").primaryKey(),
+    cityPlaceId: text("city_place_id").notNull(),
+    difficulty: text("difficulty").notNull(),
+    question: text("question").notNull(),
+    options: jsonb("options").$type<string[]>().notNull(),
+    correctIndex: integer("correct_index").notNull(),
+    funFact: text("fun_fact"),
+    timesServed: integer("times_served").notNull().default(0),
+    timesAnswered: integer("times_answered").notNull().default(0),
+    timesCorrect: integer("times_correct").notNull().default(0),
+    createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => [index("IDX_trivia_questions_city").on(table.cityPlaceId, table.difficulty)],
+);
+
+// Trivia questions already served to a user (or anonymous device) per city, so
+// /api/quiz/generate can avoid repeats across devices and spellings of a city.
+export const seenQuestions = pgTable(
+  "seen_questions",
+  {
+    ownerKey: text("owner_key").notNull(),
+    cityPlaceId: text("city_place_id").notNull(),
+    questionId: text("question_id").notNull(),
+    seenAt: timestamp("seen_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+    // Set when a quiz attempt's answer to this serving went into the bank's
+    // answer stats; serving the question again clears it.
+    answeredAt: timestamp("answered_at"),
+  },
+  (table) => [
+    primaryKey({ columns: [table.ownerKey, table.cityPlaceId, table.questionId] }),
+  ],
+);
+
+// Saved per user and read by the quiz and suggestion prompt builders.
+export const travelerProfiles = pgTable("traveler_profiles", {
+  userId: integer("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  interests: jsonb("interests").$type<TravelerInterest[]>().notNull().default([]),
+  dietary: jsonb("dietary").$type<DietaryNeed[]>().notNull().default([]),
+  mobility: jsonb("mobility").$type<MobilityNeed[]>().notNull().default([]),
+  budget: text("budget").$type<BudgetLevel>(),
+  pace: text("pace").$type<TravelPace>(),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+// The trip being built when the app was last used (quiz progress, suggestions,
+// itinerary with undo history), so it can be resumed after a reload or on
+// another device. One per user, replaced on every autosave.
+export const sessionDrafts = pgTable("session_drafts", {
+  userId: integer("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  draft: jsonb("draft").$type<SessionDraft>().notNull(),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+// Tokens spent on AI calls per UTC day, client ("user:<id>" / "ip:<address>")
+// and task; read back by the daily budgets in server/aiUsage.ts.
+export const aiUsage = pgTable(
+  "ai_usage",
+  {
+    day: text("day").notNull(),
+    clientKey: text("client_key").notNull(),
+    task: text("task").notNull(),
+    requests: integer("requests").notNull().default(0),
+    promptTokens: integer("prompt_tokens").notNull().default(0),
+    completionTokens: integer("completion_tokens").notNull().default(0),
+  },
+  (table) => [primaryKey({ columns: [table.day, table.clientKey, table.task] })],
+);
+
+// "adaptive" serves banked questions whose measured accuracy matches the player.
+export const DIFFICULTIES = ["standard", "challenge", "adaptive"] as const;
+export const difficultySchema = z.enum(DIFFICULTIES);
+export type Difficulty = z.infer<typeof difficultySchema>;
+
+// Weekly opening hours as reported by the places provider. day is 0 = Sunday;
+// times are "HH:MM" local time, and a close earlier than open runs past midnight.
+export const openingPeriodSchema = z.object({
+  day: z.number().int().min(0).max(6),
+  open: z.string().regex(/^\d{2}:\d{2}$/),
+  close: z.string().regex(/^\d{2}:\d{2}$/),
+});
+export const openingHoursSchema = z.object({
+  periods: z.array(openingPeriodSchema),
+  /** One human-readable line per day, e.g. "Monday: 9:00 AM – 5:00 PM". */
+  weekdayText: z.array(z.string()),
+});
+export type OpeningPeriod = z.infer<typeof openingPeriodSchema>;
+export type OpeningHours = z.infer<typeof openingHoursSchema>;
+
+export const TIME_SLOTS = ["morning", "afternoon", "evening"] as const;
+export const timeSlotSchema = z.enum(TIME_SLOTS);
+export type TimeSlot = z.infer<typeof timeSlotSchema>;
+
+export const TRAVELER_INTERESTS = [
+  "History",
+  "Art",
+  "Architecture",
+  "Food",
+  "Nature",
+  "Nightlife",
+  "Shopping",
+  "Music",
+  "Sports",
+  "Local culture",
+] as const;
+export const DIETARY_NEEDS = ["Vegetarian", "Vegan", "Gluten-free", "Halal", "Kosher", "Dairy-free", "Nut allergy"] as const;
+export const MOBILITY_NEEDS = ["Step-free access", "Limited walking", "Stroller friendly"] as const;
+export const BUDGET_LEVELS = ["budget", "moderate", "luxury"] as const;
+export const TRAVEL_PACES = ["relaxed", "balanced", "packed"] as const;
+
+export type TravelerInterest = (typeof TRAVELER_INTERESTS)[number];
+export type DietaryNeed = (typeof DIETARY_NEEDS)[number];
+export type MobilityNeed = (typeof MOBILITY_NEEDS)[number];
+export type BudgetLevel = (typeof BUDGET_LEVELS)[number];
+export type TravelPace = (typeof TRAVEL_PACES)[number];
+
+export const travelerProfileSchema = z.object({
+  interests: z.array(z.enum(TRAVELER_INTERESTS)).default([]),
+  dietary: z.array(z.enum(DIETARY_NEEDS)).default([]),
+  mobility: z.array(z.enum(MOBILITY_NEEDS)).default([]),
+  budget: z.enum(BUDGET_LEVELS).nullable().default(null),
+  pace: z.enum(TRAVEL_PACES).nullable().default(null),
 });
 
 export const insertTripSchema = createInsertSchema(trips).omit({
@@ -40,18 +267,174 @@ export const insertTripSpotSchema = createInsertSchema(tripSpots).omit({
   id: true,
 });
 
+export const createTripShareSchema = z.object({
+  expiresInDays: z.number().int().min(1).max(365).nullable().default(null),
+});
+
+// Editors change spots and trip settings; viewers only read. Only the owner
+// manages members, share links and deletes the trip.
+export const TRIP_MEMBER_ROLES = ["editor", "viewer"] as const;
+export const tripMemberRoleSchema = z.enum(TRIP_MEMBER_ROLES);
+export type TripMemberRole = z.infer<typeof tripMemberRoleSchema>;
+export type TripRole = "owner" | TripMemberRole;
+
+export const addTripMemberSchema = z.object({
+  username: z.string().trim().min(1),
+  role: tripMemberRoleSchema.default("editor"),
+});
+
+export const authCredentialsSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(40),
+  password: z.string().min(8, "Password must be at least 8 characters").max(200),
+});
+
+export type User = typeof users.$inferSelect;
+export type InsertUser = typeof users.$inferInsert;
+export type PublicUser = Pick<User, "id" | "username">;
+export type AuthCredentials = z.infer<typeof authCredentialsSchema>;
 export type Trip = typeof trips.$inferSelect;
 export type InsertTrip = z.infer<typeof insertTripSchema>;
+// What PATCH /api/trips/:id changes.
+export type UpdateTrip = Partial<Pick<Trip, "score" | "totalQuestions" | "hotelLocation" | "dayCount" | "startDate">>;
 export type TripSpot = typeof tripSpots.$inferSelect;
 export type InsertTripSpot = z.infer<typeof insertTripSpotSchema>;
+export type TripShare = typeof tripShares.$inferSelect;
+export type InsertTripShare = typeof tripShares.$inferInsert;
+export type CreateTripShare = z.infer<typeof createTripShareSchema>;
+export type TripMember = typeof tripMembers.$inferSelect;
+export type TripMemberWithUser = TripMember & { username: string };
+export type AddTripMember = z.infer<typeof addTripMemberSchema>;
+// Saved trips list entry: the caller's own trips and the ones shared with them.
+export type TripWithRole = Trip & { role: TripRole };
+// What GET /api/shared/:token returns: the trip without its owner.
+export type SharedTrip = Omit<Trip, "userId"> & { spots: TripSpot[]; shareExpiresAt: Date | null };
+
+// Longest trip a saved trip can be; spots sit on days 0..MAX_TRIP_DAYS - 1.
+export const MAX_TRIP_DAYS = 14;
+// Most spots a saved trip can hold across all its days.
+export const MAX_TRIP_SPOTS = 200;
+
+// baseVersion is the trips.spotsVersion the client last saw; omit it to skip the check.
+export const reorderDaySpotsSchema = z.object({
+  dayIndex: z.number().int().min(0).max(MAX_TRIP_DAYS - 1),
+  spotIds: z.array(z.number().int()),
+  baseVersion: z.number().int().optional(),
+});
+
+export const moveTripSpotSchema = z.object({
+  dayIndex: z.number().int().min(0).max(MAX_TRIP_DAYS - 1),
+  position: z.number().int().min(0).optional(),
+  timeSlot: timeSlotSchema.nullable().optional(),
+  baseVersion: z.number().int().optional(),
+});
+
+// Route planning geocodes spots without coordinates one at a time, so a
+// request only takes about a day's worth of spots.
+export const MAX_ROUTE_SPOTS = 50;
+
+export const routeSpotInputSchema = z.object({
+  id: z.union([z.string(), z.number()]),
+  title: z.string().min(1),
+  address: z.string().nullish(),
+  lat: z.number().nullish(),
+  lng: z.number().nullish(),
+});
+
+// POST /api/itinerary/optimize
+export const optimizeRouteSchema = z.object({
+  city: z.string({ required_error: "City is required" }).min(1, "City is required"),
+  hotelLocation: z.string().nullish(),
+  spots: z
+    .array(routeSpotInputSchema, { required_error: "Spots array is required" })
+    .max(MAX_ROUTE_SPOTS, `At most ${MAX_ROUTE_SPOTS} spots can be optimized at once`),
+});
+
+// A whole itinerary is timed at once, so this allows more than one route.
+export const MAX_TRAVEL_TIME_SPOTS = 100;
+
+// POST /api/itinerary/travel-times; spots in itinerary order.
+export const travelTimesSchema = z.object({
+  city: z.string({ required_error: "City is required" }).min(1, "City is required"),
+  spots: z
+    .array(routeSpotInputSchema.extend({ day: z.number().int().min(0).nullish() }), {
+      required_error: "Spots array is required",
+    })
+    .max(MAX_TRAVEL_TIME_SPOTS, `At most ${MAX_TRAVEL_TIME_SPOTS} spots can be timed at once`),
+});
+
+// PUT /api/trips/:id/spots: the whole ordered spot list. id is the stored spot
+// the item came from; items without one are matched by placeId, then title.
+// Other spot fields are read leniently, like POST /api/trips/:id/spots.
+export const syncTripSpotsSchema = z.object({
+  spots: z
+    .array(
+      z
+        .object({
+          id: z.number().int().optional(),
+          title: z.string().trim().min(1),
+        })
+        .passthrough(),
+    )
+    .max(MAX_TRIP_SPOTS),
+  baseVersion: z.number().int().optional(),
+});
+
+// A spot in a full-list sync; id is the stored spot it came from, if any.
+export type SyncTripSpot = Omit<InsertTripSpot, "tripId" | "sortOrder"> & { id?: number };
+export type SyncTripSpots = { spots: SyncTripSpot[]; baseVersion?: number };
+
+/* Live trip sync over the /ws/trips WebSocket. */
+
+export const tripSyncClientMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("join"), tripId: z.number().int() }),
+  z.object({ type: z.literal("leave"), tripId: z.number().int() }),
+]);
+export type TripSyncClientMessage = z.infer<typeof tripSyncClientMessageSchema>;
+
+export type TripViewer = PublicUser;
+export type TripSpotsChange = "added" | "removed" | "reordered" | "moved" | "updated";
+
+export type TripSyncServerMessage =
+  | { type: "presence"; tripId: number; viewers: TripViewer[] }
+  | {
+      type: "spots";
+      tripId: number;
+      change: TripSpotsChange;
+      version: number;
+      by: TripViewer;
+      spots: TripSpot[];
+    }
+  | { type: "error"; tripId: number; error: string };
 
 export const quizQuestionSchema = z.object({
   question: z.string(),
   options: z.array(z.string()).length(4),
   correctIndex: z.number().min(0).max(3),
   funFact: z.string(),
+  // Smoothed share of players answering correctly; only sent in adaptive mode.
+  accuracy: z.number().min(0).max(1).optional(),
 });
 
+// Buckets every places provider maps POIs into (see server/places.ts).
+export const PLACE_CATEGORIES = ["Culture", "Food", "Nature", "Shopping", "Entertainment", "Landmark"] as const;
+export const placeCategorySchema = z.enum(PLACE_CATEGORIES);
+export type PlaceCategory = z.infer<typeof placeCategorySchema>;
+
+export const suggestionFiltersSchema = z.object({
+  includeCategories: z.array(placeCategorySchema).optional(),
+  excludeCategories: z.array(placeCategorySchema).optional(),
+  minRating: z.number().min(0).max(5).optional(),
+  /** Only applies when a hotel location is set. */
+  maxDistanceKm: z.number().positive().max(100).optional(),
+  /** Highly rated places with fewer reviews than most of the pool. */
+  hiddenGems: z.boolean().optional(),
+});
+export type SuggestionFilters = z.infer<typeof suggestionFiltersSchema>;
+
+// Where a suggestion came from: a places provider, the LLM, or the curated fallback list.
+export const SUGGESTION_SOURCES = ["google", "osm", "fixture", "ai", "curated"] as const;
+export type SuggestionSource = (typeof SUGGESTION_SOURCES)[number];
+
 export const suggestionSchema = z.object({
   title: z.string(),
   description: z.string(),
@@ -62,7 +445,82 @@ export const suggestionSchema = z.object({
   placeId: z.string().optional(),
   lat: z.number().optional(),
   lng: z.number().optional(),
+  source: z.enum(SUGGESTION_SOURCES).optional(),
+  openingHours: openingHoursSchema.optional(),
+  visitMinutes: z.number().min(0).optional(),
+});
+
+export const submitQuizAttemptSchema = z.object({
+  difficulty: difficultySchema.default("standard"),
+  cityPlaceId: z.string().nullable().optional(),
+  cityLabel: z.string().nullable().optional(),
+  questions: z.array(quizQuestionSchema).min(1),
+  questionIds: z.array(z.string()).optional(),
+  answers: z.array(z.number().int().min(0).max(3).nullable()),
+});
+
+// An itinerary item as the client keeps it (ItineraryItem in tripContext).
+const draftItineraryItemSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string(),
+  category: z.string(),
+  funFact: z.string().optional(),
+  address: z.string().optional(),
+  imageUrl: z.string().optional(),
+  placeId: z.string().optional(),
+  lat: z.number().optional(),
+  lng: z.number().optional(),
+  isCustom: z.boolean().optional(),
+  day: z.number().int().min(0),
+  timeSlot: timeSlotSchema.optional(),
+  openingHours: openingHoursSchema.optional(),
+  visitMinutes: z.number().min(0).optional(),
+});
+
+// Screens a session can be resumed on.
+export const SESSION_DRAFT_SCREENS = ["quiz", "quiz-results", "suggestions", "itinerary", "map"] as const;
+
+export const sessionDraftSchema = z.object({
+  screen: z.enum(SESSION_DRAFT_SCREENS),
+  savedAt: z.string().datetime(),
+  city: z.string(),
+  cityLabel: z.string(),
+  cityPlaceId: z.string(),
+  hotelLocation: z.string(),
+  mode: z.enum(["quiz", "planning"]),
+  difficulty: difficultySchema,
+  questions: z.array(quizQuestionSchema),
+  questionIds: z.array(z.string()),
+  questionReserve: z.array(z.object({ question: quizQuestionSchema, questionId: z.string() })),
+  currentQuestionIndex: z.number().int().min(0),
+  score: z.number().int().min(0),
+  userAnswers: z.array(z.number().int().min(0).max(3).nullable()),
+  quizAttemptRecorded: z.boolean(),
+  suggestions: z.array(suggestionSchema),
+  suggestionFilters: suggestionFiltersSchema,
+  itinerary: z.object({
+    past: z.array(z.array(draftItineraryItemSchema)),
+    present: z.array(draftItineraryItemSchema),
+    future: z.array(z.array(draftItineraryItemSchema)),
+  }),
+  dayCount: z.number().int().min(1).max(MAX_TRIP_DAYS),
+  startDate: z.string(),
+  activeTripId: z.number().int().positive().nullable(),
+  syncedSpotsVersion: z.number().int().nullable(),
 });
 
+export type QuizAttempt = typeof quizAttempts.$inferSelect;
+export type InsertQuizAttempt = typeof quizAttempts.$inferInsert;
+export type QuizAnswer = typeof quizAnswers.$inferSelect;
+export type InsertQuizAnswer = typeof quizAnswers.$inferInsert;
+export type QuizAttemptWithAnswers = QuizAttempt & { answers: QuizAnswer[] };
+export type SubmitQuizAttempt = z.infer<typeof submitQuizAttemptSchema>;
+export type TravelerProfile = z.infer<typeof travelerProfileSchema>;
+export type TriviaQuestion = typeof triviaQuestions.$inferSelect;
+export type InsertTriviaQuestion = typeof triviaQuestions.$inferInsert;
 export type QuizQuestion = z.infer<typeof quizQuestionSchema>;
 export type Suggestion = z.infer<typeof suggestionSchema>;
+export type SessionDraft = z.infer<typeof sessionDraftSchema>;
+export type AiUsage = typeof aiUsage.$inferSelect;
+export type SessionDraftScreen = SessionDraft["screen"];
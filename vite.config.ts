@@ -1,12 +1,47 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Manifest, type Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 import path from "path";
+import fs from "fs";
+import { createHash } from "crypto";
 import runtimeErrorOverlay from "@replit/vite-plugin-runtime-error-modal";
 
+// Fills client/public/sw.js's placeholders with the build's assets (from the
+// Vite manifest) and an id derived from their hashed names, so each deploy
+// installs a new service worker with its own cache.
+function serviceWorkerPrecache(): Plugin {
+  return {
+    name: "braintrip:sw-precache",
+    apply: "build",
+    writeBundle(options) {
+      const outDir = options.dir!;
+      const manifest: Manifest = JSON.parse(fs.readFileSync(path.join(outDir, ".vite/manifest.json"), "utf-8"));
+      const files = new Set<string>();
+      for (const chunk of Object.values(manifest)) {
+        for (const file of [chunk.file, ...(chunk.css || []), ...(chunk.assets || [])]) files.add(`/${file}`);
+      }
+      const assets = Array.from(files).sort();
+      const buildId = createHash("sha256").update(assets.join("\n")).digest("hex").slice(0, 12);
+
+      const swPath = path.join(outDir, "sw.js");
+      const source = fs.readFileSync(swPath, "utf-8");
+      if (!source.includes('"__BUILD_ID__"') || !source.includes("/* __BUILD_ASSETS__ */ []")) {
+        throw new Error("sw.js is missing its __BUILD_ID__ / __BUILD_ASSETS__ placeholders");
+      }
+      fs.writeFileSync(
+        swPath,
+        source
+          .replace('"__BUILD_ID__"', JSON.stringify(buildId))
+          .replace("/* __BUILD_ASSETS__ */ []", JSON.stringify(assets)),
+      );
+    },
+  };
+}
+
 export default defineConfig({
   plugins: [
     react(),
     runtimeErrorOverlay(),
+    serviceWorkerPrecache(),
     ...(process.env.NODE_ENV !== "production" &&
     process.env.REPL_ID !== undefined
       ? [
@@ -30,6 +65,8 @@ export default defineConfig({
   build: {
     outDir: path.resolve(import.meta.dirname, "dist/public"),
     emptyOutDir: true,
+    // Read by serviceWorkerPrecache.
+    manifest: true,
   },
   server: {
     fs: {